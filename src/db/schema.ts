@@ -1,25 +1,192 @@
-import { pgTable, uuid, varchar, timestamp, jsonb, real } from "drizzle-orm/pg-core";
+import { pgTable, uuid, varchar, text, timestamp, jsonb, real, integer, uniqueIndex, index } from "drizzle-orm/pg-core";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
 
 // Users table 
 export const users = pgTable("users", {
   id: uuid("id").defaultRandom().primaryKey(),
   email: varchar("email", { length: 255 }).notNull().unique(),
   passwordHash: varchar("password_hash", { length: 255 }), 
-  googleId: varchar("google_id", { length: 255 }), 
+  googleId: varchar("google_id", { length: 255 }), // legacy: superseded by identities, backfilled by `npm run migrate:identities`
   name: varchar("name", { length: 255 }), 
+  phone: varchar("phone", { length: 50 }),
+  location: varchar("location", { length: 255 }),
+  linkedin: varchar("linkedin", { length: 500 }),
+  github: varchar("github", { length: 500 }),
+  website: varchar("website", { length: 500 }),
+  emailVerifiedAt: timestamp("email_verified_at"),
+  role: varchar("role", { length: 20, enum: ["candidate", "employer", "admin"] }).notNull().default("candidate"),
+  failedLoginAttempts: integer("failed_login_attempts").notNull().default(0),
+  lockedUntil: timestamp("locked_until"),
+  totpSecret: varchar("totp_secret", { length: 64 }), // set on enrollment, active once totpEnabledAt is set
+  totpEnabledAt: timestamp("totp_enabled_at"),
+  totpLastUsedStep: integer("totp_last_used_step"), // rejects replay of an accepted code
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// External sign-in identities (Google, GitHub, LinkedIn) linked to a user
+export const identities = pgTable("identities", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  provider: varchar("provider", { length: 32, enum: ["google", "github", "linkedin"] }).notNull(),
+  subject: varchar("subject", { length: 255 }).notNull(), // the provider's stable user id
+  email: varchar("email", { length: 255 }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("identities_provider_subject_idx").on(table.provider, table.subject),
+  uniqueIndex("identities_user_provider_idx").on(table.userId, table.provider),
+]);
+
+// Pending OAuth authorization-code flows (state + PKCE verifier), single use
+export const oauthStates = pgTable("oauth_states", {
+  state: varchar("state", { length: 64 }).primaryKey(),
+  provider: varchar("provider", { length: 32 }).notNull(),
+  codeVerifier: varchar("code_verifier", { length: 128 }).notNull(),
+  linkUserId: uuid("link_user_id").references(() => users.id, { onDelete: "cascade" }), // set when linking to a signed-in user
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Sessions table — one row per issued refresh token. Rotation creates a new
+// row in the same family and marks the previous one as replaced.
+export const sessions = pgTable("sessions", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  familyId: uuid("family_id").notNull(),
+  refreshTokenHash: varchar("refresh_token_hash", { length: 64 }).notNull(),
+  replacedBy: uuid("replaced_by"),
+  userAgent: varchar("user_agent", { length: 500 }),
+  ipAddress: varchar("ip_address", { length: 64 }),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Single-use tokens for password reset and email verification (hash only)
+export const authTokens = pgTable("auth_tokens", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  purpose: varchar("purpose", { length: 32 }).notNull(), // password_reset | email_verification
+  tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Hashed one-time recovery codes for two-factor authentication
+export const recoveryCodes = pgTable("recovery_codes", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  codeHash: varchar("code_hash", { length: 64 }).notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Personal API keys for programmatic access; only the SHA-256 of the secret is stored
+export const apiKeys = pgTable("api_keys", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  name: varchar("name", { length: 100 }).notNull(),
+  prefix: varchar("prefix", { length: 16 }).notNull().unique(), // public part, used for lookup and display
+  keyHash: varchar("key_hash", { length: 64 }).notNull(),
+  scopes: jsonb("scopes").$type<string[]>().notNull(),
+  expiresAt: timestamp("expires_at"),
+  lastUsedAt: timestamp("last_used_at"),
+  revokedAt: timestamp("revoked_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Fixed-window rate limit counters (used when RATE_LIMIT_STORE=postgres)
+export const rateLimits = pgTable("rate_limits", {
+  key: varchar("key", { length: 255 }).primaryKey(),
+  count: integer("count").notNull().default(0),
+  resetAt: timestamp("reset_at").notNull(),
+});
+
+// Append-only security audit trail. No foreign keys on purpose: events must
+// outlive the users and resumes they describe.
+export const auditEvents = pgTable("audit_events", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  actorUserId: uuid("actor_user_id"),
+  action: varchar("action", { length: 64 }).notNull(),
+  targetType: varchar("target_type", { length: 32 }),
+  targetId: varchar("target_id", { length: 255 }),
+  ipAddress: varchar("ip_address", { length: 64 }),
+  userAgent: varchar("user_agent", { length: 500 }),
+  metadata: jsonb("metadata"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("audit_events_actor_idx").on(table.actorUserId, table.createdAt),
+  index("audit_events_action_idx").on(table.action, table.createdAt),
+  // Events about a user made by someone else, e.g. failed logins against the account
+  index("audit_events_target_idx").on(table.targetType, table.targetId, table.createdAt),
+]);
+
 // Resumes table
 export const resumes = pgTable("resumes", {
   id: uuid("id").defaultRandom().primaryKey(),
   userId: uuid("user_id").references(() => users.id).notNull(),
+  // Each upload is a numbered version of a document; null until backfilled by `npm run migrate:documents`
+  documentId: uuid("document_id").references(() => resumeDocuments.id),
+  version: integer("version").notNull().default(1),
   fileUrl: varchar("file_url", { length: 500 }).notNull(),
+  // Key in the configured FileStorage; null for uploads not yet moved by migrate:storage
+  storageKey: varchar("storage_key", { length: 500 }),
   analysis: jsonb("analysis"), // stores AI feedback
+  // ok: validated as returned; partial: invalid fields dropped or defaulted; failed: no usable analysis
+  analysisStatus: varchar("analysis_status", { length: 20, enum: ["ok", "partial", "failed"] }),
+  // Uploads are analysed in the background; rows created before the queue existed are "ready"
+  processingStatus: varchar("processing_status", { length: 20, enum: ["pending", "processing", "ready", "failed"] })
+    .notNull()
+    .default("ready"),
+  processingError: varchar("processing_error", { length: 1000 }),
+  mimeType: varchar("mime_type", { length: 255 }),
+  // Name the file was uploaded with; the stored file itself has a random name
+  originalFileName: varchar("original_file_name", { length: 255 }),
+  fileSize: integer("file_size"),
+  // SHA-256 of the uploaded bytes and of the normalised extracted text, for spotting re-uploads
+  fileHash: varchar("file_hash", { length: 64 }),
+  textHash: varchar("text_hash", { length: 64 }),
+  resumeText: text("resume_text"),
+  extractionMethod: varchar("extraction_method", { length: 20, enum: ["text", "ocr"] }),
+  extractionConfidence: real("extraction_confidence"), // OCR confidence 0-1; null when text was read directly
   
   createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("resumes_document_version_idx").on(table.documentId, table.version),
+  index("resumes_user_file_hash_idx").on(table.userId, table.fileHash),
+  index("resumes_user_text_hash_idx").on(table.userId, table.textHash),
+]);
+
+// A resume as the user thinks of it, across every version they uploaded
+export const resumeDocuments = pgTable("resume_documents", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: uuid("user_id").references(() => users.id).notNull(),
+  title: varchar("title", { length: 255 }),
+  // Version shown by default; older ones stay available for history and diffs
+  currentResumeId: uuid("current_resume_id").references((): AnyPgColumn => resumes.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
+// Background work queue, claimed by workers with FOR UPDATE SKIP LOCKED
+export const queueJobs = pgTable("queue_jobs", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  type: varchar("type", { length: 64 }).notNull(),
+  payload: jsonb("payload").$type<Record<string, unknown>>().notNull(),
+  // dead: exhausted its attempts and needs manual attention
+  status: varchar("status", { length: 20, enum: ["pending", "running", "completed", "dead"] }).notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(5),
+  runAt: timestamp("run_at").notNull().defaultNow(),
+  lockedAt: timestamp("locked_at"),
+  lockedBy: varchar("locked_by", { length: 100 }),
+  lastError: varchar("last_error", { length: 2000 }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  completedAt: timestamp("completed_at"),
+}, (table) => [
+  index("queue_jobs_claim_idx").on(table.status, table.runAt),
+]);
+
 // Jobs table
 export const jobs = pgTable("jobs", {
   id: uuid("id").defaultRandom().primaryKey(),
@@ -42,4 +209,9 @@ export const matches = pgTable("matches", {
 
 // Types
 export type User = typeof users.$inferSelect;
-export type NewUser = typeof users.$inferInsert;
\ No newline at end of file
+export type NewUser = typeof users.$inferInsert;
+export type Session = typeof sessions.$inferSelect;
+export type Identity = typeof identities.$inferSelect;
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type QueueJob = typeof queueJobs.$inferSelect;
\ No newline at end of file
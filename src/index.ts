@@ -6,7 +6,11 @@ import { cors } from 'hono/cors';
 import authRoutes from './modules/auth/auth.route.js';
 import resumeRoutes from './modules/resumes/resume.route.js';
 import { jobRoutes } from './modules/jobs/jobs.route.js';
+import auditRoutes from './modules/audit/audit.route.js';
+import storageRoutes from './modules/storage/storage.route.js';
 import './scheduler.js';
+import { startWorker } from './worker.js';
+import { getMailer } from './modules/mail/mailer.js';
 
 const app = new Hono();
 
@@ -24,7 +28,8 @@ app.use(
       'http://localhost:5173'
     ],
     allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-    allowHeaders: ['Content-Type', 'Authorization'],
+    allowHeaders: ['Content-Type', 'Authorization', 'X-API-Key'],
+    exposeHeaders: ['Retry-After', 'RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'RateLimit-Policy'],
     credentials: true,
   })
 );
@@ -45,6 +50,8 @@ app.get('/health', (c) => {
 // ✅ Mount route groups
 app.route('/auth', authRoutes);
 app.route('/resume', resumeRoutes);
+app.route('/audit', auditRoutes);
+app.route('/files', storageRoutes);
 app.route('/', jobRoutes);
 
 // ✅ Error handling
@@ -65,6 +72,14 @@ app.onError((err, c) => {
 // ✅ 404 handler
 app.notFound((c) => c.json({ error: 'Route not found' }, 404));
 
+// ✅ Fail at startup, not on the first password reset, when mail is misconfigured
+getMailer();
+
+// ✅ Background queue (resume analysis); disable when running `npm run worker` separately
+if (process.env.QUEUE_WORKER_ENABLED !== 'false') {
+  startWorker();
+}
+
 // ✅ Start server - Use PORT from .env or default to 3000
 const PORT = Number(process.env.PORT) || 3000;
 
@@ -0,0 +1,44 @@
+import type { Context } from 'hono';
+import { AuditService } from './audit.service.js';
+import { auditQuerySchema } from '../../validator.js';
+
+export class AuditController {
+  static async list(c: Context) {
+    const parsed = auditQuerySchema.safeParse(c.req.query());
+
+    if (!parsed.success) {
+      return c.json({
+        success: false,
+        message: 'Validation error',
+        errors: parsed.error.errors.map(e => ({
+          field: e.path.join('.'),
+          message: e.message,
+        })),
+      }, 400);
+    }
+
+    try {
+      const page = parsed.data.page ?? 1;
+      const limit = parsed.data.limit ?? 50;
+      const { events, total } = await AuditService.query({ ...parsed.data, page, limit });
+      const totalPages = Math.ceil(total / limit);
+
+      return c.json({
+        success: true,
+        message: 'Audit events retrieved successfully',
+        data: events,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages,
+          hasNext: page < totalPages,
+          hasPrev: page > 1,
+        },
+      });
+    } catch (error) {
+      console.error('Audit query error:', error);
+      return c.json({ success: false, message: 'Internal server error' }, 500);
+    }
+  }
+}
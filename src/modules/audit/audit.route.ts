@@ -0,0 +1,12 @@
+import { Hono } from 'hono';
+import { AuditController } from './audit.controller.js';
+import { authenticateSession, requireRole } from '../auth/auth.middleware.js';
+
+const app = new Hono();
+
+// Admin only
+app.use('*', authenticateSession, requireRole('admin'));
+
+app.get('/events', AuditController.list);
+
+export default app;
@@ -0,0 +1,124 @@
+import type { Context } from 'hono';
+import { and, count, desc, eq, gte, lte, or } from 'drizzle-orm';
+import type { SQL } from 'drizzle-orm';
+import { db } from '../../db/db.js';
+import { auditEvents } from '../../db/schema.js';
+import type { AuditEvent } from '../../db/schema.js';
+import type { AuditQueryInput } from '../../validator.js';
+import { getClientIp } from '../../utils/request.js';
+
+export type AuditAction =
+  | 'auth.register'
+  | 'auth.login.success'
+  | 'auth.login.failed'
+  | 'auth.logout'
+  | 'auth.logout_all'
+  | 'auth.token.reuse_detected'
+  | 'auth.password.changed'
+  | 'auth.password.reset_requested'
+  | 'auth.password.reset'
+  | 'auth.email.verified'
+  | 'auth.identity.linked'
+  | 'auth.identity.unlinked'
+  | 'auth.2fa.enabled'
+  | 'auth.2fa.disabled'
+  | 'auth.api_key.created'
+  | 'auth.api_key.revoked'
+  | 'auth.role.changed'
+  | 'account.exported'
+  | 'account.deleted'
+  | 'resume.uploaded'
+  | 'resume.upload_rejected'
+  | 'resume.imported'
+  | 'resume.read'
+  | 'resume.listed'
+  | 'resume.updated';
+
+export interface AuditRequestMeta {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface AuditEventInput extends AuditRequestMeta {
+  actorUserId?: string | null;
+  action: AuditAction;
+  targetType?: 'user' | 'resume' | 'session' | 'api_key' | 'identity' | 'resume_document';
+  targetId?: string;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * WHERE clause for an audit query. Filtering by user matches what the user
+ * did and what was done to their account: failed logins and lockouts are
+ * recorded with no actor and the user as target.
+ */
+export function auditFilter(filters: AuditQueryInput): SQL | undefined {
+  return and(
+    filters.userId
+      ? or(
+          eq(auditEvents.actorUserId, filters.userId),
+          and(eq(auditEvents.targetType, 'user'), eq(auditEvents.targetId, filters.userId))
+        )
+      : undefined,
+    filters.action ? eq(auditEvents.action, filters.action) : undefined,
+    filters.startDate ? gte(auditEvents.createdAt, new Date(filters.startDate)) : undefined,
+    filters.endDate ? lte(auditEvents.createdAt, new Date(filters.endDate)) : undefined
+  );
+}
+
+// The log is append-only: this service deliberately offers no update or delete.
+export class AuditService {
+  static metaFromContext(c: Context): AuditRequestMeta {
+    return {
+      ipAddress: getClientIp(c),
+      userAgent: c.req.header('User-Agent')?.slice(0, 500),
+    };
+  }
+
+  // Record an event for the current request's user
+  static async recordRequest(c: Context, event: Omit<AuditEventInput, keyof AuditRequestMeta>): Promise<void> {
+    await this.record({
+      actorUserId: c.get('userId') ?? null,
+      ...event,
+      ...this.metaFromContext(c),
+    });
+  }
+
+  /**
+   * Persist an event. Auditing must never break the action being audited, so
+   * failures are logged rather than thrown.
+   */
+  static async record(event: AuditEventInput): Promise<void> {
+    try {
+      await db.insert(auditEvents).values({
+        actorUserId: event.actorUserId ?? null,
+        action: event.action,
+        targetType: event.targetType,
+        targetId: event.targetId,
+        ipAddress: event.ipAddress,
+        userAgent: event.userAgent,
+        metadata: event.metadata,
+      });
+    } catch (error) {
+      console.error('Failed to record audit event:', event.action, error);
+    }
+  }
+
+  static async query(filters: AuditQueryInput): Promise<{ events: AuditEvent[]; total: number }> {
+    const { page = 1, limit = 50 } = filters;
+
+    const conditions = auditFilter(filters);
+
+    const events = await db
+      .select()
+      .from(auditEvents)
+      .where(conditions)
+      .orderBy(desc(auditEvents.createdAt))
+      .limit(limit)
+      .offset((page - 1) * limit);
+
+    const [totals] = await db.select({ total: count() }).from(auditEvents).where(conditions);
+
+    return { events, total: totals?.total ?? 0 };
+  }
+}
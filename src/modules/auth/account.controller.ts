@@ -0,0 +1,125 @@
+import type { Context } from 'hono';
+import { z } from 'zod';
+import { AccountService } from './account.service.js';
+import { AuditService } from '../audit/audit.service.js';
+import { updateProfileSchema, deleteAccountSchema } from '../../validator.js';
+
+const validationErrorResponse = (c: Context, error: z.ZodError) =>
+  c.json({
+    success: false,
+    message: 'Validation error',
+    errors: error.errors.map(e => ({
+      field: e.path.join('.'),
+      message: e.message,
+    })),
+  }, 400);
+
+export class AccountController {
+  static async getProfile(c: Context) {
+    try {
+      const user = await AccountService.getProfile(c.get('userId'));
+
+      return c.json({
+        success: true,
+        message: 'Profile retrieved successfully',
+        data: { user },
+      });
+    } catch (error) {
+      console.error('Get profile error:', error);
+
+      if (error instanceof Error && error.message === 'User not found') {
+        return c.json({ success: false, message: error.message }, 404);
+      }
+
+      return c.json({ success: false, message: 'Internal server error' }, 500);
+    }
+  }
+
+  static async updateProfile(c: Context) {
+    try {
+      const body = await c.req.json();
+
+      // Validate request body
+      const validatedData = updateProfileSchema.parse(body);
+
+      const user = await AccountService.updateProfile(c.get('userId'), validatedData);
+
+      return c.json({
+        success: true,
+        message: 'Profile updated successfully',
+        data: { user },
+      });
+    } catch (error) {
+      console.error('Update profile error:', error);
+
+      if (error instanceof z.ZodError) {
+        return validationErrorResponse(c, error);
+      }
+
+      if (error instanceof Error && error.message === 'User not found') {
+        return c.json({ success: false, message: error.message }, 404);
+      }
+
+      return c.json({ success: false, message: 'Internal server error' }, 500);
+    }
+  }
+
+  static async exportData(c: Context) {
+    try {
+      const archive = await AccountService.exportData(c.get('userId'));
+      await AuditService.recordRequest(c, { action: 'account.exported', targetType: 'user', targetId: c.get('userId') });
+      const date = new Date().toISOString().slice(0, 10);
+
+      c.header('Content-Type', 'application/zip');
+      c.header('Content-Disposition', `attachment; filename=lockinedge-export-${date}.zip`);
+      return c.body(new Uint8Array(archive));
+    } catch (error) {
+      console.error('Export data error:', error);
+
+      if (error instanceof Error && error.message === 'User not found') {
+        return c.json({ success: false, message: error.message }, 404);
+      }
+
+      return c.json({ success: false, message: 'Internal server error' }, 500);
+    }
+  }
+
+  static async deleteAccount(c: Context) {
+    try {
+      const body = await c.req.json();
+
+      // Validate request body
+      const validatedData = deleteAccountSchema.parse(body);
+
+      await AccountService.deleteAccount(c.get('userId'), validatedData.password);
+      await AuditService.recordRequest(c, {
+        action: 'account.deleted',
+        targetType: 'user',
+        targetId: c.get('userId'),
+        metadata: { email: c.get('userEmail') },
+      });
+
+      return c.json({
+        success: true,
+        message: 'Account deleted',
+      });
+    } catch (error) {
+      console.error('Delete account error:', error);
+
+      if (error instanceof z.ZodError) {
+        return validationErrorResponse(c, error);
+      }
+
+      if (error instanceof Error) {
+        if (error.message === 'User not found') {
+          return c.json({ success: false, message: error.message }, 404);
+        }
+        if (error.message === 'Current password is incorrect') {
+          return c.json({ success: false, message: error.message }, 400);
+        }
+      }
+
+      return c.json({ success: false, message: 'Internal server error' }, 500);
+    }
+  }
+}
@@ -0,0 +1,158 @@
+import path from 'node:path';
+import JSZip from 'jszip';
+import { eq, inArray } from 'drizzle-orm';
+import { db } from '../../db/db.js';
+import { users, resumes, resumeDocuments, matches, jobs, identities } from '../../db/schema.js';
+import type { UserProfile } from '../../types.js';
+import type { UpdateProfileInput } from '../../validator.js';
+import { AuthService } from './auth.service.js';
+import { readResumeFile, resumeStorageKey } from '../resumes/resume.service.js';
+import { getStorage } from '../storage/file.storage.js';
+
+const profileColumns = {
+  id: users.id,
+  email: users.email,
+  name: users.name,
+  role: users.role,
+  phone: users.phone,
+  location: users.location,
+  linkedin: users.linkedin,
+  github: users.github,
+  website: users.website,
+  emailVerifiedAt: users.emailVerifiedAt,
+  createdAt: users.createdAt,
+};
+
+export class AccountService {
+  static async getProfile(userId: string): Promise<UserProfile> {
+    const user = await db.select(profileColumns).from(users).where(eq(users.id, userId)).limit(1);
+
+    if (!user[0]) {
+      throw new Error('User not found');
+    }
+
+    return user[0];
+  }
+
+  static async updateProfile(userId: string, updates: UpdateProfileInput): Promise<UserProfile> {
+    // Nothing to change; avoid an empty UPDATE
+    if (Object.keys(updates).length === 0) {
+      return this.getProfile(userId);
+    }
+
+    const updated = await db
+      .update(users)
+      .set(updates)
+      .where(eq(users.id, userId))
+      .returning(profileColumns);
+
+    if (!updated[0]) {
+      throw new Error('User not found');
+    }
+
+    return updated[0];
+  }
+
+  /**
+   * Bundle everything we hold about a user into a ZIP: profile, linked
+   * accounts, resumes with their analyses, job matches and the original
+   * uploaded files. Secrets (password hash, TOTP secret, tokens) are excluded.
+   */
+  static async exportData(userId: string): Promise<Buffer> {
+    const profile = await this.getProfile(userId);
+
+    const linkedAccounts = await db
+      .select({ provider: identities.provider, email: identities.email, createdAt: identities.createdAt })
+      .from(identities)
+      .where(eq(identities.userId, userId));
+
+    const userResumes = await db.select().from(resumes).where(eq(resumes.userId, userId));
+    const documents = await db.select().from(resumeDocuments).where(eq(resumeDocuments.userId, userId));
+    const resumeIds = userResumes.map((r) => r.id);
+
+    const userMatches = resumeIds.length
+      ? await db
+          .select({
+            id: matches.id,
+            resumeId: matches.resumeId,
+            score: matches.score,
+            matchedAt: matches.matchedAt,
+            job: {
+              id: jobs.id,
+              title: jobs.title,
+              company: jobs.company,
+              location: jobs.location,
+            },
+          })
+          .from(matches)
+          .innerJoin(jobs, eq(matches.jobId, jobs.id))
+          .where(inArray(matches.resumeId, resumeIds))
+      : [];
+
+    const zip = new JSZip();
+    zip.file('profile.json', JSON.stringify({ ...profile, linkedAccounts }, null, 2));
+    zip.file('resumes.json', JSON.stringify(userResumes, null, 2));
+    zip.file('resume-documents.json', JSON.stringify(documents, null, 2));
+    zip.file('matches.json', JSON.stringify(userMatches, null, 2));
+
+    for (const resume of userResumes) {
+      try {
+        const file = await readResumeFile(resume);
+        const name = resume.originalFileName ?? path.posix.basename(resumeStorageKey(resume) ?? 'resume');
+        zip.file(`files/${resume.id}-${name}`, file);
+      } catch (error) {
+        // A missing upload should not block the rest of the export
+        console.warn(`Export: file for resume ${resume.id} not found`);
+      }
+    }
+
+    zip.file(
+      'README.txt',
+      `LockinEdge data export for ${profile.email}\nGenerated at ${new Date().toISOString()}\n`
+    );
+
+    return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+  }
+
+  /**
+   * Permanently delete the account. Rows referencing the user directly are
+   * removed by ON DELETE CASCADE; resumes and their matches are deleted here,
+   * and uploaded files only once the transaction has committed.
+   */
+  static async deleteAccount(userId: string, password?: string): Promise<void> {
+    const user = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+
+    if (!user[0]) {
+      throw new Error('User not found');
+    }
+
+    if (user[0].passwordHash) {
+      if (!password || !(await AuthService.comparePassword(password, user[0].passwordHash))) {
+        throw new Error('Current password is incorrect');
+      }
+    }
+
+    const userResumes = await db
+      .select({ id: resumes.id, fileUrl: resumes.fileUrl, storageKey: resumes.storageKey })
+      .from(resumes)
+      .where(eq(resumes.userId, userId));
+    const resumeIds = userResumes.map((r) => r.id);
+
+    await db.transaction(async (tx) => {
+      if (resumeIds.length) {
+        await tx.delete(matches).where(inArray(matches.resumeId, resumeIds));
+        await tx.delete(resumes).where(inArray(resumes.id, resumeIds));
+      }
+      await tx.delete(resumeDocuments).where(eq(resumeDocuments.userId, userId));
+      await tx.delete(users).where(eq(users.id, userId));
+    });
+
+    for (const resume of userResumes) {
+      const key = resumeStorageKey(resume);
+      if (!key) continue;
+      await getStorage()
+        .delete(key)
+        .catch((error) => console.error(`Failed to delete file for resume ${resume.id}:`, error));
+    }
+  }
+}
@@ -0,0 +1,85 @@
+import type { Context } from 'hono';
+import { z } from 'zod';
+import { ApiKeyService } from './api-key.service.js';
+import { AuditService } from '../audit/audit.service.js';
+import { createApiKeySchema, uuidSchema } from '../../validator.js';
+
+export class ApiKeyController {
+  static async create(c: Context) {
+    try {
+      const body = await c.req.json();
+
+      // Validate request body
+      const validatedData = createApiKeySchema.parse(body);
+
+      const result = await ApiKeyService.create(c.get('userId'), validatedData);
+      await AuditService.recordRequest(c, {
+        action: 'auth.api_key.created',
+        targetType: 'api_key',
+        targetId: result.apiKey.id,
+        metadata: { prefix: result.apiKey.prefix, scopes: result.apiKey.scopes },
+      });
+
+      return c.json({
+        success: true,
+        message: 'API key created. Copy it now, it will not be shown again.',
+        data: result,
+      }, 201);
+    } catch (error) {
+      console.error('Create API key error:', error);
+
+      if (error instanceof z.ZodError) {
+        return c.json({
+          success: false,
+          message: 'Validation error',
+          errors: error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message,
+          })),
+        }, 400);
+      }
+
+      return c.json({ success: false, message: 'Internal server error' }, 500);
+    }
+  }
+
+  static async list(c: Context) {
+    try {
+      const keys = await ApiKeyService.list(c.get('userId'));
+
+      return c.json({
+        success: true,
+        message: 'API keys retrieved successfully',
+        data: keys,
+      });
+    } catch (error) {
+      console.error('List API keys error:', error);
+      return c.json({ success: false, message: 'Internal server error' }, 500);
+    }
+  }
+
+  static async revoke(c: Context) {
+    const parsed = uuidSchema.safeParse(c.req.param('id'));
+    if (!parsed.success) {
+      return c.json({ success: false, message: 'Invalid API key ID' }, 400);
+    }
+
+    try {
+      await ApiKeyService.revoke(c.get('userId'), parsed.data);
+      await AuditService.recordRequest(c, { action: 'auth.api_key.revoked', targetType: 'api_key', targetId: parsed.data });
+
+      return c.json({
+        success: true,
+        message: 'API key revoked',
+      });
+    } catch (error) {
+      console.error('Revoke API key error:', error);
+
+      if (error instanceof Error && error.message === 'API key not found') {
+        return c.json({ success: false, message: error.message }, 404);
+      }
+
+      return c.json({ success: false, message: 'Internal server error' }, 500);
+    }
+  }
+}
@@ -0,0 +1,132 @@
+import crypto from 'node:crypto';
+import { and, desc, eq, isNull } from 'drizzle-orm';
+import { db } from '../../db/db.js';
+import { apiKeys, users } from '../../db/schema.js';
+import type { ApiKey } from '../../db/schema.js';
+import type { ApiKeyScope, UserRole } from '../../types.js';
+import type { CreateApiKeyInput } from '../../validator.js';
+
+export const API_KEY_PREFIX = 'lke_';
+
+export type ApiKeySummary = Omit<ApiKey, 'keyHash' | 'userId'>;
+
+export interface ApiKeyPrincipal {
+  keyId: string;
+  userId: string;
+  email: string;
+  role: UserRole;
+  scopes: ApiKeyScope[];
+}
+
+export class ApiKeyService {
+  // Avoid a write on every request; last-used is advisory
+  private static readonly LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+  private static hash(secret: string): string {
+    return crypto.createHash('sha256').update(secret).digest('hex');
+  }
+
+  private static toSummary({ keyHash, userId, ...summary }: ApiKey): ApiKeySummary {
+    return summary;
+  }
+
+  static isApiKey(value: string): boolean {
+    return value.startsWith(API_KEY_PREFIX);
+  }
+
+  /**
+   * Create a key of the form "lke_<prefix>_<secret>". The full key is only
+   * returned here; afterwards the key is identified by its prefix.
+   */
+  static async create(userId: string, input: CreateApiKeyInput): Promise<{ key: string; apiKey: ApiKeySummary }> {
+    const prefix = crypto.randomBytes(6).toString('hex');
+    const secret = crypto.randomBytes(32).toString('base64url');
+
+    const [apiKey] = await db
+      .insert(apiKeys)
+      .values({
+        userId,
+        name: input.name,
+        prefix,
+        keyHash: this.hash(secret),
+        scopes: [...new Set(input.scopes)],
+        expiresAt: input.expiresAt ? new Date(input.expiresAt) : null,
+      })
+      .returning();
+
+    if (!apiKey) {
+      throw new Error('Failed to create API key');
+    }
+
+    return { key: `${API_KEY_PREFIX}${prefix}_${secret}`, apiKey: this.toSummary(apiKey) };
+  }
+
+  static async list(userId: string): Promise<ApiKeySummary[]> {
+    const keys = await db
+      .select()
+      .from(apiKeys)
+      .where(eq(apiKeys.userId, userId))
+      .orderBy(desc(apiKeys.createdAt));
+
+    return keys.map((key) => this.toSummary(key));
+  }
+
+  static async revoke(userId: string, keyId: string): Promise<void> {
+    const [revoked] = await db
+      .update(apiKeys)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(apiKeys.id, keyId), eq(apiKeys.userId, userId), isNull(apiKeys.revokedAt)))
+      .returning({ id: apiKeys.id });
+
+    if (!revoked) {
+      throw new Error('API key not found');
+    }
+  }
+
+  // Returns how many keys were still active
+  static async revokeAllForUser(userId: string): Promise<number> {
+    const revoked = await db
+      .update(apiKeys)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(apiKeys.userId, userId), isNull(apiKeys.revokedAt)))
+      .returning({ id: apiKeys.id });
+
+    return revoked.length;
+  }
+
+  static async authenticate(key: string): Promise<ApiKeyPrincipal | null> {
+    const match = /^lke_([0-9a-f]{12})_([A-Za-z0-9_-]+)$/.exec(key);
+    if (!match) return null;
+    const prefix = match[1]!;
+    const secret = match[2]!;
+
+    const [row] = await db
+      .select({ apiKey: apiKeys, email: users.email, role: users.role })
+      .from(apiKeys)
+      .innerJoin(users, eq(apiKeys.userId, users.id))
+      .where(eq(apiKeys.prefix, prefix))
+      .limit(1);
+
+    if (!row) return null;
+
+    const candidate = Buffer.from(this.hash(secret), 'hex');
+    const stored = Buffer.from(row.apiKey.keyHash, 'hex');
+    if (candidate.length !== stored.length || !crypto.timingSafeEqual(candidate, stored)) return null;
+
+    if (row.apiKey.revokedAt) return null;
+    if (row.apiKey.expiresAt && row.apiKey.expiresAt.getTime() <= Date.now()) return null;
+
+    const lastUsed = row.apiKey.lastUsedAt?.getTime() ?? 0;
+    if (Date.now() - lastUsed > this.LAST_USED_RESOLUTION_MS) {
+      await db.update(apiKeys).set({ lastUsedAt: new Date() }).where(eq(apiKeys.id, row.apiKey.id));
+    }
+
+    return {
+      keyId: row.apiKey.id,
+      userId: row.apiKey.userId,
+      email: row.email,
+      role: row.role,
+      scopes: row.apiKey.scopes as ApiKeyScope[],
+    };
+  }
+}
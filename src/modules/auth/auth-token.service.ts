@@ -0,0 +1,61 @@
+import crypto from 'node:crypto';
+import { and, eq, gt, isNull } from 'drizzle-orm';
+import { db } from '../../db/db.js';
+import { authTokens } from '../../db/schema.js';
+
+export type AuthTokenPurpose = 'password_reset' | 'email_verification';
+
+const TOKEN_TTL_MS: Record<AuthTokenPurpose, number> = {
+  password_reset: 1000 * 60 * 60, // 1 hour
+  email_verification: 1000 * 60 * 60 * 24, // 24 hours
+};
+
+export class AuthTokenService {
+  private static hash(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * Issue a new token for the given purpose. Any earlier unused token for the
+   * same user and purpose is invalidated so only the latest link works.
+   */
+  static async issue(userId: string, purpose: AuthTokenPurpose): Promise<string> {
+    const token = crypto.randomBytes(32).toString('base64url');
+
+    await db
+      .update(authTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(authTokens.userId, userId), eq(authTokens.purpose, purpose), isNull(authTokens.usedAt)));
+
+    await db.insert(authTokens).values({
+      userId,
+      purpose,
+      tokenHash: this.hash(token),
+      expiresAt: new Date(Date.now() + TOKEN_TTL_MS[purpose]),
+    });
+
+    return token;
+  }
+
+  // Atomically mark the token used and return its owner
+  static async consume(token: string, purpose: AuthTokenPurpose): Promise<string> {
+    const [consumed] = await db
+      .update(authTokens)
+      .set({ usedAt: new Date() })
+      .where(
+        and(
+          eq(authTokens.tokenHash, this.hash(token)),
+          eq(authTokens.purpose, purpose),
+          isNull(authTokens.usedAt),
+          gt(authTokens.expiresAt, new Date())
+        )
+      )
+      .returning({ userId: authTokens.userId });
+
+    if (!consumed) {
+      throw new Error('Invalid or expired token');
+    }
+
+    return consumed.userId;
+  }
+}
@@ -1,6 +1,8 @@
 import type { Context } from 'hono';
-import { AuthService } from './auth.service.js';
-import { registerSchema, loginSchema, updatePasswordSchema, googleAuthSchema } from '../../validator.js';
+import { AuthService, AccountLockedError } from './auth.service.js';
+import { SessionService } from './session.service.js';
+import { AuditService } from '../audit/audit.service.js';
+import { registerSchema, loginSchema, updatePasswordSchema, googleAuthSchema, refreshTokenSchema, forgotPasswordSchema, resetPasswordSchema, verifyEmailSchema, updateRoleSchema, uuidSchema } from '../../validator.js';
 import { z } from 'zod';
 
 export class AuthController {
@@ -12,7 +14,7 @@ export class AuthController {
       const validatedData = registerSchema.parse(body);
 
       // Create user
-      const result = await AuthService.createUser(validatedData);
+      const result = await AuthService.createUser(validatedData, SessionService.metaFromContext(c));
 
       return c.json({
         success: true,
@@ -57,11 +59,11 @@ export class AuthController {
       const validatedData = loginSchema.parse(body);
 
       // Login user
-      const result = await AuthService.loginUser(validatedData);
+      const result = await AuthService.loginUser(validatedData, SessionService.metaFromContext(c));
 
       return c.json({
         success: true,
-        message: 'Login successful',
+        message: 'twoFactorRequired' in result ? 'Two-factor authentication required' : 'Login successful',
         data: result,
       });
     } catch (error) {
@@ -78,8 +80,16 @@ export class AuthController {
         }, 400);
       }
 
+      if (error instanceof AccountLockedError) {
+        c.header('Retry-After', String(error.retryAfterSeconds));
+        return c.json({
+          success: false,
+          message: 'Too many failed login attempts. Please try again later.',
+        }, 429);
+      }
+
       if (error instanceof Error) {
-        if (error.message === 'Invalid credentials' || error.message === 'Please sign in with Google') {
+        if (error.message === 'Invalid credentials' || error.message === 'Please sign in with your linked account') {
           return c.json({
             success: false,
             message: error.message,
@@ -103,11 +113,11 @@ export class AuthController {
       const validatedData = googleAuthSchema.parse(body);
 
       // Authenticate with Google
-      const result = await AuthService.googleAuth(validatedData.token);
+      const result = await AuthService.googleAuth(validatedData.token, SessionService.metaFromContext(c));
 
       return c.json({
         success: true,
-        message: 'Google authentication successful',
+        message: 'twoFactorRequired' in result ? 'Two-factor authentication required' : 'Google authentication successful',
         data: result,
       });
     } catch (error) {
@@ -131,6 +141,15 @@ export class AuthController {
             message: 'Invalid Google token',
           }, 401);
         }
+        if (
+          error.message === 'Provider email is not verified' ||
+          error.message === 'Provider account has no email address'
+        ) {
+          return c.json({
+            success: false,
+            message: error.message,
+          }, 403);
+        }
       }
 
       return c.json({
@@ -140,7 +159,7 @@ export class AuthController {
     }
   }
 
-  static async getProfile(c: Context) {
+  static async updatePassword(c: Context) {
     try {
       const userId = c.get('userId');
       
@@ -151,21 +170,64 @@ export class AuthController {
         }, 401);
       }
 
-      const user = await AuthService.getUserById(userId);
+      const body = await c.req.json();
+      
+      // Validate request body
+      const validatedData = updatePasswordSchema.parse(body);
+
+      // Use AuthService to verify current password and update
+      const updated = await AuthService.updatePasswordWithVerification(
+        userId,
+        validatedData.currentPassword,
+        validatedData.newPassword,
+        c.get('sessionId')
+      );
+
+      if (!updated) {
+        return c.json({
+          success: false,
+          message: 'Current password is incorrect',
+        }, 400);
+      }
+
+      await AuditService.recordRequest(c, {
+        action: 'auth.password.changed',
+        targetType: 'user',
+        targetId: userId,
+        metadata: { apiKeysRevoked: updated.apiKeysRevoked },
+      });
 
       return c.json({
         success: true,
-        message: 'Profile retrieved successfully',
-        data: { user },
+        message: 'Password updated successfully',
       });
     } catch (error) {
-      console.error('Get profile error:', error);
+      console.error('Update password error:', error);
       
-      if (error instanceof Error && error.message === 'User not found') {
+      if (error instanceof z.ZodError) {
         return c.json({
           success: false,
-          message: error.message,
-        }, 404);
+          message: 'Validation error',
+          errors: error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message,
+          })),
+        }, 400);
+      }
+
+      if (error instanceof Error) {
+        if (error.message === 'User not found') {
+          return c.json({
+            success: false,
+            message: error.message,
+          }, 404);
+        }
+        if (error.message === 'Cannot update password for Google account') {
+          return c.json({
+            success: false,
+            message: 'Cannot update password for Google account. Please use Google to manage your account.',
+          }, 400);
+        }
       }
 
       return c.json({
@@ -175,43 +237,182 @@ export class AuthController {
     }
   }
 
-  static async updatePassword(c: Context) {
+  static async refresh(c: Context) {
     try {
-      const userId = c.get('userId');
-      
-      if (!userId) {
+      const body = await c.req.json();
+
+      // Validate request body
+      const validatedData = refreshTokenSchema.parse(body);
+
+      const result = await AuthService.refreshSession(validatedData.refreshToken, SessionService.metaFromContext(c));
+
+      return c.json({
+        success: true,
+        message: 'Token refreshed successfully',
+        data: result,
+      });
+    } catch (error) {
+      console.error('Refresh token error:', error);
+
+      if (error instanceof z.ZodError) {
         return c.json({
           success: false,
-          message: 'Unauthorized',
-        }, 401);
+          message: 'Validation error',
+          errors: error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message,
+          })),
+        }, 400);
+      }
+
+      if (error instanceof Error) {
+        if (
+          error.message === 'Invalid refresh token' ||
+          error.message === 'Refresh token reuse detected' ||
+          error.message === 'User not found'
+        ) {
+          return c.json({
+            success: false,
+            message: error.message,
+          }, 401);
+        }
       }
 
+      return c.json({
+        success: false,
+        message: 'Internal server error',
+      }, 500);
+    }
+  }
+
+  static async logout(c: Context) {
+    try {
+      await AuthService.logout(c.get('sessionId'));
+      await AuditService.recordRequest(c, { action: 'auth.logout', targetType: 'session', targetId: c.get('sessionId') });
+
+      return c.json({
+        success: true,
+        message: 'Logout successful',
+      });
+    } catch (error) {
+      console.error('Logout error:', error);
+      return c.json({
+        success: false,
+        message: 'Internal server error',
+      }, 500);
+    }
+  }
+
+  static async logoutAll(c: Context) {
+    try {
+      await AuthService.logoutEverywhere(c.get('userId'));
+      await AuditService.recordRequest(c, { action: 'auth.logout_all' });
+
+      return c.json({
+        success: true,
+        message: 'Logged out from all devices',
+      });
+    } catch (error) {
+      console.error('Logout all error:', error);
+      return c.json({
+        success: false,
+        message: 'Internal server error',
+      }, 500);
+    }
+  }
+
+  static async forgotPassword(c: Context) {
+    try {
       const body = await c.req.json();
-      
+
       // Validate request body
-      const validatedData = updatePasswordSchema.parse(body);
+      const validatedData = forgotPasswordSchema.parse(body);
 
-      // Use AuthService to verify current password and update
-      const isUpdated = await AuthService.updatePasswordWithVerification(
-        userId,
-        validatedData.currentPassword,
-        validatedData.newPassword
-      );
+      await AuthService.requestPasswordReset(validatedData.email, SessionService.metaFromContext(c));
 
-      if (!isUpdated) {
+      // Same response whether or not the account exists
+      return c.json({
+        success: true,
+        message: 'If an account exists for this email, a reset link has been sent',
+      });
+    } catch (error) {
+      console.error('Forgot password error:', error);
+
+      if (error instanceof z.ZodError) {
         return c.json({
           success: false,
-          message: 'Current password is incorrect',
+          message: 'Validation error',
+          errors: error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message,
+          })),
         }, 400);
       }
 
+      return c.json({
+        success: false,
+        message: 'Internal server error',
+      }, 500);
+    }
+  }
+
+  static async resetPassword(c: Context) {
+    try {
+      const body = await c.req.json();
+
+      // Validate request body
+      const validatedData = resetPasswordSchema.parse(body);
+
+      await AuthService.resetPassword(validatedData.token, validatedData.newPassword, SessionService.metaFromContext(c));
+
       return c.json({
         success: true,
-        message: 'Password updated successfully',
+        message: 'Password has been reset. Please log in again.',
       });
     } catch (error) {
-      console.error('Update password error:', error);
-      
+      console.error('Reset password error:', error);
+
+      if (error instanceof z.ZodError) {
+        return c.json({
+          success: false,
+          message: 'Validation error',
+          errors: error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message,
+          })),
+        }, 400);
+      }
+
+      if (error instanceof Error && error.message === 'Invalid or expired token') {
+        return c.json({
+          success: false,
+          message: 'Invalid or expired reset token',
+        }, 400);
+      }
+
+      return c.json({
+        success: false,
+        message: 'Internal server error',
+      }, 500);
+    }
+  }
+
+  static async verifyEmail(c: Context) {
+    try {
+      const body = await c.req.json();
+
+      // Validate request body
+      const validatedData = verifyEmailSchema.parse(body);
+
+      await AuthService.verifyEmail(validatedData.token, SessionService.metaFromContext(c));
+
+      return c.json({
+        success: true,
+        message: 'Email verified successfully',
+      });
+    } catch (error) {
+      console.error('Verify email error:', error);
+
       if (error instanceof z.ZodError) {
         return c.json({
           success: false,
@@ -223,18 +424,43 @@ export class AuthController {
         }, 400);
       }
 
+      if (error instanceof Error && error.message === 'Invalid or expired token') {
+        return c.json({
+          success: false,
+          message: 'Invalid or expired verification token',
+        }, 400);
+      }
+
+      return c.json({
+        success: false,
+        message: 'Internal server error',
+      }, 500);
+    }
+  }
+
+  static async resendVerification(c: Context) {
+    try {
+      await AuthService.sendVerificationEmail(c.get('userId'));
+
+      return c.json({
+        success: true,
+        message: 'Verification email sent',
+      });
+    } catch (error) {
+      console.error('Resend verification error:', error);
+
       if (error instanceof Error) {
-        if (error.message === 'User not found') {
+        if (error.message === 'Email already verified') {
           return c.json({
             success: false,
             message: error.message,
-          }, 404);
+          }, 409);
         }
-        if (error.message === 'Cannot update password for Google account') {
+        if (error.message === 'User not found') {
           return c.json({
             success: false,
-            message: 'Cannot update password for Google account. Please use Google to manage your account.',
-          }, 400);
+            message: error.message,
+          }, 404);
         }
       }
 
@@ -245,12 +471,51 @@ export class AuthController {
     }
   }
 
-  static async logout(c: Context) {
-    // Since we're using JWT, logout is handled client-side
-    // You might want to implement a blacklist for tokens if needed
-    return c.json({
-      success: true,
-      message: 'Logout successful',
-    });
+  static async updateRole(c: Context) {
+    try {
+      const userId = uuidSchema.parse(c.req.param('id'));
+      const body = await c.req.json();
+
+      // Validate request body
+      const validatedData = updateRoleSchema.parse(body);
+
+      await AuthService.updateUserRole(userId, validatedData.role);
+      await AuditService.recordRequest(c, {
+        action: 'auth.role.changed',
+        targetType: 'user',
+        targetId: userId,
+        metadata: { role: validatedData.role },
+      });
+
+      return c.json({
+        success: true,
+        message: 'Role updated successfully',
+      });
+    } catch (error) {
+      console.error('Update role error:', error);
+
+      if (error instanceof z.ZodError) {
+        return c.json({
+          success: false,
+          message: 'Validation error',
+          errors: error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message,
+          })),
+        }, 400);
+      }
+
+      if (error instanceof Error && error.message === 'User not found') {
+        return c.json({
+          success: false,
+          message: error.message,
+        }, 404);
+      }
+
+      return c.json({
+        success: false,
+        message: 'Internal server error',
+      }, 500);
+    }
   }
-}
\ No newline at end of file
+}
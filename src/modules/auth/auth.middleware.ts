@@ -1,8 +1,39 @@
 import type { Context} from 'hono';
 import type {  Next } from 'hono';
 import { AuthService } from './auth.service.js';
+import { SessionService } from './session.service.js';
+import { ApiKeyService } from './api-key.service.js';
+import type { ApiKeyScope, UserRole } from '../../types.js';
 
+// Accepts a session access token or a personal API key (Bearer or X-API-Key)
 export const authenticateToken = async (c: Context, next: Next) => {
+  const bearer = c.req.header('Authorization')?.replace('Bearer ', '');
+  const apiKey = c.req.header('X-API-Key') ?? (bearer && ApiKeyService.isApiKey(bearer) ? bearer : undefined);
+
+  if (!apiKey) {
+    return authenticateSession(c, next);
+  }
+
+  const principal = await ApiKeyService.authenticate(apiKey);
+  if (!principal) {
+    return c.json({
+      success: false,
+      message: 'Invalid, expired or revoked API key',
+    }, 401);
+  }
+
+  c.set('userId', principal.userId);
+  c.set('userEmail', principal.email);
+  c.set('userRole', principal.role);
+  c.set('sessionId', '');
+  c.set('authMethod', 'api_key');
+  c.set('apiKeyScopes', principal.scopes);
+
+  await next();
+};
+
+// Accepts only a session access token; used for account and credential management
+export const authenticateSession = async (c: Context, next: Next) => {
   const authHeader = c.req.header('Authorization');
   const token = authHeader?.replace('Bearer ', '');
 
@@ -13,14 +44,9 @@ export const authenticateToken = async (c: Context, next: Next) => {
     }, 401);
   }
 
+  let decoded;
   try {
-    const decoded = await AuthService.verifyToken(token);
-    
-    // Set user data in context
-    c.set('userId', decoded.userId);
-    c.set('userEmail', decoded.email);
-    
-    await next();
+    decoded = await AuthService.verifyToken(token);
   } catch (error) {
     console.error('Token verification error:', error);
     return c.json({
@@ -28,6 +54,62 @@ export const authenticateToken = async (c: Context, next: Next) => {
       message: 'Invalid or expired token',
     }, 403);
   }
+
+  // Access tokens are short-lived, but a revoked session must stop working immediately
+  if (!decoded.sessionId || !(await SessionService.isActive(decoded.sessionId))) {
+    return c.json({
+      success: false,
+      message: 'Session has been revoked',
+    }, 401);
+  }
+
+  // Set user data in context
+  c.set('userId', decoded.userId);
+  c.set('userEmail', decoded.email);
+  c.set('userRole', decoded.role);
+  c.set('sessionId', decoded.sessionId);
+  c.set('authMethod', 'session');
+
+  await next();
+};
+
+// Session tokens carry every scope; API keys only those granted at creation
+export const requireScope = (scope: ApiKeyScope) => {
+  return async (c: Context, next: Next) => {
+    if (c.get('authMethod') === 'api_key') {
+      const scopes = (c.get('apiKeyScopes') as ApiKeyScope[] | undefined) ?? [];
+
+      if (!scopes.includes(scope)) {
+        return c.json({
+          success: false,
+          message: `API key is missing the ${scope} scope`,
+        }, 403);
+      }
+    }
+
+    await next();
+  };
+};
+
+// Must run after authenticateToken
+export const requireRole = (...roles: UserRole[]) => {
+  return async (c: Context, next: Next) => {
+    const role = c.get('userRole') as UserRole | undefined;
+
+    if (!role || !roles.includes(role)) {
+      return c.json({
+        success: false,
+        message: 'Insufficient permissions',
+      }, 403);
+    }
+
+    await next();
+  };
+};
+
+// Owner filter for resume lookups: admins may access any user's resumes
+export const ownerScope = (c: Context): string | undefined => {
+  return c.get('userRole') === 'admin' ? undefined : c.get('userId');
 };
 
 export const optionalAuth = async (c: Context, next: Next) => {
@@ -41,10 +123,15 @@ export const optionalAuth = async (c: Context, next: Next) => {
 
   try {
     const decoded = await AuthService.verifyToken(token);
-    
-    // Set user data in context
-    c.set('userId', decoded.userId);
-    c.set('userEmail', decoded.email);
+
+    if (decoded.sessionId && (await SessionService.isActive(decoded.sessionId))) {
+      // Set user data in context
+      c.set('userId', decoded.userId);
+      c.set('userEmail', decoded.email);
+      c.set('userRole', decoded.role);
+      c.set('sessionId', decoded.sessionId);
+      c.set('authMethod', 'session');
+    }
   } catch (error) {
     // Token is invalid but we continue anyway since auth is optional
     console.warn('Optional auth token verification failed:', error);
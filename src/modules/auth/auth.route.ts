@@ -1,17 +1,54 @@
 import { Hono } from 'hono';
 import { AuthController } from './auth.controller.js';
-import { authenticateToken } from '../auth/auth.middleware.js';
+import { TwoFactorController } from './two-factor.controller.js';
+import { OAuthController } from './oauth.controller.js';
+import { AccountController } from './account.controller.js';
+import { ApiKeyController } from './api-key.controller.js';
+import { authenticateToken, authenticateSession, requireRole, requireScope } from '../auth/auth.middleware.js';
+import { rateLimit } from '../ratelimit/ratelimit.middleware.js';
 
 const app = new Hono();
 
+const loginLimit = rateLimit({ name: 'auth-login', windowMs: 15 * 60 * 1000, limit: 20 });
+const registerLimit = rateLimit({ name: 'auth-register', windowMs: 60 * 60 * 1000, limit: 10 });
+const emailLimit = rateLimit({ name: 'auth-email', windowMs: 60 * 60 * 1000, limit: 5 });
+const exportLimit = rateLimit({ name: 'account-export', windowMs: 60 * 60 * 1000, limit: 5, keyBy: 'user' });
+
 // Public routes
-app.post('/register', AuthController.register);
-app.post('/login', AuthController.login);
-app.post('/google', AuthController.googleLogin); // ✅ NEW: Google OAuth endpoint
-app.post('/logout', AuthController.logout);
+app.post('/register', registerLimit, AuthController.register);
+app.post('/login', loginLimit, AuthController.login);
+app.post('/google', loginLimit, AuthController.googleLogin); // ✅ NEW: Google OAuth endpoint
+app.post('/refresh', AuthController.refresh);
+app.post('/forgot-password', emailLimit, AuthController.forgotPassword);
+app.post('/reset-password', AuthController.resetPassword);
+app.post('/verify-email', AuthController.verifyEmail);
+app.post('/2fa/verify', loginLimit, TwoFactorController.verify);
+app.get('/oauth/:provider/authorize', loginLimit, OAuthController.authorize);
+app.post('/oauth/:provider/callback', loginLimit, OAuthController.callback);
+
+// Protected routes (credential and account management require a session, not an API key)
+app.get('/profile', authenticateToken, requireScope('profile:read'), AccountController.getProfile);
+app.put('/profile', authenticateSession, AccountController.updateProfile);
+app.get('/export', authenticateSession, exportLimit, AccountController.exportData);
+app.delete('/account', authenticateSession, AccountController.deleteAccount);
+app.put('/password', authenticateSession, AuthController.updatePassword);
+app.post('/logout', authenticateSession, AuthController.logout);
+app.post('/logout-all', authenticateSession, AuthController.logoutAll);
+app.post('/verify-email/resend', authenticateSession, emailLimit, AuthController.resendVerification);
+app.get('/2fa', authenticateSession, TwoFactorController.status);
+app.post('/2fa/setup', authenticateSession, TwoFactorController.setup);
+app.post('/2fa/confirm', authenticateSession, TwoFactorController.confirm);
+app.post('/2fa/disable', authenticateSession, TwoFactorController.disable);
+app.post('/oauth/:provider/link', authenticateSession, OAuthController.link);
+// Link flows finish here rather than on the public callback, so the state can be checked against the caller
+app.post('/oauth/:provider/link/callback', authenticateSession, loginLimit, OAuthController.callback);
+app.get('/identities', authenticateSession, OAuthController.listIdentities);
+app.delete('/identities/:provider', authenticateSession, OAuthController.unlink);
+app.post('/api-keys', authenticateSession, ApiKeyController.create);
+app.get('/api-keys', authenticateSession, ApiKeyController.list);
+app.delete('/api-keys/:id', authenticateSession, ApiKeyController.revoke);
 
-// Protected routes
-app.get('/profile', authenticateToken, AuthController.getProfile);
-app.put('/password', authenticateToken, AuthController.updatePassword);
+// Admin routes
+app.put('/users/:id/role', authenticateSession, requireRole('admin'), AuthController.updateRole);
 
 export default app;
\ No newline at end of file
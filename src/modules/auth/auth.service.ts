@@ -1,13 +1,33 @@
 import bcrypt from 'bcrypt';
 import { sign, verify } from 'hono/jwt';
-import { eq } from 'drizzle-orm';
+import { and, eq, isNull, sql } from 'drizzle-orm';
 import { db } from '../../db/db.js'; // Adjust path as needed
 import { users } from '../../db/schema.js'; // Adjust path as needed
-import type { AuthResponse } from '../../types.js';
+import type {
+  AuthResponse,
+  ExternalProfile,
+  IdentityProvider,
+  JwtPayload,
+  LoginResult,
+  TwoFactorChallenge,
+  UserPublic,
+  UserRole,
+} from '../../types.js';
+import { SessionService } from './session.service.js';
+import { ApiKeyService } from './api-key.service.js';
+import type { SessionMeta } from './session.service.js';
+import { AuthTokenService } from './auth-token.service.js';
+import { TwoFactorService } from './two-factor.service.js';
+import { GoogleIdTokenVerifier } from './google-token.verifier.js';
+import { IdentityService } from './identity.service.js';
+import { AuditService } from '../audit/audit.service.js';
+import { getMailer } from '../mail/mailer.js';
+import { passwordResetEmail, verificationEmail } from '../mail/templates.js';
 
 interface CreateUserData {
   email: string;
   password: string;
+  role?: UserRole;
 }
 
 interface LoginData {
@@ -22,9 +42,21 @@ interface GoogleUserData {
   picture?: string;
 }
 
+export class AccountLockedError extends Error {
+  constructor(public readonly retryAfterSeconds: number) {
+    super('Account temporarily locked');
+    this.name = 'AccountLockedError';
+  }
+}
+
 export class AuthService {
   private static readonly SALT_ROUNDS = 12;
   private static readonly JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
+  private static readonly ACCESS_TOKEN_TTL_SECONDS = 60 * 15; // 15 minutes
+  private static readonly TWO_FACTOR_CHALLENGE_TTL_SECONDS = 60 * 5; // 5 minutes
+  private static readonly LOCKOUT_THRESHOLD = 5; // failed attempts before the first lockout
+  private static readonly LOCKOUT_BASE_SECONDS = 60;
+  private static readonly LOCKOUT_MAX_SECONDS = 60 * 60;
 
   static async hashPassword(password: string): Promise<string> {
     return bcrypt.hash(password, this.SALT_ROUNDS);
@@ -34,122 +66,204 @@ export class AuthService {
     return bcrypt.compare(password, hash);
   }
 
-  static async generateToken(userId: string, email: string): Promise<string> {
+  static async generateToken(userId: string, email: string, role: UserRole, sessionId: string): Promise<string> {
     const payload = {
       userId,
       email,
-      exp: Math.floor(Date.now() / 1000) + 60 * 60 * 24 * 7, // 7 days
+      role,
+      sid: sessionId,
+      exp: Math.floor(Date.now() / 1000) + this.ACCESS_TOKEN_TTL_SECONDS,
     };
     return await sign(payload, this.JWT_SECRET);
   }
 
-  static async verifyToken(token: string): Promise<{ userId: string; email: string }> {
+  static async verifyToken(token: string): Promise<JwtPayload> {
     try {
       const payload = await verify(token, this.JWT_SECRET);
-      return { userId: payload.userId as string, email: payload.email as string };
+
+      // Purpose-bound tokens (e.g. 2FA challenges) are not access tokens
+      if (payload.purpose) {
+        throw new Error('Invalid token purpose');
+      }
+
+      return {
+        userId: payload.userId as string,
+        email: payload.email as string,
+        role: (payload.role as UserRole) ?? 'candidate',
+        sessionId: payload.sid as string,
+      };
     } catch (error) {
       throw new Error('Invalid token');
     }
   }
 
-  // ✅ NEW: Verify Google token with Google's API
-  static async verifyGoogleToken(token: string): Promise<GoogleUserData> {
-    try {
-      const response = await fetch(`https://oauth2.googleapis.com/tokeninfo?id_token=${token}`);
-      
-      if (!response.ok) {
-        throw new Error('Invalid Google token');
-      }
+  // Start a new session (refresh token family) and sign its first access token
+  private static async issueAuthResponse(user: UserPublic, meta?: SessionMeta): Promise<AuthResponse> {
+    const { session, refreshToken } = await SessionService.createSession(user.id, meta);
+    const token = await this.generateToken(user.id, user.email, user.role, session.id);
+
+    return {
+      user,
+      token,
+      refreshToken,
+      expiresIn: this.ACCESS_TOKEN_TTL_SECONDS,
+    };
+  }
 
-      const payload = await response.json();
+  static async refreshSession(refreshToken: string, meta?: SessionMeta): Promise<AuthResponse> {
+    const { session, refreshToken: nextRefreshToken } = await SessionService.rotate(refreshToken, meta);
 
-      // Verify the token is for our app
-      if (payload.aud !== process.env.GOOGLE_CLIENT_ID) {
-        throw new Error('Invalid Google token audience');
-      }
+    const user = await this.getUserById(session.userId);
+    const token = await this.generateToken(user.id, user.email, user.role, session.id);
+
+    return {
+      user,
+      token,
+      refreshToken: nextRefreshToken,
+      expiresIn: this.ACCESS_TOKEN_TTL_SECONDS,
+    };
+  }
+
+  static async logout(sessionId: string): Promise<void> {
+    await SessionService.revokeSession(sessionId);
+  }
+
+  static async logoutEverywhere(userId: string): Promise<void> {
+    await SessionService.revokeAllForUser(userId);
+  }
+
+  private static googleVerifier: GoogleIdTokenVerifier | null = null;
+
+  // Swap the verifier (e.g. one backed by a StaticKeySource with local test keys)
+  static setGoogleTokenVerifier(verifier: GoogleIdTokenVerifier | null): void {
+    this.googleVerifier = verifier;
+  }
+
+  private static getGoogleTokenVerifier(): GoogleIdTokenVerifier {
+    if (!this.googleVerifier) {
+      this.googleVerifier = new GoogleIdTokenVerifier({
+        // Comma-separated so web and mobile client IDs can share the backend
+        clientIds: (process.env.GOOGLE_CLIENT_ID || '').split(',').map((id) => id.trim()).filter(Boolean),
+      });
+    }
+    return this.googleVerifier;
+  }
+
+  // Verify the Google ID token locally against Google's cached signing keys
+  static async verifyGoogleToken(token: string): Promise<GoogleUserData> {
+    try {
+      const payload = await this.getGoogleTokenVerifier().verify(token);
 
       return {
         id: payload.sub,
         email: payload.email,
-        name: payload.name,
+        name: payload.name ?? payload.email,
         picture: payload.picture,
       };
     } catch (error) {
       console.error('Google token verification error:', error);
+      // A valid token for an unverified address is refused, not rejected as invalid
+      if (error instanceof Error && error.message === 'Invalid Google token: email not verified') {
+        throw new Error('Provider email is not verified');
+      }
       throw new Error('Failed to verify Google token');
     }
   }
 
   // ✅ NEW: Handle Google OAuth login/registration
-  static async googleAuth(googleToken: string): Promise<AuthResponse> {
+  static async googleAuth(googleToken: string, meta?: SessionMeta): Promise<LoginResult> {
     // Verify Google token
     const googleUser = await this.verifyGoogleToken(googleToken);
 
-    // Check if user exists by email or googleId
-    const existingUser = await db
-      .select()
-      .from(users)
-      .where(eq(users.email, googleUser.email))
-      .limit(1);
+    return this.signInWithIdentity(
+      'google',
+      { subject: googleUser.id, email: googleUser.email, emailVerified: true, name: googleUser.name },
+      meta
+    );
+  }
 
-    let user;
+  /**
+   * Sign in through an external identity. Unknown identities are linked to an
+   * existing account with the same email only when the provider has verified
+   * that email; otherwise a new account is created. Accounts with 2FA get a
+   * challenge, exactly as with a password login.
+   */
+  static async signInWithIdentity(
+    provider: IdentityProvider,
+    profile: ExternalProfile,
+    meta?: SessionMeta
+  ): Promise<LoginResult> {
+    let userId = await IdentityService.findUserId(provider, profile.subject);
+
+    if (!userId) {
+      if (!profile.email) {
+        throw new Error('Provider account has no email address');
+      }
 
-    if (existingUser.length > 0) {
-      // User exists - link Google account if not already linked
-      const currentUser = existingUser[0];
-      
-      if (!currentUser.googleId) {
-        // Link Google account to existing user
+      const existingUser = await db
+        .select()
+        .from(users)
+        .where(eq(users.email, profile.email))
+        .limit(1);
+
+      if (existingUser[0]) {
+        // Linking on an unverified email would let anyone take over the account
+        if (!profile.emailVerified) {
+          throw new Error('Provider email is not verified');
+        }
+
+        const currentUser = existingUser[0];
+        await IdentityService.link(currentUser.id, provider, profile);
+        await AuditService.record({
+          actorUserId: currentUser.id,
+          action: 'auth.identity.linked',
+          targetType: 'identity',
+          targetId: `${provider}:${profile.subject}`,
+          metadata: { provider, via: 'email_match' },
+          ...meta,
+        });
         await db
           .update(users)
-          .set({ 
-            googleId: googleUser.id,
-            name: currentUser.name || googleUser.name // Keep existing name if present
+          .set({
+            name: currentUser.name || profile.name, // Keep existing name if present
+            emailVerifiedAt: currentUser.emailVerifiedAt ?? new Date(),
           })
           .where(eq(users.id, currentUser.id));
-      }
 
-      user = {
-        id: currentUser.id,
-        email: currentUser.email,
-        name: currentUser.name || googleUser.name,
-        createdAt: currentUser.createdAt,
-      };
-    } else {
-      // Create new user with Google data
-      const newUser = await db
-        .insert(users)
-        .values({
-          email: googleUser.email,
-          googleId: googleUser.id,
-          name: googleUser.name,
-          passwordHash: null, // No password for Google users
-        })
-        .returning({
-          id: users.id,
-          email: users.email,
-          name: users.name,
-          createdAt: users.createdAt,
-        });
+        userId = currentUser.id;
+      } else {
+        const newUser = await db
+          .insert(users)
+          .values({
+            email: profile.email,
+            name: profile.name,
+            passwordHash: null, // No password for provider-only users
+            emailVerifiedAt: profile.emailVerified ? new Date() : null,
+          })
+          .returning({ id: users.id });
 
-      if (!newUser[0]) {
-        throw new Error('Failed to create user');
-      }
+        if (!newUser[0]) {
+          throw new Error('Failed to create user');
+        }
 
-      user = newUser[0];
+        await IdentityService.link(newUser[0].id, provider, profile);
+        userId = newUser[0].id;
+        await AuditService.record({ actorUserId: userId, action: 'auth.register', metadata: { method: provider }, ...meta });
+      }
     }
 
-    // Generate JWT token
-    const token = await this.generateToken(user.id, user.email);
+    // The provider stands in for the password only; the second factor is still required
+    if (await TwoFactorService.isEnabled(userId)) {
+      return this.createTwoFactorChallenge(userId, provider);
+    }
 
-    return {
-      user,
-      token,
-    };
+    const user = await this.getUserById(userId);
+    await AuditService.record({ actorUserId: user.id, action: 'auth.login.success', metadata: { method: provider }, ...meta });
+    return this.issueAuthResponse(user, meta);
   }
 
-  static async createUser(userData: CreateUserData): Promise<AuthResponse> {
-    const { email, password } = userData;
+  static async createUser(userData: CreateUserData, meta?: SessionMeta): Promise<AuthResponse> {
+    const { email, password, role = 'candidate' } = userData;
 
     // Check if user already exists
     const existingUser = await db
@@ -171,11 +285,13 @@ export class AuthService {
       .values({
         email,
         passwordHash,
+        role,
       })
       .returning({
         id: users.id,
         email: users.email,
         name: users.name,
+        role: users.role,
         createdAt: users.createdAt,
       });
 
@@ -183,16 +299,17 @@ export class AuthService {
       throw new Error('Failed to create user');
     }
 
-    // Generate token
-    const token = await this.generateToken(newUser[0].id, newUser[0].email);
+    await AuditService.record({ actorUserId: newUser[0].id, action: 'auth.register', metadata: { method: 'password' }, ...meta });
 
-    return {
-      user: newUser[0],
-      token,
-    };
+    // A mail outage should not block sign-up; the user can request a new link
+    await this.sendVerificationEmail(newUser[0].id).catch((error) => {
+      console.error('Failed to send verification email:', error);
+    });
+
+    return this.issueAuthResponse(newUser[0], meta);
   }
 
-  static async loginUser(loginData: LoginData): Promise<AuthResponse> {
+  static async loginUser(loginData: LoginData, meta?: SessionMeta): Promise<LoginResult> {
     const { email, password } = loginData;
 
     // Find user
@@ -203,40 +320,207 @@ export class AuthService {
       .limit(1);
 
     if (!user[0]) {
+      await AuditService.record({ action: 'auth.login.failed', metadata: { email, reason: 'unknown_email' }, ...meta });
       throw new Error('Invalid credentials');
     }
 
-    // Check if user has a password (not Google-only user)
+    // Refuse while locked, without even checking the password
+    if (user[0].lockedUntil && user[0].lockedUntil.getTime() > Date.now()) {
+      await AuditService.record({
+        action: 'auth.login.failed',
+        targetType: 'user',
+        targetId: user[0].id,
+        metadata: { email, reason: 'locked' },
+        ...meta,
+      });
+      throw new AccountLockedError(Math.ceil((user[0].lockedUntil.getTime() - Date.now()) / 1000));
+    }
+
+    // Check if user has a password (not a provider-only user)
     if (!user[0].passwordHash) {
-      throw new Error('Please sign in with Google');
+      throw new Error('Please sign in with your linked account');
     }
 
     // Check password
     const isPasswordValid = await this.comparePassword(password, user[0].passwordHash);
     if (!isPasswordValid) {
+      await this.recordFailedLogin(user[0].id);
+      await AuditService.record({
+        action: 'auth.login.failed',
+        targetType: 'user',
+        targetId: user[0].id,
+        metadata: { email, reason: 'invalid_password' },
+        ...meta,
+      });
       throw new Error('Invalid credentials');
     }
 
-    // Generate token
-    const token = await this.generateToken(user[0].id, user[0].email);
+    // The password alone is not enough; lockout counters reset only after the second factor
+    if (user[0].totpEnabledAt) {
+      return this.createTwoFactorChallenge(user[0].id);
+    }
 
-    return {
-      user: {
+    await this.clearFailedLogins(user[0]);
+    await AuditService.record({ actorUserId: user[0].id, action: 'auth.login.success', metadata: { method: 'password' }, ...meta });
+
+    return this.issueAuthResponse(
+      {
         id: user[0].id,
         email: user[0].email,
         name: user[0].name,
+        role: user[0].role,
         createdAt: user[0].createdAt,
       },
-      token,
+      meta
+    );
+  }
+
+  private static async clearFailedLogins(user: { id: string; failedLoginAttempts: number; lockedUntil: Date | null }) {
+    if (user.failedLoginAttempts > 0 || user.lockedUntil) {
+      await db
+        .update(users)
+        .set({ failedLoginAttempts: 0, lockedUntil: null })
+        .where(eq(users.id, user.id));
+    }
+  }
+
+  // `method` is the first factor, recorded with the login once the second one succeeds
+  private static async createTwoFactorChallenge(
+    userId: string,
+    method: 'password' | IdentityProvider = 'password'
+  ): Promise<TwoFactorChallenge> {
+    const challengeToken = await sign(
+      {
+        userId,
+        method,
+        purpose: '2fa',
+        exp: Math.floor(Date.now() / 1000) + this.TWO_FACTOR_CHALLENGE_TTL_SECONDS,
+      },
+      this.JWT_SECRET
+    );
+
+    return {
+      twoFactorRequired: true,
+      challengeToken,
+      expiresIn: this.TWO_FACTOR_CHALLENGE_TTL_SECONDS,
     };
   }
 
+  /**
+   * Second login step: exchange a challenge token plus a TOTP or recovery code
+   * for a session. Wrong codes count towards the account lockout.
+   */
+  static async completeTwoFactorLogin(
+    challengeToken: string,
+    proof: { code?: string; recoveryCode?: string },
+    meta?: SessionMeta
+  ): Promise<AuthResponse> {
+    let userId: string;
+    let method: string;
+    try {
+      const payload = await verify(challengeToken, this.JWT_SECRET);
+      if (payload.purpose !== '2fa') throw new Error('Invalid token purpose');
+      userId = payload.userId as string;
+      method = (payload.method as string | undefined) ?? 'password';
+    } catch (error) {
+      throw new Error('Invalid or expired challenge');
+    }
+
+    const user = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+    if (!user[0] || !user[0].totpEnabledAt) {
+      throw new Error('Invalid or expired challenge');
+    }
+
+    if (user[0].lockedUntil && user[0].lockedUntil.getTime() > Date.now()) {
+      throw new AccountLockedError(Math.ceil((user[0].lockedUntil.getTime() - Date.now()) / 1000));
+    }
+
+    const verified = proof.code
+      ? await TwoFactorService.verifyLoginCode(userId, proof.code)
+      : proof.recoveryCode
+        ? await TwoFactorService.useRecoveryCode(userId, proof.recoveryCode)
+        : false;
+
+    if (!verified) {
+      await this.recordFailedLogin(userId);
+      await AuditService.record({
+        action: 'auth.login.failed',
+        targetType: 'user',
+        targetId: userId,
+        metadata: { reason: 'invalid_second_factor' },
+        ...meta,
+      });
+      throw new Error('Invalid two-factor code');
+    }
+
+    await this.clearFailedLogins(user[0]);
+    await AuditService.record({
+      actorUserId: userId,
+      action: 'auth.login.success',
+      metadata: { method, secondFactor: proof.code ? 'totp' : 'recovery_code' },
+      ...meta,
+    });
+
+    return this.issueAuthResponse(
+      {
+        id: user[0].id,
+        email: user[0].email,
+        name: user[0].name,
+        role: user[0].role,
+        createdAt: user[0].createdAt,
+      },
+      meta
+    );
+  }
+
+  static async disableTwoFactor(userId: string, password: string): Promise<void> {
+    const user = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+
+    if (!user[0]) {
+      throw new Error('User not found');
+    }
+    if (!user[0].totpEnabledAt) {
+      throw new Error('Two-factor authentication is not enabled');
+    }
+    if (!user[0].passwordHash || !(await this.comparePassword(password, user[0].passwordHash))) {
+      throw new Error('Current password is incorrect');
+    }
+
+    await TwoFactorService.disable(userId);
+  }
+
+  /**
+   * Count a failed password attempt. From the LOCKOUT_THRESHOLD-th failure on,
+   * the account is locked for a period that doubles with every further failure.
+   */
+  private static async recordFailedLogin(userId: string): Promise<void> {
+    const [updated] = await db
+      .update(users)
+      .set({ failedLoginAttempts: sql`${users.failedLoginAttempts} + 1` })
+      .where(eq(users.id, userId))
+      .returning({ attempts: users.failedLoginAttempts });
+
+    if (!updated || updated.attempts < this.LOCKOUT_THRESHOLD) return;
+
+    const lockSeconds = Math.min(
+      this.LOCKOUT_BASE_SECONDS * 2 ** (updated.attempts - this.LOCKOUT_THRESHOLD),
+      this.LOCKOUT_MAX_SECONDS
+    );
+
+    await db
+      .update(users)
+      .set({ lockedUntil: new Date(Date.now() + lockSeconds * 1000) })
+      .where(eq(users.id, userId));
+  }
+
   static async getUserById(userId: string) {
     const user = await db
       .select({
         id: users.id,
         email: users.email,
         name: users.name,
+        emailVerifiedAt: users.emailVerifiedAt,
+        role: users.role,
         createdAt: users.createdAt,
       })
       .from(users)
@@ -262,8 +546,9 @@ export class AuthService {
   static async updatePasswordWithVerification(
     userId: string,
     currentPassword: string,
-    newPassword: string
-  ): Promise<boolean> {
+    newPassword: string,
+    currentSessionId?: string
+  ): Promise<{ apiKeysRevoked: number } | null> {
     // Get user with password hash
     const userWithPassword = await db
       .select()
@@ -287,11 +572,85 @@ export class AuthService {
     );
 
     if (!isCurrentPasswordValid) {
-      return false; // Current password is incorrect
+      return null; // Current password is incorrect
     }
 
-    // Update password
+    // Update password and sign out every other device. Keys made by whoever
+    // knew the old password would otherwise outlive it
+    await this.updatePassword(userId, newPassword);
+    await SessionService.revokeAllForUser(userId, currentSessionId);
+    return { apiKeysRevoked: await ApiKeyService.revokeAllForUser(userId) };
+  }
+
+  static async requestPasswordReset(email: string, meta?: SessionMeta): Promise<void> {
+    const user = await db
+      .select({ id: users.id, email: users.email })
+      .from(users)
+      .where(eq(users.email, email))
+      .limit(1);
+
+    // Unknown emails are silently ignored so the endpoint cannot be used to enumerate accounts
+    if (!user[0]) return;
+
+    const token = await AuthTokenService.issue(user[0].id, 'password_reset');
+    await AuditService.record({ actorUserId: user[0].id, action: 'auth.password.reset_requested', ...meta });
+    // An error here would answer differently for existing accounts, so a failed send is only logged
+    await getMailer()
+      .send(passwordResetEmail(user[0].email, token))
+      .catch((error) => console.error('Password reset email failed:', error));
+  }
+
+  static async resetPassword(token: string, newPassword: string, meta?: SessionMeta): Promise<void> {
+    const userId = await AuthTokenService.consume(token, 'password_reset');
+
     await this.updatePassword(userId, newPassword);
-    return true;
+
+    // Receiving the reset link proves ownership of the address
+    await db
+      .update(users)
+      .set({ emailVerifiedAt: new Date() })
+      .where(and(eq(users.id, userId), isNull(users.emailVerifiedAt)));
+
+    // A reset means the account may be in someone else's hands, so API keys go too
+    await SessionService.revokeAllForUser(userId);
+    const apiKeysRevoked = await ApiKeyService.revokeAllForUser(userId);
+    await AuditService.record({ actorUserId: userId, action: 'auth.password.reset', metadata: { apiKeysRevoked }, ...meta });
+  }
+
+  static async sendVerificationEmail(userId: string): Promise<void> {
+    const user = await this.getUserById(userId);
+
+    if (user.emailVerifiedAt) {
+      throw new Error('Email already verified');
+    }
+
+    const token = await AuthTokenService.issue(user.id, 'email_verification');
+    await getMailer().send(verificationEmail(user.email, token));
+  }
+
+  static async verifyEmail(token: string, meta?: SessionMeta): Promise<void> {
+    const userId = await AuthTokenService.consume(token, 'email_verification');
+
+    await db
+      .update(users)
+      .set({ emailVerifiedAt: new Date() })
+      .where(eq(users.id, userId));
+
+    await AuditService.record({ actorUserId: userId, action: 'auth.email.verified', ...meta });
+  }
+
+  static async updateUserRole(userId: string, role: UserRole): Promise<void> {
+    const updated = await db
+      .update(users)
+      .set({ role })
+      .where(eq(users.id, userId))
+      .returning({ id: users.id });
+
+    if (!updated[0]) {
+      throw new Error('User not found');
+    }
+
+    // Access tokens carry the role, so force a fresh login to apply the change
+    await SessionService.revokeAllForUser(userId);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,186 @@
+import crypto from 'node:crypto';
+import type { KeyObject, JsonWebKey } from 'node:crypto';
+
+const GOOGLE_JWKS_URL = 'https://www.googleapis.com/oauth2/v3/certs';
+const GOOGLE_ISSUERS = ['accounts.google.com', 'https://accounts.google.com'];
+
+export interface GoogleIdTokenPayload {
+  sub: string;
+  email: string;
+  email_verified: boolean;
+  name?: string;
+  picture?: string;
+  aud: string;
+  iss: string;
+  exp: number;
+  iat: number;
+}
+
+// Resolves the public key for a JWT `kid`; null when the kid is unknown
+export interface KeySource {
+  getKey(kid: string): Promise<KeyObject | null>;
+}
+
+/**
+ * Google's published JWKS, cached for the max-age Google sends. An unknown
+ * kid triggers a refetch (Google rotates keys) but no more than once per
+ * MIN_REFETCH_MS so forged kids cannot be used to hammer the endpoint.
+ */
+export class RemoteJwksKeySource implements KeySource {
+  private static readonly DEFAULT_TTL_MS = 60 * 60 * 1000;
+  private static readonly MIN_REFETCH_MS = 60 * 1000;
+
+  private keys = new Map<string, KeyObject>();
+  private expiresAt = 0;
+  private lastFetchAt = 0;
+  private inflight: Promise<void> | null = null;
+
+  constructor(
+    private readonly url: string = GOOGLE_JWKS_URL,
+    private readonly fetchImpl: typeof fetch = fetch
+  ) {}
+
+  async getKey(kid: string): Promise<KeyObject | null> {
+    const now = Date.now();
+
+    if (now >= this.expiresAt) {
+      await this.refresh();
+    } else if (!this.keys.has(kid) && now - this.lastFetchAt >= RemoteJwksKeySource.MIN_REFETCH_MS) {
+      await this.refresh();
+    }
+
+    return this.keys.get(kid) ?? null;
+  }
+
+  private async refresh(): Promise<void> {
+    // Share a single request between concurrent sign-ins
+    if (!this.inflight) {
+      this.inflight = this.fetchKeys().finally(() => {
+        this.inflight = null;
+      });
+    }
+    await this.inflight;
+  }
+
+  private async fetchKeys(): Promise<void> {
+    this.lastFetchAt = Date.now();
+
+    const response = await this.fetchImpl(this.url);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch Google JWKS: ${response.status}`);
+    }
+
+    const body = (await response.json()) as { keys?: (JsonWebKey & { kid?: string })[] };
+    const keys = new Map<string, KeyObject>();
+
+    for (const jwk of body.keys ?? []) {
+      if (!jwk.kid || jwk.kty !== 'RSA') continue;
+      keys.set(jwk.kid, crypto.createPublicKey({ key: jwk, format: 'jwk' }));
+    }
+
+    const maxAge = /max-age=(\d+)/.exec(response.headers.get('cache-control') ?? '')?.[1];
+    this.keys = keys;
+    this.expiresAt = Date.now() + (maxAge ? Number(maxAge) * 1000 : RemoteJwksKeySource.DEFAULT_TTL_MS);
+  }
+}
+
+// Fixed key set, e.g. locally generated test keys
+export class StaticKeySource implements KeySource {
+  private readonly keys: Map<string, KeyObject>;
+
+  constructor(keys: Record<string, KeyObject | JsonWebKey>) {
+    this.keys = new Map(
+      Object.entries(keys).map(([kid, key]) => [
+        kid,
+        key instanceof crypto.KeyObject ? key : crypto.createPublicKey({ key, format: 'jwk' }),
+      ])
+    );
+  }
+
+  async getKey(kid: string): Promise<KeyObject | null> {
+    return this.keys.get(kid) ?? null;
+  }
+}
+
+export interface GoogleIdTokenVerifierOptions {
+  clientIds: string[];
+  keySource?: KeySource;
+  clockToleranceSeconds?: number;
+  now?: () => number;
+}
+
+export class GoogleIdTokenVerifier {
+  private readonly keySource: KeySource;
+  private readonly clockTolerance: number;
+  private readonly now: () => number;
+
+  constructor(private readonly options: GoogleIdTokenVerifierOptions) {
+    this.keySource = options.keySource ?? new RemoteJwksKeySource();
+    this.clockTolerance = options.clockToleranceSeconds ?? 60;
+    this.now = options.now ?? Date.now;
+  }
+
+  private static decodeSegment<T>(segment: string): T {
+    try {
+      return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as T;
+    } catch {
+      throw new Error('Invalid Google token: malformed segment');
+    }
+  }
+
+  async verify(idToken: string): Promise<GoogleIdTokenPayload> {
+    const segments = idToken.split('.');
+    if (segments.length !== 3) {
+      throw new Error('Invalid Google token: malformed token');
+    }
+    const [headerSegment, payloadSegment, signatureSegment] = segments as [string, string, string];
+
+    const header = GoogleIdTokenVerifier.decodeSegment<{ alg?: string; kid?: string }>(headerSegment);
+    if (header.alg !== 'RS256') {
+      throw new Error('Invalid Google token: unsupported algorithm');
+    }
+    if (!header.kid) {
+      throw new Error('Invalid Google token: missing key id');
+    }
+
+    const key = await this.keySource.getKey(header.kid);
+    if (!key) {
+      throw new Error('Invalid Google token: unknown signing key');
+    }
+
+    const signatureValid = crypto.verify(
+      'RSA-SHA256',
+      Buffer.from(`${headerSegment}.${payloadSegment}`),
+      key,
+      Buffer.from(signatureSegment, 'base64url')
+    );
+    if (!signatureValid) {
+      throw new Error('Invalid Google token: bad signature');
+    }
+
+    const payload = GoogleIdTokenVerifier.decodeSegment<GoogleIdTokenPayload>(payloadSegment);
+    const nowSeconds = Math.floor(this.now() / 1000);
+
+    if (!GOOGLE_ISSUERS.includes(payload.iss)) {
+      throw new Error('Invalid Google token issuer');
+    }
+    if (!this.options.clientIds.includes(payload.aud)) {
+      throw new Error('Invalid Google token audience');
+    }
+    if (typeof payload.exp !== 'number' || payload.exp + this.clockTolerance < nowSeconds) {
+      throw new Error('Invalid Google token: expired');
+    }
+    if (typeof payload.iat === 'number' && payload.iat - this.clockTolerance > nowSeconds) {
+      throw new Error('Invalid Google token: issued in the future');
+    }
+    // Google sends this as a boolean, but older tokens used the string "true"
+    if (payload.email_verified !== true && (payload.email_verified as unknown) !== 'true') {
+      throw new Error('Invalid Google token: email not verified');
+    }
+    if (!payload.sub || !payload.email) {
+      throw new Error('Invalid Google token: missing subject or email');
+    }
+
+    return { ...payload, email_verified: true };
+  }
+}
@@ -0,0 +1,70 @@
+import { and, eq } from 'drizzle-orm';
+import { db } from '../../db/db.js';
+import { identities, users } from '../../db/schema.js';
+import type { Identity } from '../../db/schema.js';
+import type { ExternalProfile, IdentityProvider } from '../../types.js';
+
+export class IdentityService {
+  static async findUserId(provider: IdentityProvider, subject: string): Promise<string | null> {
+    const identity = await db.query.identities.findFirst({
+      where: and(eq(identities.provider, provider), eq(identities.subject, subject)),
+      columns: { userId: true },
+    });
+    return identity?.userId ?? null;
+  }
+
+  static async listForUser(userId: string): Promise<Pick<Identity, 'provider' | 'email' | 'createdAt'>[]> {
+    return db
+      .select({ provider: identities.provider, email: identities.email, createdAt: identities.createdAt })
+      .from(identities)
+      .where(eq(identities.userId, userId));
+  }
+
+  static async link(userId: string, provider: IdentityProvider, profile: ExternalProfile): Promise<void> {
+    const ownerId = await this.findUserId(provider, profile.subject);
+
+    if (ownerId && ownerId !== userId) {
+      throw new Error('This account is already linked to another user');
+    }
+    if (ownerId === userId) return;
+
+    const existing = await db.query.identities.findFirst({
+      where: and(eq(identities.userId, userId), eq(identities.provider, provider)),
+      columns: { id: true },
+    });
+    if (existing) {
+      throw new Error('An account from this provider is already linked');
+    }
+
+    await db.insert(identities).values({
+      userId,
+      provider,
+      subject: profile.subject,
+      email: profile.email,
+    });
+  }
+
+  static async unlink(userId: string, provider: IdentityProvider): Promise<void> {
+    const user = await db.query.users.findFirst({
+      where: eq(users.id, userId),
+      columns: { passwordHash: true },
+    });
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const linked = await this.listForUser(userId);
+    if (!linked.some((identity) => identity.provider === provider)) {
+      throw new Error('Identity not found');
+    }
+
+    // Never leave an account without any way to sign in
+    if (!user.passwordHash && linked.length <= 1) {
+      throw new Error('Cannot unlink the only sign-in method');
+    }
+
+    await db
+      .delete(identities)
+      .where(and(eq(identities.userId, userId), eq(identities.provider, provider)));
+  }
+}
@@ -0,0 +1,184 @@
+import type { Context } from 'hono';
+import { z } from 'zod';
+import { OAuthService } from './oauth.service.js';
+import { IdentityService } from './identity.service.js';
+import { SessionService } from './session.service.js';
+import { isOAuthProvider } from './oauth.providers.js';
+import { AuditService } from '../audit/audit.service.js';
+import { oauthCallbackSchema, identityProviderSchema } from '../../validator.js';
+
+const unknownProvider = (c: Context) =>
+  c.json({ success: false, message: 'Unsupported OAuth provider' }, 404);
+
+export class OAuthController {
+  static async authorize(c: Context) {
+    const provider = c.req.param('provider');
+    if (!isOAuthProvider(provider)) return unknownProvider(c);
+
+    try {
+      const result = await OAuthService.createAuthorization(provider);
+
+      return c.json({
+        success: true,
+        message: 'Redirect the user to the authorization URL',
+        data: result,
+      });
+    } catch (error) {
+      console.error('OAuth authorize error:', error);
+
+      if (error instanceof Error && error.message === 'OAuth provider is not configured') {
+        return c.json({ success: false, message: error.message }, 503);
+      }
+
+      return c.json({ success: false, message: 'Internal server error' }, 500);
+    }
+  }
+
+  static async link(c: Context) {
+    const provider = c.req.param('provider');
+    if (!isOAuthProvider(provider)) return unknownProvider(c);
+
+    try {
+      const result = await OAuthService.createAuthorization(provider, c.get('userId'));
+
+      return c.json({
+        success: true,
+        message: 'Redirect the user to the authorization URL',
+        data: result,
+      });
+    } catch (error) {
+      console.error('OAuth link error:', error);
+
+      if (error instanceof Error && error.message === 'OAuth provider is not configured') {
+        return c.json({ success: false, message: error.message }, 503);
+      }
+
+      return c.json({ success: false, message: 'Internal server error' }, 500);
+    }
+  }
+
+  static async callback(c: Context) {
+    const provider = c.req.param('provider');
+    if (!isOAuthProvider(provider)) return unknownProvider(c);
+
+    try {
+      const body = await c.req.json();
+
+      // Validate request body
+      const validatedData = oauthCallbackSchema.parse(body);
+
+      const result = await OAuthService.handleCallback(
+        provider,
+        validatedData.code,
+        validatedData.state,
+        SessionService.metaFromContext(c),
+        // Set only on the link callback, which requires a session
+        c.get('userId')
+      );
+
+      if (result.type === 'linked') {
+        return c.json({
+          success: true,
+          message: `${provider} account linked successfully`,
+          data: { provider: result.provider },
+        });
+      }
+
+      return c.json({
+        success: true,
+        message: 'twoFactorRequired' in result.auth ? 'Two-factor authentication required' : `${provider} authentication successful`,
+        data: result.auth,
+      });
+    } catch (error) {
+      console.error('OAuth callback error:', error);
+
+      if (error instanceof z.ZodError) {
+        return c.json({
+          success: false,
+          message: 'Validation error',
+          errors: error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message,
+          })),
+        }, 400);
+      }
+
+      if (error instanceof Error) {
+        if (
+          error.message === 'Invalid or expired OAuth state' ||
+          error.message === 'OAuth code exchange failed'
+        ) {
+          return c.json({ success: false, message: error.message }, 401);
+        }
+        // The provider authenticated the user, but the account cannot be used to sign in here
+        if (
+          error.message === 'Provider email is not verified' ||
+          error.message === 'Provider account has no email address'
+        ) {
+          return c.json({ success: false, message: error.message }, 403);
+        }
+        if (
+          error.message === 'This account is already linked to another user' ||
+          error.message === 'An account from this provider is already linked'
+        ) {
+          return c.json({ success: false, message: error.message }, 409);
+        }
+        if (error.message === 'OAuth link was started by another user') {
+          return c.json({ success: false, message: error.message }, 403);
+        }
+        if (error.message === 'OAuth provider is not configured') {
+          return c.json({ success: false, message: error.message }, 503);
+        }
+      }
+
+      return c.json({ success: false, message: 'Internal server error' }, 500);
+    }
+  }
+
+  static async listIdentities(c: Context) {
+    try {
+      const linked = await IdentityService.listForUser(c.get('userId'));
+
+      return c.json({
+        success: true,
+        message: 'Linked accounts retrieved successfully',
+        data: linked,
+      });
+    } catch (error) {
+      console.error('List identities error:', error);
+      return c.json({ success: false, message: 'Internal server error' }, 500);
+    }
+  }
+
+  static async unlink(c: Context) {
+    const parsed = identityProviderSchema.safeParse(c.req.param('provider'));
+    if (!parsed.success) return unknownProvider(c);
+
+    try {
+      await IdentityService.unlink(c.get('userId'), parsed.data);
+      await AuditService.recordRequest(c, {
+        action: 'auth.identity.unlinked',
+        targetType: 'identity',
+        metadata: { provider: parsed.data },
+      });
+
+      return c.json({
+        success: true,
+        message: `${parsed.data} account unlinked`,
+      });
+    } catch (error) {
+      console.error('Unlink identity error:', error);
+
+      if (error instanceof Error) {
+        if (error.message === 'Identity not found' || error.message === 'User not found') {
+          return c.json({ success: false, message: error.message }, 404);
+        }
+        if (error.message === 'Cannot unlink the only sign-in method') {
+          return c.json({ success: false, message: error.message }, 400);
+        }
+      }
+
+      return c.json({ success: false, message: 'Internal server error' }, 500);
+    }
+  }
+}
@@ -0,0 +1,111 @@
+import { z } from 'zod';
+import type { ExternalProfile } from '../../types.js';
+
+export type OAuthProviderName = 'github' | 'linkedin';
+
+export interface OAuthProviderConfig {
+  authorizeUrl: string;
+  tokenUrl: string;
+  scopes: string[];
+  clientId: string | undefined;
+  clientSecret: string | undefined;
+  redirectUri: string;
+  fetchProfile(accessToken: string): Promise<ExternalProfile>;
+}
+
+const APP_URL = process.env.APP_URL || 'https://lockin-edge.vercel.app';
+
+// Only the fields read below; providers send many more
+const githubUserSchema = z.object({
+  id: z.union([z.number(), z.string()]),
+  login: z.string().nullish(),
+  name: z.string().nullish(),
+  email: z.string().nullish(),
+});
+
+const githubEmailsSchema = z.array(
+  z.object({
+    email: z.string(),
+    primary: z.boolean(),
+    verified: z.boolean(),
+  })
+);
+
+const linkedinUserInfoSchema = z.object({
+  sub: z.string(),
+  name: z.string().nullish(),
+  email: z.string().nullish(),
+  email_verified: z.unknown(),
+});
+
+async function getJson(url: string, accessToken: string): Promise<unknown> {
+  const response = await fetch(url, {
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      Accept: 'application/json',
+      'User-Agent': 'LockinEdge',
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`OAuth profile request failed: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+function parseProfile<T>(schema: z.ZodType<T>, body: unknown): T {
+  const parsed = schema.safeParse(body);
+  if (!parsed.success) {
+    throw new Error('OAuth profile response was malformed');
+  }
+  return parsed.data;
+}
+
+export const oauthProviders: Record<OAuthProviderName, OAuthProviderConfig> = {
+  github: {
+    authorizeUrl: 'https://github.com/login/oauth/authorize',
+    tokenUrl: 'https://github.com/login/oauth/access_token',
+    scopes: ['read:user', 'user:email'],
+    clientId: process.env.GITHUB_CLIENT_ID,
+    clientSecret: process.env.GITHUB_CLIENT_SECRET,
+    redirectUri: process.env.GITHUB_REDIRECT_URI || `${APP_URL}/oauth/github/callback`,
+    async fetchProfile(accessToken) {
+      const user = parseProfile(githubUserSchema, await getJson('https://api.github.com/user', accessToken));
+
+      // The public profile email may be hidden; the emails API says which one is verified
+      const emails = parseProfile(githubEmailsSchema, await getJson('https://api.github.com/user/emails', accessToken));
+      const primary = emails.find((e) => e.primary && e.verified) ?? emails.find((e) => e.verified);
+
+      return {
+        subject: String(user.id),
+        email: primary?.email ?? user.email ?? null,
+        emailVerified: Boolean(primary),
+        name: user.name || user.login || null,
+      };
+    },
+  },
+  linkedin: {
+    authorizeUrl: 'https://www.linkedin.com/oauth/v2/authorization',
+    tokenUrl: 'https://www.linkedin.com/oauth/v2/accessToken',
+    scopes: ['openid', 'profile', 'email'],
+    clientId: process.env.LINKEDIN_CLIENT_ID,
+    clientSecret: process.env.LINKEDIN_CLIENT_SECRET,
+    redirectUri: process.env.LINKEDIN_REDIRECT_URI || `${APP_URL}/oauth/linkedin/callback`,
+    async fetchProfile(accessToken) {
+      // "Sign In with LinkedIn using OpenID Connect" userinfo endpoint
+      const info = parseProfile(linkedinUserInfoSchema, await getJson('https://api.linkedin.com/v2/userinfo', accessToken));
+
+      return {
+        subject: String(info.sub),
+        email: info.email ?? null,
+        emailVerified: info.email_verified === true,
+        name: info.name ?? null,
+      };
+    },
+  },
+};
+
+export function isOAuthProvider(name: string): name is OAuthProviderName {
+  return Object.prototype.hasOwnProperty.call(oauthProviders, name);
+}
@@ -0,0 +1,134 @@
+import crypto from 'node:crypto';
+import { eq, lt } from 'drizzle-orm';
+import { db } from '../../db/db.js';
+import { oauthStates } from '../../db/schema.js';
+import type { LoginResult } from '../../types.js';
+import { AuthService } from './auth.service.js';
+import { IdentityService } from './identity.service.js';
+import { oauthProviders } from './oauth.providers.js';
+import type { OAuthProviderName } from './oauth.providers.js';
+import type { SessionMeta } from './session.service.js';
+import { AuditService } from '../audit/audit.service.js';
+
+export type OAuthCallbackResult =
+  | { type: 'login'; auth: LoginResult }
+  | { type: 'linked'; provider: OAuthProviderName };
+
+export class OAuthService {
+  private static readonly STATE_TTL_MS = 10 * 60 * 1000; // 10 minutes
+
+  private static getProvider(name: OAuthProviderName) {
+    const provider = oauthProviders[name];
+    if (!provider.clientId || !provider.clientSecret) {
+      throw new Error('OAuth provider is not configured');
+    }
+    return provider;
+  }
+
+  /**
+   * Start an authorization-code flow with PKCE (S256). Passing `linkUserId`
+   * makes the callback attach the identity to that user instead of signing in.
+   */
+  static async createAuthorization(
+    providerName: OAuthProviderName,
+    linkUserId?: string
+  ): Promise<{ authorizationUrl: string; state: string }> {
+    const provider = this.getProvider(providerName);
+
+    const state = crypto.randomBytes(32).toString('base64url');
+    const codeVerifier = crypto.randomBytes(64).toString('base64url');
+    const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+
+    // Opportunistically drop abandoned flows
+    await db.delete(oauthStates).where(lt(oauthStates.expiresAt, new Date()));
+
+    await db.insert(oauthStates).values({
+      state,
+      provider: providerName,
+      codeVerifier,
+      linkUserId,
+      expiresAt: new Date(Date.now() + this.STATE_TTL_MS),
+    });
+
+    const params = new URLSearchParams({
+      response_type: 'code',
+      client_id: provider.clientId!,
+      redirect_uri: provider.redirectUri,
+      scope: provider.scopes.join(' '),
+      state,
+      code_challenge: codeChallenge,
+      code_challenge_method: 'S256',
+    });
+
+    return { authorizationUrl: `${provider.authorizeUrl}?${params.toString()}`, state };
+  }
+
+  /**
+   * Finish a flow. `callerUserId` is the signed-in user completing it: link
+   * flows must be finished by the user who started them, otherwise anyone
+   * could get a victim to attach the attacker's provider account to theirs.
+   */
+  static async handleCallback(
+    providerName: OAuthProviderName,
+    code: string,
+    state: string,
+    meta?: SessionMeta,
+    callerUserId?: string
+  ): Promise<OAuthCallbackResult> {
+    const provider = this.getProvider(providerName);
+
+    // Delete-and-return makes the state single use even under concurrent callbacks
+    const [pending] = await db.delete(oauthStates).where(eq(oauthStates.state, state)).returning();
+
+    if (!pending || pending.provider !== providerName || pending.expiresAt.getTime() <= Date.now()) {
+      throw new Error('Invalid or expired OAuth state');
+    }
+    if (pending.linkUserId && pending.linkUserId !== callerUserId) {
+      throw new Error('OAuth link was started by another user');
+    }
+    // A sign-in state is only good for signing in
+    if (!pending.linkUserId && callerUserId) {
+      throw new Error('Invalid or expired OAuth state');
+    }
+
+    const tokenResponse = await fetch(provider.tokenUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Accept: 'application/json',
+      },
+      body: new URLSearchParams({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: provider.redirectUri,
+        client_id: provider.clientId!,
+        client_secret: provider.clientSecret!,
+        code_verifier: pending.codeVerifier,
+      }),
+    });
+
+    const tokenData = tokenResponse.ok ? await tokenResponse.json() : null;
+    if (!tokenData?.access_token) {
+      console.error('OAuth token exchange failed:', tokenResponse.status, tokenData);
+      throw new Error('OAuth code exchange failed');
+    }
+
+    const profile = await provider.fetchProfile(tokenData.access_token);
+
+    if (pending.linkUserId) {
+      await IdentityService.link(pending.linkUserId, providerName, profile);
+      await AuditService.record({
+        actorUserId: pending.linkUserId,
+        action: 'auth.identity.linked',
+        targetType: 'identity',
+        targetId: `${providerName}:${profile.subject}`,
+        metadata: { provider: providerName, via: 'oauth_link' },
+        ...meta,
+      });
+      return { type: 'linked', provider: providerName };
+    }
+
+    const auth = await AuthService.signInWithIdentity(providerName, profile, meta);
+    return { type: 'login', auth };
+  }
+}
@@ -0,0 +1,174 @@
+import crypto from 'node:crypto';
+import { and, eq, isNull } from 'drizzle-orm';
+import type { Context } from 'hono';
+import { db } from '../../db/db.js';
+import { sessions } from '../../db/schema.js';
+import type { Session } from '../../db/schema.js';
+import { getClientIp } from '../../utils/request.js';
+import { AuditService } from '../audit/audit.service.js';
+
+export interface SessionMeta {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface IssuedSession {
+  session: Session;
+  refreshToken: string;
+}
+
+export class SessionService {
+  private static readonly REFRESH_TOKEN_TTL_MS = 1000 * 60 * 60 * 24 * 30; // 30 days
+
+  static metaFromContext(c: Context): SessionMeta {
+    return {
+      userAgent: c.req.header('User-Agent')?.slice(0, 500),
+      ipAddress: getClientIp(c),
+    };
+  }
+
+  static hashSecret(secret: string): string {
+    return crypto.createHash('sha256').update(secret).digest('hex');
+  }
+
+  // Refresh tokens are "<sessionId>.<secret>" so the row can be found without
+  // scanning hashes; only the SHA-256 of the secret is stored.
+  private static parseRefreshToken(token: string): { sessionId: string; secret: string } | null {
+    const [sessionId, secret, ...rest] = token.split('.');
+    if (!sessionId || !secret || rest.length > 0) return null;
+    if (!/^[0-9a-f-]{36}$/i.test(sessionId)) return null;
+    return { sessionId, secret };
+  }
+
+  private static secretMatches(secret: string, hash: string): boolean {
+    const candidate = Buffer.from(this.hashSecret(secret), 'hex');
+    const stored = Buffer.from(hash, 'hex');
+    return candidate.length === stored.length && crypto.timingSafeEqual(candidate, stored);
+  }
+
+  static async createSession(userId: string, meta: SessionMeta = {}, familyId?: string): Promise<IssuedSession> {
+    const secret = crypto.randomBytes(32).toString('base64url');
+
+    const [session] = await db
+      .insert(sessions)
+      .values({
+        userId,
+        familyId: familyId ?? crypto.randomUUID(),
+        refreshTokenHash: this.hashSecret(secret),
+        userAgent: meta.userAgent,
+        ipAddress: meta.ipAddress,
+        expiresAt: new Date(Date.now() + this.REFRESH_TOKEN_TTL_MS),
+      })
+      .returning();
+
+    if (!session) {
+      throw new Error('Failed to create session');
+    }
+
+    return { session, refreshToken: `${session.id}.${secret}` };
+  }
+
+  /**
+   * Exchange a refresh token for a new one in the same family. Presenting a
+   * token that has already been rotated is treated as theft: the whole family
+   * is revoked so both the attacker and the legitimate client are logged out.
+   */
+  static async rotate(refreshToken: string, meta: SessionMeta = {}): Promise<IssuedSession> {
+    const parsed = this.parseRefreshToken(refreshToken);
+    if (!parsed) {
+      throw new Error('Invalid refresh token');
+    }
+
+    const session = await db.query.sessions.findFirst({ where: eq(sessions.id, parsed.sessionId) });
+
+    if (!session || !this.secretMatches(parsed.secret, session.refreshTokenHash)) {
+      throw new Error('Invalid refresh token');
+    }
+
+    if (session.replacedBy) {
+      await this.revokeFamily(session.familyId);
+      await AuditService.record({
+        actorUserId: session.userId,
+        action: 'auth.token.reuse_detected',
+        targetType: 'session',
+        targetId: session.familyId,
+        ...meta,
+      });
+      throw new Error('Refresh token reuse detected');
+    }
+
+    if (session.revokedAt || session.expiresAt.getTime() <= Date.now()) {
+      throw new Error('Invalid refresh token');
+    }
+
+    const next = await this.createSession(session.userId, meta, session.familyId);
+
+    // Only the first concurrent rotation wins; a second one finds the row
+    // already revoked and is handled as reuse.
+    const [rotated] = await db
+      .update(sessions)
+      .set({ revokedAt: new Date(), replacedBy: next.session.id })
+      .where(and(eq(sessions.id, session.id), isNull(sessions.revokedAt)))
+      .returning({ id: sessions.id });
+
+    if (!rotated) {
+      await this.revokeFamily(session.familyId);
+      throw new Error('Refresh token reuse detected');
+    }
+
+    return next;
+  }
+
+  static async isActive(sessionId: string): Promise<boolean> {
+    const session = await db.query.sessions.findFirst({
+      where: eq(sessions.id, sessionId),
+      columns: { revokedAt: true, replacedBy: true, expiresAt: true },
+    });
+
+    // A rotated session stays valid for its outstanding access token; only an
+    // explicit revocation (logout, reuse, password change) ends it.
+    if (!session) return false;
+    if (session.revokedAt && !session.replacedBy) return false;
+    return session.expiresAt.getTime() > Date.now();
+  }
+
+  static async revokeSession(sessionId: string): Promise<void> {
+    const session = await db.query.sessions.findFirst({
+      where: eq(sessions.id, sessionId),
+      columns: { familyId: true },
+    });
+
+    // Revoking a session must also end the refresh tokens it was rotated into.
+    if (session) {
+      await this.revokeFamily(session.familyId);
+    }
+  }
+
+  static async revokeFamily(familyId: string): Promise<void> {
+    await db
+      .update(sessions)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(sessions.familyId, familyId), isNull(sessions.revokedAt)));
+
+    // Rotated rows already carry revokedAt; clear their replacement pointer so
+    // isActive() no longer treats them as live.
+    await db
+      .update(sessions)
+      .set({ replacedBy: null })
+      .where(eq(sessions.familyId, familyId));
+  }
+
+  static async revokeAllForUser(userId: string, exceptSessionId?: string): Promise<void> {
+    const userSessions = await db
+      .select({ id: sessions.id, familyId: sessions.familyId })
+      .from(sessions)
+      .where(eq(sessions.userId, userId));
+
+    const keepFamily = userSessions.find((s) => s.id === exceptSessionId)?.familyId;
+    const families = new Set(userSessions.map((s) => s.familyId).filter((f) => f !== keepFamily));
+
+    for (const familyId of families) {
+      await this.revokeFamily(familyId);
+    }
+  }
+}
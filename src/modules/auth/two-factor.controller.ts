@@ -0,0 +1,185 @@
+import type { Context } from 'hono';
+import { z } from 'zod';
+import { AuthService, AccountLockedError } from './auth.service.js';
+import { SessionService } from './session.service.js';
+import { TwoFactorService } from './two-factor.service.js';
+import { AuditService } from '../audit/audit.service.js';
+import { twoFactorCodeSchema, twoFactorVerifySchema, disableTwoFactorSchema } from '../../validator.js';
+
+const validationErrorResponse = (c: Context, error: z.ZodError) =>
+  c.json({
+    success: false,
+    message: 'Validation error',
+    errors: error.errors.map(e => ({
+      field: e.path.join('.'),
+      message: e.message,
+    })),
+  }, 400);
+
+export class TwoFactorController {
+  static async setup(c: Context) {
+    try {
+      const result = await TwoFactorService.beginEnrollment(c.get('userId'));
+
+      return c.json({
+        success: true,
+        message: 'Scan the QR code with your authenticator app, then confirm with a code',
+        data: result,
+      });
+    } catch (error) {
+      console.error('2FA setup error:', error);
+
+      if (error instanceof Error) {
+        if (error.message === 'User not found') {
+          return c.json({ success: false, message: error.message }, 404);
+        }
+        if (
+          error.message === 'Two-factor authentication is already enabled' ||
+          error.message === 'Two-factor authentication requires a password account'
+        ) {
+          return c.json({ success: false, message: error.message }, 400);
+        }
+      }
+
+      return c.json({ success: false, message: 'Internal server error' }, 500);
+    }
+  }
+
+  static async confirm(c: Context) {
+    try {
+      const body = await c.req.json();
+
+      // Validate request body
+      const validatedData = twoFactorCodeSchema.parse(body);
+
+      const recoveryCodes = await TwoFactorService.confirmEnrollment(c.get('userId'), validatedData.code);
+      await AuditService.recordRequest(c, { action: 'auth.2fa.enabled', targetType: 'user', targetId: c.get('userId') });
+
+      return c.json({
+        success: true,
+        message: 'Two-factor authentication enabled. Store these recovery codes somewhere safe.',
+        data: { recoveryCodes },
+      });
+    } catch (error) {
+      console.error('2FA confirm error:', error);
+
+      if (error instanceof z.ZodError) {
+        return validationErrorResponse(c, error);
+      }
+
+      if (error instanceof Error) {
+        if (error.message === 'User not found') {
+          return c.json({ success: false, message: error.message }, 404);
+        }
+        if (
+          error.message === 'Invalid two-factor code' ||
+          error.message === 'Two-factor setup has not been started' ||
+          error.message === 'Two-factor authentication is already enabled'
+        ) {
+          return c.json({ success: false, message: error.message }, 400);
+        }
+      }
+
+      return c.json({ success: false, message: 'Internal server error' }, 500);
+    }
+  }
+
+  static async verify(c: Context) {
+    try {
+      const body = await c.req.json();
+
+      // Validate request body
+      const validatedData = twoFactorVerifySchema.parse(body);
+
+      const result = await AuthService.completeTwoFactorLogin(
+        validatedData.challengeToken,
+        { code: validatedData.code, recoveryCode: validatedData.recoveryCode },
+        SessionService.metaFromContext(c)
+      );
+
+      return c.json({
+        success: true,
+        message: 'Login successful',
+        data: result,
+      });
+    } catch (error) {
+      console.error('2FA verify error:', error);
+
+      if (error instanceof z.ZodError) {
+        return validationErrorResponse(c, error);
+      }
+
+      if (error instanceof AccountLockedError) {
+        c.header('Retry-After', String(error.retryAfterSeconds));
+        return c.json({
+          success: false,
+          message: 'Too many failed login attempts. Please try again later.',
+        }, 429);
+      }
+
+      if (error instanceof Error) {
+        if (error.message === 'Invalid two-factor code' || error.message === 'Invalid or expired challenge') {
+          return c.json({ success: false, message: error.message }, 401);
+        }
+      }
+
+      return c.json({ success: false, message: 'Internal server error' }, 500);
+    }
+  }
+
+  static async status(c: Context) {
+    try {
+      const userId = c.get('userId');
+      const enabled = await TwoFactorService.isEnabled(userId);
+
+      return c.json({
+        success: true,
+        message: 'Two-factor status retrieved successfully',
+        data: {
+          enabled,
+          remainingRecoveryCodes: enabled ? await TwoFactorService.remainingRecoveryCodes(userId) : 0,
+        },
+      });
+    } catch (error) {
+      console.error('2FA status error:', error);
+      return c.json({ success: false, message: 'Internal server error' }, 500);
+    }
+  }
+
+  static async disable(c: Context) {
+    try {
+      const body = await c.req.json();
+
+      // Validate request body
+      const validatedData = disableTwoFactorSchema.parse(body);
+
+      await AuthService.disableTwoFactor(c.get('userId'), validatedData.password);
+      await AuditService.recordRequest(c, { action: 'auth.2fa.disabled', targetType: 'user', targetId: c.get('userId') });
+
+      return c.json({
+        success: true,
+        message: 'Two-factor authentication disabled',
+      });
+    } catch (error) {
+      console.error('2FA disable error:', error);
+
+      if (error instanceof z.ZodError) {
+        return validationErrorResponse(c, error);
+      }
+
+      if (error instanceof Error) {
+        if (error.message === 'User not found') {
+          return c.json({ success: false, message: error.message }, 404);
+        }
+        if (
+          error.message === 'Current password is incorrect' ||
+          error.message === 'Two-factor authentication is not enabled'
+        ) {
+          return c.json({ success: false, message: error.message }, 400);
+        }
+      }
+
+      return c.json({ success: false, message: 'Internal server error' }, 500);
+    }
+  }
+}
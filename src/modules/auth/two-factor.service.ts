@@ -0,0 +1,158 @@
+import crypto from 'node:crypto';
+import { and, eq, isNull, or, lt, sql } from 'drizzle-orm';
+import { db } from '../../db/db.js';
+import { users, recoveryCodes } from '../../db/schema.js';
+import { buildOtpAuthUri, generateSecret, verifyCode } from './totp.js';
+
+const ISSUER = process.env.TOTP_ISSUER || 'LockinEdge';
+const RECOVERY_CODE_COUNT = 10;
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUri: string;
+}
+
+export class TwoFactorService {
+  private static hashRecoveryCode(code: string): string {
+    const normalized = code.toLowerCase().replace(/[^a-z0-9]/g, '');
+    return crypto.createHash('sha256').update(normalized).digest('hex');
+  }
+
+  private static generateRecoveryCode(): string {
+    const raw = crypto.randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  }
+
+  static async isEnabled(userId: string): Promise<boolean> {
+    const user = await db.query.users.findFirst({
+      where: eq(users.id, userId),
+      columns: { totpEnabledAt: true },
+    });
+    return Boolean(user?.totpEnabledAt);
+  }
+
+  // Store a fresh secret; it only takes effect once confirmed with a valid code
+  static async beginEnrollment(userId: string): Promise<TwoFactorSetup> {
+    const user = await db.query.users.findFirst({ where: eq(users.id, userId) });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+    if (!user.passwordHash) {
+      throw new Error('Two-factor authentication requires a password account');
+    }
+    if (user.totpEnabledAt) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    const secret = generateSecret();
+
+    await db
+      .update(users)
+      .set({ totpSecret: secret, totpLastUsedStep: null })
+      .where(eq(users.id, userId));
+
+    return { secret, otpauthUri: buildOtpAuthUri(secret, user.email, ISSUER) };
+  }
+
+  static async confirmEnrollment(userId: string, code: string): Promise<string[]> {
+    const user = await db.query.users.findFirst({ where: eq(users.id, userId) });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+    if (user.totpEnabledAt) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+    if (!user.totpSecret) {
+      throw new Error('Two-factor setup has not been started');
+    }
+
+    const step = verifyCode(user.totpSecret, code);
+    if (step === null) {
+      throw new Error('Invalid two-factor code');
+    }
+
+    await db
+      .update(users)
+      .set({ totpEnabledAt: new Date(), totpLastUsedStep: step })
+      .where(eq(users.id, userId));
+
+    return this.regenerateRecoveryCodes(userId);
+  }
+
+  // Replaces all existing recovery codes; the plain codes are only ever returned here
+  static async regenerateRecoveryCodes(userId: string): Promise<string[]> {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => this.generateRecoveryCode());
+
+    await db.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+    await db.insert(recoveryCodes).values(
+      codes.map((code) => ({ userId, codeHash: this.hashRecoveryCode(code) }))
+    );
+
+    return codes;
+  }
+
+  /**
+   * Verify a TOTP code for login. The accepted step is recorded atomically so
+   * the same code cannot be replayed within its validity window.
+   */
+  static async verifyLoginCode(userId: string, code: string): Promise<boolean> {
+    const user = await db.query.users.findFirst({
+      where: eq(users.id, userId),
+      columns: { totpSecret: true, totpEnabledAt: true },
+    });
+
+    if (!user?.totpSecret || !user.totpEnabledAt) return false;
+
+    const step = verifyCode(user.totpSecret, code);
+    if (step === null) return false;
+
+    const [accepted] = await db
+      .update(users)
+      .set({ totpLastUsedStep: step })
+      .where(
+        and(
+          eq(users.id, userId),
+          or(isNull(users.totpLastUsedStep), lt(users.totpLastUsedStep, step))
+        )
+      )
+      .returning({ id: users.id });
+
+    return Boolean(accepted);
+  }
+
+  static async useRecoveryCode(userId: string, code: string): Promise<boolean> {
+    const [used] = await db
+      .update(recoveryCodes)
+      .set({ usedAt: new Date() })
+      .where(
+        and(
+          eq(recoveryCodes.userId, userId),
+          eq(recoveryCodes.codeHash, this.hashRecoveryCode(code)),
+          isNull(recoveryCodes.usedAt)
+        )
+      )
+      .returning({ id: recoveryCodes.id });
+
+    return Boolean(used);
+  }
+
+  static async remainingRecoveryCodes(userId: string): Promise<number> {
+    const [row] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(recoveryCodes)
+      .where(and(eq(recoveryCodes.userId, userId), isNull(recoveryCodes.usedAt)));
+
+    return row?.count ?? 0;
+  }
+
+  static async disable(userId: string): Promise<void> {
+    await db
+      .update(users)
+      .set({ totpSecret: null, totpEnabledAt: null, totpLastUsedStep: null })
+      .where(eq(users.id, userId));
+
+    await db.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+  }
+}
@@ -4,15 +4,24 @@ import * as JobService from './jobs.service.js'; // Corrected import
 import { Hono } from 'hono';
 import { ResumeService } from '../../modules/resumes/resume.service.js'; // Import ResumeService
 import { uuidSchema } from '../../types.js'; // Import uuidSchema
+import type { AuthContext } from '../../types.js';
+import { authenticateToken, requireRole, requireScope, ownerScope } from '../auth/auth.middleware.js';
+import { AuditService } from '../audit/audit.service.js';
 
-export const jobController = new Hono();
+export const jobController = new Hono<{ Variables: AuthContext }>();
 
-jobController.post('/', zValidator('json', createJobSchema), async (c) => {
+jobController.post('/', authenticateToken, requireScope('jobs:write'), requireRole('admin'), zValidator('json', createJobSchema), async (c) => {
   const jobData = c.req.valid('json');
   const job = await JobService.createJob(jobData);
   return c.json({ success: true, data: job });
 });
 
+// Trigger all scrapers on demand instead of waiting for the nightly cron
+jobController.post('/scrape', authenticateToken, requireScope('jobs:write'), requireRole('admin'), async (c) => {
+  const result = await JobService.scrapeAllJobs();
+  return c.json({ success: true, data: result });
+});
+
 jobController.get('/', zValidator('query', jobSearchSchema), async (c) => {
   const filters = c.req.valid('query');
   const jobs = await JobService.getJobs(filters);
@@ -26,20 +35,20 @@ jobController.get('/:id', async (c) => {
   return c.json({ success: true, data: job });
 });
 
-jobController.patch('/:id', zValidator('json', updateJobSchema), async (c) => {
+jobController.patch('/:id', authenticateToken, requireScope('jobs:write'), requireRole('admin'), zValidator('json', updateJobSchema), async (c) => {
   const id = c.req.param('id');
   const updates = c.req.valid('json');
   const job = await JobService.updateJob(id, updates);
   return c.json({ success: true, data: job });
 });
 
-jobController.delete('/:id', async (c) => {
+jobController.delete('/:id', authenticateToken, requireScope('jobs:write'), requireRole('admin'), async (c) => {
   const id = c.req.param('id');
   await JobService.deleteJob(id);
   return c.json({ success: true, message: 'Job deleted' });
 });
 
-jobController.post('/match/:resumeId', async (c) => {
+jobController.post('/match/:resumeId', authenticateToken, requireScope('resumes:read'), async (c) => {
   const { resumeId } = c.req.param();
   const parsedResumeId = uuidSchema.safeParse(resumeId);
 
@@ -47,7 +56,7 @@ jobController.post('/match/:resumeId', async (c) => {
     return c.json({ success: false, message: "Invalid resume ID", errors: parsedResumeId.error.format() }, 400);
   }
 
-  const resume = await ResumeService.getResumeById(parsedResumeId.data);
+  const resume = await ResumeService.getResumeById(parsedResumeId.data, ownerScope(c));
 
   if (!resume) {
     return c.json({ success: false, message: "Resume not found" }, 404);
@@ -56,6 +65,12 @@ jobController.post('/match/:resumeId', async (c) => {
   if (!resume.analysis) {
     return c.json({ success: false, message: "Resume has not been analyzed yet." }, 400);
   }
+  await AuditService.recordRequest(c, {
+    action: 'resume.read',
+    targetType: 'resume',
+    targetId: resume.id,
+    metadata: { ownerId: resume.userId, via: 'match' },
+  });
 
   const matchedJobs = await JobService.matchJobsWithResume(resume.id, resume.analysis);
   return c.json({ success: true, data: matchedJobs });
@@ -0,0 +1,145 @@
+import { LlmProviderError, LlmUnavailableError } from './llm.provider.js';
+import type { LlmProvider, LlmRequest, LlmResponse, LlmTask } from './llm.provider.js';
+import { OpenAiCompatibleProvider } from './openai-compatible.provider.js';
+import { OpenRouterProvider } from './openrouter.provider.js';
+import { OfflineProvider } from './offline.provider.js';
+
+// One step of a task's fallback chain, optionally pinned to a model
+export interface ProviderRef {
+  provider: string;
+  model?: string;
+}
+
+export interface LlmClientOptions {
+  timeoutMs: number;
+  maxRetries: number;
+  backoffMs: number;
+}
+
+// `offline` is opt-in: in the default chain it would hide every LLM outage
+const DEFAULT_CHAIN = 'openrouter';
+
+const TASK_ENV: Record<LlmTask, string> = {
+  resume_analysis: 'LLM_RESUME_ANALYSIS_PROVIDERS',
+  job_compatibility: 'LLM_JOB_COMPATIBILITY_PROVIDERS',
+};
+
+/**
+ * Parse "openrouter:deepseek/deepseek-r1:free,local,offline". Only the first
+ * colon separates provider from model since model ids contain colons.
+ */
+export function parseProviderChain(value: string): ProviderRef[] {
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf(':');
+      return separator === -1
+        ? { provider: entry }
+        : { provider: entry.slice(0, separator), model: entry.slice(separator + 1) };
+    });
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export class LlmClient {
+  constructor(
+    private readonly providers: Map<string, LlmProvider>,
+    private readonly chains: Record<LlmTask, ProviderRef[]>,
+    private readonly options: LlmClientOptions
+  ) {}
+
+  /**
+   * Run a request through the task's provider chain. Retryable failures
+   * (timeouts, 429, 5xx) are retried with exponential backoff before moving
+   * on to the next provider; anything else falls through immediately.
+   */
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    const failures: { provider: string; error: string }[] = [];
+
+    for (const ref of this.chains[request.task]) {
+      const provider = this.providers.get(ref.provider);
+      if (!provider) {
+        failures.push({ provider: ref.provider, error: 'unknown provider' });
+        continue;
+      }
+      if (!provider.isConfigured()) {
+        failures.push({ provider: ref.provider, error: 'not configured' });
+        continue;
+      }
+
+      for (let attempt = 0; ; attempt++) {
+        try {
+          return await provider.complete(request, {
+            model: ref.model,
+            signal: AbortSignal.timeout(this.options.timeoutMs),
+          });
+        } catch (error) {
+          const retryable = error instanceof LlmProviderError && error.retryable;
+          if (!retryable || attempt >= this.options.maxRetries) {
+            console.warn(`LLM provider ${provider.name} failed for ${request.task}:`, (error as Error).message);
+            failures.push({ provider: provider.name, error: (error as Error).message });
+            break;
+          }
+          // Full jitter so concurrent callers don't retry in lockstep
+          await sleep(Math.random() * this.options.backoffMs * 2 ** attempt);
+        }
+      }
+    }
+
+    throw new LlmUnavailableError(request.task, failures);
+  }
+}
+
+let client: LlmClient | null = null;
+
+/**
+ * Build the client from the environment. Providers: `openrouter`
+ * (OPENROUTER_API_KEY, OPENROUTER_MODEL), `openai` (LLM_BASE_URL,
+ * LLM_API_KEY, LLM_MODEL — any OpenAI-compatible server) and `offline`.
+ * Chains come from LLM_PROVIDERS, overridable per task.
+ */
+export function getLlmClient(): LlmClient {
+  if (client) return client;
+
+  const providers = new Map<string, LlmProvider>();
+  providers.set(
+    'openrouter',
+    new OpenRouterProvider({
+      apiKey: process.env.OPENROUTER_API_KEY,
+      model: process.env.OPENROUTER_MODEL,
+      appUrl: process.env.APP_URL,
+    })
+  );
+  providers.set(
+    'openai',
+    new OpenAiCompatibleProvider({
+      baseUrl: process.env.LLM_BASE_URL ?? '',
+      apiKey: process.env.LLM_API_KEY,
+      model: process.env.LLM_MODEL || 'gpt-4o-mini',
+    })
+  );
+  providers.set('offline', new OfflineProvider());
+
+  const defaultChain = process.env.LLM_PROVIDERS || DEFAULT_CHAIN;
+  const chains = Object.fromEntries(
+    (Object.keys(TASK_ENV) as LlmTask[]).map((task) => [
+      task,
+      parseProviderChain(process.env[TASK_ENV[task]] || defaultChain),
+    ])
+  ) as Record<LlmTask, ProviderRef[]>;
+
+  client = new LlmClient(providers, chains, {
+    timeoutMs: Number(process.env.LLM_TIMEOUT_MS) || 60_000,
+    maxRetries: Number(process.env.LLM_MAX_RETRIES) || 2,
+    backoffMs: Number(process.env.LLM_BACKOFF_MS) || 1_000,
+  });
+
+  return client;
+}
+
+// Swap the client at runtime, e.g. to inject fake providers in a test harness
+export function setLlmClient(next: LlmClient | null): void {
+  client = next;
+}
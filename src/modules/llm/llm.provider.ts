@@ -0,0 +1,67 @@
+export type LlmTask = 'resume_analysis' | 'job_compatibility';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Remote providers only look at `messages`; the structured task input is
+ * carried alongside so the offline provider can work without a prompt parser.
+ */
+export type LlmTaskInput =
+  | { task: 'resume_analysis'; resumeText: string }
+  | {
+      task: 'job_compatibility';
+      resume: { skills: string[]; experience: number };
+      job: { title: string; company: string; requirements: string[]; description: string };
+    };
+
+export type LlmRequest = LlmTaskInput & {
+  messages: ChatMessage[];
+  temperature?: number;
+};
+
+export interface LlmCallOptions {
+  model?: string;
+  signal?: AbortSignal;
+}
+
+export interface LlmResponse {
+  content: string;
+  provider: string;
+  model: string;
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  // False when required configuration (e.g. an API key) is missing; the client skips it
+  isConfigured(): boolean;
+  complete(request: LlmRequest, options?: LlmCallOptions): Promise<LlmResponse>;
+}
+
+export class LlmProviderError extends Error {
+  constructor(
+    message: string,
+    readonly provider: string,
+    readonly retryable: boolean,
+    readonly status?: number
+  ) {
+    super(message);
+    this.name = 'LlmProviderError';
+  }
+}
+
+// Every provider in the chain for a task failed or was unavailable
+export class LlmUnavailableError extends Error {
+  constructor(
+    readonly task: LlmTask,
+    readonly failures: { provider: string; error: string }[]
+  ) {
+    super(
+      `No LLM provider could complete ${task}: ` +
+        (failures.map((f) => `${f.provider} (${f.error})`).join('; ') || 'none configured')
+    );
+    this.name = 'LlmUnavailableError';
+  }
+}
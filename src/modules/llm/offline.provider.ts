@@ -0,0 +1,44 @@
+import type { LlmProvider, LlmRequest, LlmResponse } from './llm.provider.js';
+import { findKnownSkills, mentionsSkill, parseResumeText, toAnalysis } from '../resumes/heuristic.parser.js';
+
+function scoreCompatibility(input: Extract<LlmRequest, { task: 'job_compatibility' }>) {
+  const resumeSkills = input.resume.skills.map((s) => s.toLowerCase());
+  const required = input.job.requirements.length > 0 ? input.job.requirements : findKnownSkills(input.job.description);
+
+  const matchingSkills = required.filter((s) => resumeSkills.includes(s.toLowerCase()));
+  const missingSkills = required.filter((s) => !resumeSkills.includes(s.toLowerCase()));
+
+  // Without listed requirements, fall back to whether the title mentions a known skill
+  const score =
+    required.length > 0
+      ? Math.round((matchingSkills.length / required.length) * 100)
+      : resumeSkills.some((s) => mentionsSkill(input.job.title, s))
+        ? 50
+        : 0;
+
+  return {
+    score,
+    matchingSkills,
+    missingSkills,
+    reasoning: `Rule-based match: ${matchingSkills.length} of ${required.length} listed requirements found in the resume.`,
+  };
+}
+
+/**
+ * Deterministic rule-based provider backed by the heuristic resume parser.
+ * Quality is well below a real model, but it needs no network or API key,
+ * so analysis still works offline and gives stable output for local testing.
+ */
+export class OfflineProvider implements LlmProvider {
+  readonly name = 'offline';
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    const result =
+      request.task === 'resume_analysis' ? toAnalysis(parseResumeText(request.resumeText)) : scoreCompatibility(request);
+    return { content: JSON.stringify(result), provider: this.name, model: 'rules-v1' };
+  }
+}
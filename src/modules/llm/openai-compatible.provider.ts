@@ -0,0 +1,77 @@
+import { LlmProviderError } from './llm.provider.js';
+import type { LlmCallOptions, LlmProvider, LlmRequest, LlmResponse } from './llm.provider.js';
+
+export interface OpenAiCompatibleConfig {
+  name?: string;
+  // e.g. http://localhost:11434/v1 for a local server
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+  // Local servers usually run without a key
+  requiresApiKey?: boolean;
+  headers?: Record<string, string>;
+  fetchImpl?: typeof fetch;
+}
+
+// Any server implementing the OpenAI /chat/completions API
+export class OpenAiCompatibleProvider implements LlmProvider {
+  readonly name: string;
+  private readonly fetchImpl: typeof fetch;
+
+  constructor(protected readonly config: OpenAiCompatibleConfig) {
+    this.name = config.name ?? 'openai';
+    this.fetchImpl = config.fetchImpl ?? fetch;
+  }
+
+  isConfigured(): boolean {
+    return Boolean(this.config.baseUrl) && (!this.config.requiresApiKey || Boolean(this.config.apiKey));
+  }
+
+  async complete(request: LlmRequest, options: LlmCallOptions = {}): Promise<LlmResponse> {
+    const model = options.model ?? this.config.model;
+    let response: Response;
+
+    try {
+      response = await this.fetchImpl(`${this.config.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {}),
+          ...this.config.headers,
+        },
+        body: JSON.stringify({
+          model,
+          messages: request.messages,
+          temperature: request.temperature ?? 0,
+        }),
+        signal: options.signal,
+      });
+    } catch (error) {
+      // Network failures and timeouts are worth retrying
+      throw new LlmProviderError(`${this.name} request failed: ${(error as Error).message}`, this.name, true);
+    }
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new LlmProviderError(
+        `${this.name} API error: ${response.status} - ${body.slice(0, 500)}`,
+        this.name,
+        response.status === 408 || response.status === 429 || response.status >= 500,
+        response.status
+      );
+    }
+
+    const data = (await response.json()) as {
+      model?: string;
+      choices?: { message?: { content?: string | null } }[];
+    };
+    const content = data.choices?.[0]?.message?.content?.trim();
+
+    if (!content) {
+      // Free-tier models occasionally return an empty choice under load
+      throw new LlmProviderError(`${this.name} returned an empty response`, this.name, true);
+    }
+
+    return { content, provider: this.name, model: data.model ?? model };
+  }
+}
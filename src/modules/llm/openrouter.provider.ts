@@ -0,0 +1,26 @@
+import { OpenAiCompatibleProvider } from './openai-compatible.provider.js';
+
+export const OPENROUTER_BASE_URL = 'https://openrouter.ai/api/v1';
+export const OPENROUTER_DEFAULT_MODEL = 'deepseek/deepseek-r1:free';
+
+export interface OpenRouterConfig {
+  apiKey?: string;
+  model?: string;
+  appUrl?: string;
+  fetchImpl?: typeof fetch;
+}
+
+export class OpenRouterProvider extends OpenAiCompatibleProvider {
+  constructor(config: OpenRouterConfig) {
+    super({
+      name: 'openrouter',
+      baseUrl: OPENROUTER_BASE_URL,
+      apiKey: config.apiKey,
+      model: config.model ?? OPENROUTER_DEFAULT_MODEL,
+      requiresApiKey: true,
+      // Attribution headers OpenRouter uses for its app rankings
+      headers: config.appUrl ? { 'HTTP-Referer': config.appUrl, 'X-Title': 'LockinEdge' } : undefined,
+      fetchImpl: config.fetchImpl,
+    });
+  }
+}
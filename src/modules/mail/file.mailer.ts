@@ -0,0 +1,30 @@
+import path from 'node:path';
+import fs from 'node:fs/promises';
+import type { Mailer, MailMessage } from './mailer.js';
+
+// Writes each message as a JSON file so flows can be exercised without SMTP
+export class FileMailer implements Mailer {
+  constructor(
+    private readonly outputDir: string,
+    private readonly from: string
+  ) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const dir = path.resolve(process.cwd(), this.outputDir);
+    await fs.mkdir(dir, { recursive: true });
+
+    const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+    const filePath = path.join(dir, `${Date.now()}-${safeRecipient}.json`);
+
+    await fs.writeFile(
+      filePath,
+      JSON.stringify({ from: this.from, ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+  }
+}
+
+export class ConsoleMailer implements Mailer {
+  async send(message: MailMessage): Promise<void> {
+    console.log(`📧 Mail to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
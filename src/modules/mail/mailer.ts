@@ -0,0 +1,62 @@
+import { SmtpMailer } from './smtp.mailer.js';
+import { ConsoleMailer, FileMailer } from './file.mailer.js';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+const MAIL_FROM = process.env.MAIL_FROM || 'LockinEdge <no-reply@lockinedge.app>';
+
+let mailer: Mailer | null = null;
+
+/**
+ * Resolve the transport from MAIL_TRANSPORT (smtp | file | console).
+ * Defaults to console so local development never needs a mail server, but
+ * production must choose one: reset and verification links carry live
+ * tokens that do not belong in the logs.
+ */
+export function getMailer(): Mailer {
+  if (mailer) return mailer;
+
+  switch (process.env.MAIL_TRANSPORT) {
+    case 'smtp':
+      mailer = new SmtpMailer({
+        from: MAIL_FROM,
+        host: process.env.SMTP_HOST || 'localhost',
+        port: Number(process.env.SMTP_PORT) || 587,
+        secure: process.env.SMTP_SECURE === 'true',
+        user: process.env.SMTP_USER,
+        password: process.env.SMTP_PASSWORD,
+      });
+      break;
+    case 'file':
+      mailer = new FileMailer(process.env.MAIL_OUTPUT_DIR || 'tmp/mail', MAIL_FROM);
+      break;
+    case 'console':
+      mailer = new ConsoleMailer();
+      break;
+    case undefined:
+    case '':
+      if (process.env.NODE_ENV === 'production') {
+        throw new Error('MAIL_TRANSPORT must be set in production');
+      }
+      mailer = new ConsoleMailer();
+      break;
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${process.env.MAIL_TRANSPORT}"`);
+  }
+
+  return mailer;
+}
+
+// Swap the transport at runtime, e.g. to capture messages in a test harness
+export function setMailer(next: Mailer | null): void {
+  mailer = next;
+}
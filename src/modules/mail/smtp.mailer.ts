@@ -0,0 +1,37 @@
+import nodemailer from 'nodemailer';
+import type { Transporter } from 'nodemailer';
+import type { Mailer, MailMessage } from './mailer.js';
+
+export interface SmtpConfig {
+  from: string;
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+}
+
+export class SmtpMailer implements Mailer {
+  private readonly transporter: Transporter;
+  private readonly from: string;
+
+  constructor(config: SmtpConfig) {
+    this.from = config.from;
+    this.transporter = nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      auth: config.user ? { user: config.user, pass: config.password } : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({
+      from: this.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+    });
+  }
+}
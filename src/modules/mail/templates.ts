@@ -0,0 +1,25 @@
+import type { MailMessage } from './mailer.js';
+
+const APP_URL = process.env.APP_URL || 'https://lockin-edge.vercel.app';
+
+export function passwordResetEmail(to: string, token: string): MailMessage {
+  const link = `${APP_URL}/reset-password?token=${encodeURIComponent(token)}`;
+
+  return {
+    to,
+    subject: 'Reset your LockinEdge password',
+    text: `We received a request to reset your password.\n\nReset it here: ${link}\n\nThis link expires in 1 hour. If you did not ask for this, you can ignore this email.`,
+    html: `<p>We received a request to reset your password.</p><p><a href="${link}">Reset your password</a></p><p>This link expires in 1 hour. If you did not ask for this, you can ignore this email.</p>`,
+  };
+}
+
+export function verificationEmail(to: string, token: string): MailMessage {
+  const link = `${APP_URL}/verify-email?token=${encodeURIComponent(token)}`;
+
+  return {
+    to,
+    subject: 'Verify your LockinEdge email',
+    text: `Confirm your email address: ${link}\n\nThis link expires in 24 hours.`,
+    html: `<p>Confirm your email address:</p><p><a href="${link}">Verify email</a></p><p>This link expires in 24 hours.</p>`,
+  };
+}
@@ -0,0 +1,134 @@
+import crypto from 'node:crypto';
+
+export interface ProgressEvent {
+  // "<runId>.<seq>", sent as the SSE id so clients can resume with Last-Event-ID
+  id: string;
+  event: string;
+  data: unknown;
+}
+
+type Listener = (event: ProgressEvent) => void;
+
+interface Channel {
+  runId: string;
+  seq: number;
+  events: ProgressEvent[];
+  running: boolean;
+  finished: boolean;
+  listeners: Set<Listener>;
+  endListeners: Set<() => void>;
+  cleanup: NodeJS.Timeout | null;
+}
+
+/**
+ * In-process fan-out of progress events for long-running work. Each channel
+ * (e.g. "resume:<id>") holds one run at a time and buffers its most recent
+ * events so a reconnecting client can replay what it missed. Nothing is
+ * persisted: events published in another process are not seen here.
+ */
+export class ProgressHub {
+  private static readonly MAX_EVENTS = 200;
+  // Finished runs stay replayable for a while so late reconnects still get the result
+  private static readonly RETENTION_MS = 5 * 60 * 1000;
+
+  private readonly channels = new Map<string, Channel>();
+
+  private channel(name: string): Channel {
+    let channel = this.channels.get(name);
+    if (!channel) {
+      channel = {
+        runId: crypto.randomBytes(4).toString('hex'),
+        seq: 0,
+        events: [],
+        running: false,
+        finished: false,
+        listeners: new Set(),
+        endListeners: new Set(),
+        cleanup: null,
+      };
+      this.channels.set(name, channel);
+    }
+    return channel;
+  }
+
+  // Begin a new run; subscribers waiting on the channel keep listening
+  start(name: string): void {
+    const channel = this.channel(name);
+    if (channel.cleanup) clearTimeout(channel.cleanup);
+    channel.runId = crypto.randomBytes(4).toString('hex');
+    channel.seq = 0;
+    channel.events = [];
+    channel.running = true;
+    channel.finished = false;
+    channel.cleanup = null;
+  }
+
+  isRunning(name: string): boolean {
+    const channel = this.channels.get(name);
+    return Boolean(channel?.running);
+  }
+
+  publish(name: string, event: string, data: unknown): ProgressEvent {
+    const channel = this.channel(name);
+    const published = { id: `${channel.runId}.${++channel.seq}`, event, data };
+
+    channel.events.push(published);
+    if (channel.events.length > ProgressHub.MAX_EVENTS) channel.events.shift();
+
+    for (const listener of channel.listeners) listener(published);
+    return published;
+  }
+
+  // Mark the run complete and close every open subscription
+  finish(name: string): void {
+    const channel = this.channels.get(name);
+    if (!channel) return;
+
+    channel.running = false;
+    channel.finished = true;
+    for (const end of channel.endListeners) end();
+    channel.listeners.clear();
+    channel.endListeners.clear();
+
+    channel.cleanup = setTimeout(() => this.channels.delete(name), ProgressHub.RETENTION_MS);
+    channel.cleanup.unref();
+  }
+
+  /**
+   * Events of the current run after `lastEventId`. An id from an earlier run
+   * (or none) replays the current run from the start.
+   */
+  replay(name: string, lastEventId?: string): { events: ProgressEvent[]; finished: boolean } {
+    const channel = this.channels.get(name);
+    if (!channel) return { events: [], finished: false };
+
+    const [runId, seq] = (lastEventId ?? '').split('.');
+    const after = runId === channel.runId ? Number(seq) || 0 : 0;
+    const events = channel.events.filter((e) => Number(e.id.split('.')[1]) > after);
+
+    return { events, finished: channel.finished };
+  }
+
+  // Whether `lastEventId` refers to the channel's current run
+  isCurrentRun(name: string, lastEventId?: string): boolean {
+    const channel = this.channels.get(name);
+    return Boolean(channel && lastEventId?.split('.')[0] === channel.runId);
+  }
+
+  subscribe(name: string, listener: Listener, onEnd: () => void): () => void {
+    const channel = this.channel(name);
+    channel.listeners.add(listener);
+    channel.endListeners.add(onEnd);
+
+    return () => {
+      channel.listeners.delete(listener);
+      channel.endListeners.delete(onEnd);
+      // Drop channels that were only ever waited on, e.g. a run handled by another process
+      if (!channel.running && !channel.finished && channel.listeners.size === 0 && this.channels.get(name) === channel) {
+        this.channels.delete(name);
+      }
+    };
+  }
+}
+
+export const progressHub = new ProgressHub();
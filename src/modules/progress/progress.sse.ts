@@ -0,0 +1,88 @@
+import type { Context } from 'hono';
+import { streamSSE } from 'hono/streaming';
+import { progressHub } from './progress.hub.js';
+
+interface OutgoingEvent {
+  id?: string;
+  event: string;
+  data: unknown;
+}
+
+export interface StreamProgressOptions {
+  /**
+   * Checked on connect and every `intervalMs` while the stream is open.
+   * Returning an event sends it and ends the stream; this catches work that
+   * finished earlier or in another process and so never reached the hub.
+   */
+  poll?: { intervalMs: number; check: () => Promise<OutgoingEvent | null> };
+}
+
+const KEEPALIVE_MS = 15_000;
+
+/**
+ * Stream a progress channel as Server-Sent Events, replaying anything after
+ * the client's Last-Event-ID first. The stream ends when the run finishes.
+ */
+export function streamProgress(c: Context, channel: string, options: StreamProgressOptions = {}) {
+  const lastEventId = c.req.header('Last-Event-ID') ?? c.req.query('lastEventId');
+
+  return streamSSE(c, async (stream) => {
+    const queue: OutgoingEvent[] = [];
+    let wake: (() => void) | null = null;
+    let ended = false;
+    let aborted = false;
+
+    const notify = () => {
+      wake?.();
+      wake = null;
+    };
+    const push = (event: OutgoingEvent) => {
+      queue.push(event);
+      notify();
+    };
+
+    // Replay and subscribe in the same tick so no event falls in between
+    const replayed = progressHub.replay(channel, lastEventId);
+    replayed.events.forEach(push);
+    ended = replayed.finished;
+    const unsubscribe = ended
+      ? () => {}
+      : progressHub.subscribe(channel, push, () => {
+          ended = true;
+          notify();
+        });
+
+    stream.onAbort(() => {
+      aborted = true;
+      notify();
+    });
+
+    const keepalive = setInterval(() => void stream.write(': keepalive\n\n'), KEEPALIVE_MS);
+    const check = async () => {
+      const event = await options.poll!.check().catch(() => null);
+      if (event && !ended) {
+        ended = true;
+        push(event);
+      }
+    };
+    const poller = options.poll && !ended ? setInterval(check, options.poll.intervalMs) : null;
+    if (poller) void check();
+
+    try {
+      while (!aborted) {
+        while (queue.length > 0) {
+          const { id, event, data } = queue.shift()!;
+          await stream.writeSSE({ id, event, data: JSON.stringify(data) });
+        }
+        if (ended) break;
+        await new Promise<void>((resolve) => {
+          wake = resolve;
+        });
+      }
+    } finally {
+      clearInterval(keepalive);
+      if (poller) clearInterval(poller);
+      unsubscribe();
+    }
+  });
+}
@@ -0,0 +1,147 @@
+import { and, asc, eq, gte, inArray, lt, lte, or, sql } from 'drizzle-orm';
+import { db } from '../../db/db.js';
+import { queueJobs } from '../../db/schema.js';
+import type { QueueJob } from '../../db/schema.js';
+import type { JobPayloads, JobType } from './queue.types.js';
+
+// Either the shared connection or an open transaction, so a job can be
+// enqueued atomically with the row it refers to
+type Executor = Pick<typeof db, 'insert'>;
+
+export interface EnqueueOptions {
+  maxAttempts?: number;
+  runAt?: Date;
+}
+
+export type FailureOutcome = 'retry' | 'dead';
+
+export const LOCK_EXPIRED_ERROR = 'The worker running the final attempt stopped before it finished';
+
+export class QueueService {
+  private static readonly BACKOFF_BASE_MS = 5_000;
+  private static readonly BACKOFF_MAX_MS = 30 * 60 * 1000;
+
+  static async enqueue<T extends JobType>(
+    type: T,
+    payload: JobPayloads[T],
+    options: EnqueueOptions = {},
+    executor: Executor = db
+  ): Promise<QueueJob> {
+    const [job] = await executor
+      .insert(queueJobs)
+      .values({
+        type,
+        payload,
+        maxAttempts: options.maxAttempts,
+        runAt: options.runAt,
+      })
+      .returning();
+
+    if (!job) {
+      throw new Error('Failed to enqueue job');
+    }
+    return job;
+  }
+
+  /**
+   * Lock up to `limit` due jobs for this worker. SKIP LOCKED lets several
+   * workers poll the table without handing out the same job twice. Jobs left
+   * running longer than `lockTimeoutMs` belong to a crashed worker and are
+   * picked up again, unless that was their last attempt (see reapExpired).
+   */
+  static async claim(workerId: string, types: JobType[], limit: number, lockTimeoutMs: number): Promise<QueueJob[]> {
+    if (types.length === 0 || limit <= 0) return [];
+
+    const now = new Date();
+    const staleBefore = new Date(now.getTime() - lockTimeoutMs);
+
+    const due = db
+      .select({ id: queueJobs.id })
+      .from(queueJobs)
+      .where(
+        and(
+          inArray(queueJobs.type, types),
+          or(
+            and(eq(queueJobs.status, 'pending'), lte(queueJobs.runAt, now)),
+            and(
+              eq(queueJobs.status, 'running'),
+              lt(queueJobs.lockedAt, staleBefore),
+              lt(queueJobs.attempts, queueJobs.maxAttempts)
+            )
+          )
+        )
+      )
+      .orderBy(asc(queueJobs.runAt))
+      .limit(limit)
+      .for('update', { skipLocked: true });
+
+    return db
+      .update(queueJobs)
+      .set({
+        status: 'running',
+        lockedAt: now,
+        lockedBy: workerId,
+        attempts: sql`${queueJobs.attempts} + 1`,
+      })
+      .where(inArray(queueJobs.id, due))
+      .returning();
+  }
+
+  /**
+   * Dead-letter jobs whose worker died during their final attempt. Claiming
+   * them again would run them past maxAttempts. The row is only updated while
+   * still stale, so with several workers each job is returned to one of them.
+   */
+  static async reapExpired(types: JobType[], lockTimeoutMs: number): Promise<QueueJob[]> {
+    if (types.length === 0) return [];
+
+    return db
+      .update(queueJobs)
+      .set({ status: 'dead', lockedAt: null, lockedBy: null, lastError: LOCK_EXPIRED_ERROR })
+      .where(
+        and(
+          inArray(queueJobs.type, types),
+          eq(queueJobs.status, 'running'),
+          lt(queueJobs.lockedAt, new Date(Date.now() - lockTimeoutMs)),
+          gte(queueJobs.attempts, queueJobs.maxAttempts)
+        )
+      )
+      .returning();
+  }
+
+  static async complete(jobId: string): Promise<void> {
+    await db
+      .update(queueJobs)
+      .set({ status: 'completed', completedAt: new Date(), lockedAt: null, lockedBy: null, lastError: null })
+      .where(eq(queueJobs.id, jobId));
+  }
+
+  // Reschedule with exponential backoff, or dead-letter once attempts run out or the error is permanent
+  static async fail(job: QueueJob, error: unknown, permanent = false): Promise<FailureOutcome> {
+    const message = (error instanceof Error ? error.message : String(error)).slice(0, 2000);
+    const outcome: FailureOutcome = permanent || job.attempts >= job.maxAttempts ? 'dead' : 'retry';
+    const delay = Math.min(this.BACKOFF_BASE_MS * 2 ** (job.attempts - 1), this.BACKOFF_MAX_MS);
+
+    await db
+      .update(queueJobs)
+      .set({
+        status: outcome === 'dead' ? 'dead' : 'pending',
+        runAt: outcome === 'dead' ? job.runAt : new Date(Date.now() + delay),
+        lockedAt: null,
+        lockedBy: null,
+        lastError: message,
+      })
+      .where(eq(queueJobs.id, job.id));
+
+    return outcome;
+  }
+
+  // Most recent job of `type` whose payload has `key` = `value`
+  static async findLatest(type: JobType, key: string, value: string): Promise<QueueJob | null> {
+    const job = await db.query.queueJobs.findFirst({
+      where: and(eq(queueJobs.type, type), sql`${queueJobs.payload} ->> ${key} = ${value}`),
+      orderBy: (jobs, { desc }) => [desc(jobs.createdAt)],
+    });
+    return job ?? null;
+  }
+}
@@ -0,0 +1,11 @@
+import type { AnalyzeResumePayload } from '../resumes/resume.processor.js';
+
+/**
+ * Payload of each job type. Enqueueing and handler registration are checked
+ * against it, so a type and the payload its handler reads cannot drift apart.
+ */
+export interface JobPayloads {
+  'resume.analyze': AnalyzeResumePayload;
+}
+
+export type JobType = keyof JobPayloads;
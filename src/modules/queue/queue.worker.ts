@@ -0,0 +1,118 @@
+import crypto from 'node:crypto';
+import os from 'node:os';
+import type { QueueJob } from '../../db/schema.js';
+import { LOCK_EXPIRED_ERROR, QueueService } from './queue.service.js';
+import type { JobPayloads, JobType } from './queue.types.js';
+
+export interface JobHandler<P> {
+  handle(payload: P, job: QueueJob): Promise<void>;
+  // Errors a retry cannot fix, e.g. a corrupt file; the job is dead-lettered on the first one
+  isPermanent?(error: unknown): boolean;
+  // Called once when the job is dead-lettered, e.g. to mark the owning row failed
+  onDead?(payload: P, job: QueueJob, error: unknown): Promise<void>;
+}
+
+type JobHandlers = { [T in JobType]?: JobHandler<JobPayloads[T]> };
+
+export interface QueueWorkerOptions {
+  concurrency: number;
+  pollIntervalMs: number;
+  lockTimeoutMs: number;
+}
+
+export class QueueWorker {
+  readonly id = `${os.hostname()}-${process.pid}-${crypto.randomBytes(3).toString('hex')}`;
+
+  private readonly handlers: JobHandlers = {};
+  private readonly active = new Set<Promise<void>>();
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(private readonly options: QueueWorkerOptions) {}
+
+  register<T extends JobType>(type: T, handler: JobHandler<JobPayloads[T]>): this {
+    this.handlers[type] = handler;
+    return this;
+  }
+
+  private registered(type: string): type is JobType {
+    return Object.hasOwn(this.handlers, type);
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    void this.poll();
+  }
+
+  // Stop claiming new jobs and wait for the in-flight ones to settle
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.timer) clearTimeout(this.timer);
+    await Promise.allSettled(this.active);
+  }
+
+  private async poll(): Promise<void> {
+    if (!this.running) return;
+    let claimed = 0;
+    const free = this.options.concurrency - this.active.size;
+
+    try {
+      const types = Object.keys(this.handlers) as JobType[];
+      const expired = await QueueService.reapExpired(types, this.options.lockTimeoutMs);
+      for (const job of expired) {
+        if (this.registered(job.type)) this.track(this.deadLetter(job.type, job, new Error(LOCK_EXPIRED_ERROR)));
+      }
+
+      if (free > 0) {
+        const jobs = await QueueService.claim(this.id, types, free, this.options.lockTimeoutMs);
+        claimed = jobs.length;
+        for (const job of jobs) this.track(this.run(job));
+      }
+    } catch (error) {
+      console.error('Queue poll failed:', error);
+    }
+
+    if (!this.running) return;
+    // A full batch suggests more work is waiting, so poll again right away
+    const delay = free > 0 && claimed === free ? 0 : this.options.pollIntervalMs;
+    this.timer = setTimeout(() => void this.poll(), delay);
+  }
+
+  private track(task: Promise<void>): void {
+    this.active.add(task);
+    task.finally(() => this.active.delete(task));
+  }
+
+  private async run(job: QueueJob): Promise<void> {
+    if (this.registered(job.type)) await this.runAs(job.type, job);
+  }
+
+  private async runAs<T extends JobType>(type: T, job: QueueJob): Promise<void> {
+    const handler = this.handlers[type];
+    if (!handler) return;
+    // Written by enqueue() for this type, so it has the shape the handler expects
+    const payload = job.payload as unknown as JobPayloads[T];
+
+    try {
+      await handler.handle(payload, job);
+      await QueueService.complete(job.id);
+    } catch (error) {
+      const permanent = handler.isPermanent?.(error) ?? false;
+      const outcome = await QueueService.fail(job, error, permanent).catch((failError) => {
+        // The stale-lock sweep will pick the job up again
+        console.error(`Failed to record failure of job ${job.id}:`, failError);
+        return null;
+      });
+      console.error(`Job ${job.type} ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}):`, (error as Error).message);
+
+      if (outcome === 'dead') await this.deadLetter(type, job, error);
+    }
+  }
+
+  private async deadLetter<T extends JobType>(type: T, job: QueueJob, error: unknown): Promise<void> {
+    await this.handlers[type]?.onDead?.(job.payload as unknown as JobPayloads[T], job, error).catch((deadError) => {
+      console.error(`Dead-letter hook for job ${job.id} failed:`, deadError);
+    });
+  }
+}
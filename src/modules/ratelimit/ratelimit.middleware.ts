@@ -0,0 +1,59 @@
+import type { Context, Next } from 'hono';
+import { getClientIp } from '../../utils/request.js';
+import { getDefaultStore } from './ratelimit.store.js';
+import type { RateLimitStore } from './ratelimit.store.js';
+
+export interface RateLimitOptions {
+  // Bucket name, so different routes do not share counters
+  name: string;
+  windowMs: number;
+  limit: number;
+  // 'ip' buckets by client address, 'user' by authenticated user (falls back to IP)
+  keyBy?: 'ip' | 'user';
+  store?: RateLimitStore;
+}
+
+function bucketKey(c: Context, options: RateLimitOptions): string {
+  const userId = options.keyBy === 'user' ? (c.get('userId') as string | undefined) : undefined;
+  const subject = userId ? `user:${userId}` : `ip:${getClientIp(c) ?? 'unknown'}`;
+  return `${options.name}:${subject}`;
+}
+
+/**
+ * Fixed-window limiter emitting the IETF RateLimit-* headers. Per-user limits
+ * must be mounted after authenticateToken so the user id is available.
+ */
+export const rateLimit = (options: RateLimitOptions) => {
+  const windowSeconds = Math.ceil(options.windowMs / 1000);
+
+  return async (c: Context, next: Next) => {
+    const store = options.store ?? getDefaultStore();
+
+    let hit;
+    try {
+      hit = await store.increment(bucketKey(c, options), options.windowMs);
+    } catch (error) {
+      // Never take the API down because the limiter's backing store is unavailable
+      console.error('Rate limit store error:', error);
+      await next();
+      return;
+    }
+
+    const resetSeconds = Math.max(0, Math.ceil((hit.resetAt.getTime() - Date.now()) / 1000));
+
+    c.header('RateLimit-Policy', `${options.limit};w=${windowSeconds}`);
+    c.header('RateLimit-Limit', String(options.limit));
+    c.header('RateLimit-Remaining', String(Math.max(0, options.limit - hit.count)));
+    c.header('RateLimit-Reset', String(resetSeconds));
+
+    if (hit.count > options.limit) {
+      c.header('Retry-After', String(resetSeconds));
+      return c.json({
+        success: false,
+        message: 'Too many requests, please try again later',
+      }, 429);
+    }
+
+    await next();
+  };
+};
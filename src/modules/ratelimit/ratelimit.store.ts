@@ -0,0 +1,87 @@
+import { eq, sql } from 'drizzle-orm';
+import { db } from '../../db/db.js';
+import { rateLimits } from '../../db/schema.js';
+
+export interface RateLimitHit {
+  count: number;
+  resetAt: Date;
+}
+
+export interface RateLimitStore {
+  // Count one hit against `key` in a fixed window of `windowMs`
+  increment(key: string, windowMs: number): Promise<RateLimitHit>;
+  reset(key: string): Promise<void>;
+}
+
+// Per-process counters; fine for a single instance and for local development
+export class MemoryStore implements RateLimitStore {
+  private readonly hits = new Map<string, RateLimitHit>();
+
+  constructor(cleanupIntervalMs = 60_000) {
+    const timer = setInterval(() => this.prune(), cleanupIntervalMs);
+    timer.unref();
+  }
+
+  async increment(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = Date.now();
+    const existing = this.hits.get(key);
+
+    if (!existing || existing.resetAt.getTime() <= now) {
+      const hit = { count: 1, resetAt: new Date(now + windowMs) };
+      this.hits.set(key, hit);
+      return hit;
+    }
+
+    existing.count += 1;
+    return existing;
+  }
+
+  async reset(key: string): Promise<void> {
+    this.hits.delete(key);
+  }
+
+  private prune() {
+    const now = Date.now();
+    for (const [key, hit] of this.hits) {
+      if (hit.resetAt.getTime() <= now) this.hits.delete(key);
+    }
+  }
+}
+
+// Shared counters so limits hold across instances and restarts
+export class PostgresStore implements RateLimitStore {
+  async increment(key: string, windowMs: number): Promise<RateLimitHit> {
+    const resetAt = new Date(Date.now() + windowMs);
+
+    const [hit] = await db
+      .insert(rateLimits)
+      .values({ key, count: 1, resetAt })
+      .onConflictDoUpdate({
+        target: rateLimits.key,
+        set: {
+          count: sql`CASE WHEN ${rateLimits.resetAt} <= now() THEN 1 ELSE ${rateLimits.count} + 1 END`,
+          resetAt: sql`CASE WHEN ${rateLimits.resetAt} <= now() THEN excluded.reset_at ELSE ${rateLimits.resetAt} END`,
+        },
+      })
+      .returning({ count: rateLimits.count, resetAt: rateLimits.resetAt });
+
+    if (!hit) {
+      throw new Error('Failed to record rate limit hit');
+    }
+
+    return hit;
+  }
+
+  async reset(key: string): Promise<void> {
+    await db.delete(rateLimits).where(eq(rateLimits.key, key));
+  }
+}
+
+let defaultStore: RateLimitStore | null = null;
+
+export function getDefaultStore(): RateLimitStore {
+  if (!defaultStore) {
+    defaultStore = process.env.RATE_LIMIT_STORE === 'postgres' ? new PostgresStore() : new MemoryStore();
+  }
+  return defaultStore;
+}
@@ -0,0 +1,181 @@
+import { resumeAnalysisSchema } from "../../validator.js";
+import type { AnalysisStatus, ResumeAnalysis } from "../../types.js";
+
+export interface ParsedAnalysis {
+  analysis: ResumeAnalysis | null;
+  status: AnalysisStatus;
+  // Human-readable problems, fed back to the model on the repair pass
+  errors: string[];
+}
+
+/**
+ * Pull the JSON object out of a model reply. Reasoning models wrap their
+ * answer in <think> blocks, and many models add ```json fences or prose
+ * around the object despite being told not to.
+ */
+export function extractJson(content: string): unknown {
+  const withoutReasoning = content.replace(/<think>[\s\S]*?<\/think>/gi, "").trim();
+
+  const candidates: string[] = [];
+  for (const match of withoutReasoning.matchAll(/```(?:json)?\s*([\s\S]*?)```/gi)) {
+    if (match[1]) candidates.push(match[1].trim());
+  }
+  candidates.push(withoutReasoning);
+
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      const object = firstBalancedObject(candidate);
+      if (object) {
+        try {
+          return JSON.parse(object);
+        } catch {
+          // try the next candidate
+        }
+      }
+    }
+  }
+
+  throw new Error("No JSON object found in model output");
+}
+
+// Scan for the first top-level {...}, respecting strings so braces in values don't count
+function firstBalancedObject(text: string): string | null {
+  const start = text.indexOf("{");
+  if (start === -1) return null;
+
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === "\\") i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === "{") {
+      depth++;
+    } else if (char === "}" && --depth === 0) {
+      return text.slice(start, i + 1);
+    }
+  }
+  return null;
+}
+
+// "3 years", "5+", "2.5 yrs" -> number; undefined when no number is present
+export function coerceNumber(value: unknown): number | undefined {
+  if (typeof value === "number") return Number.isFinite(value) ? value : undefined;
+  if (typeof value !== "string") return undefined;
+  const match = /-?\d+(?:\.\d+)?/.exec(value.replace(/,/g, ""));
+  return match ? Number(match[0]) : undefined;
+}
+
+function coerceStringArray(value: unknown): unknown {
+  if (typeof value === "string") {
+    return value.split(/[,;\n]/).map((s) => s.trim()).filter(Boolean);
+  }
+  if (Array.isArray(value)) {
+    return value
+      .map((item) => (typeof item === "string" ? item.trim() : typeof item === "number" ? String(item) : item))
+      .filter((item) => item !== "");
+  }
+  return value;
+}
+
+// Normalise the shapes models commonly get slightly wrong before validating
+function coerce(raw: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = { ...raw };
+
+  for (const key of ["skills", "strengths", "improvements", "keywords"]) {
+    if (key in result) result[key] = coerceStringArray(result[key]);
+  }
+
+  if ("experience" in result) {
+    const experience = coerceNumber(result.experience);
+    if (experience !== undefined) result.experience = experience;
+  }
+  if ("aiScore" in result) {
+    const score = coerceNumber(result.aiScore);
+    if (score !== undefined) result.aiScore = score;
+  }
+
+  if (Array.isArray(result.education)) {
+    result.education = result.education.map((entry) => {
+      if (!entry || typeof entry !== "object") return entry;
+      const education = { ...(entry as Record<string, unknown>) };
+      if (education.year === null || education.year === "") {
+        delete education.year;
+      } else if (typeof education.year === "string") {
+        // "2015 - 2019" -> graduation year
+        const years = education.year.match(/\d{4}/g);
+        education.year = years ? Number(years[years.length - 1]) : coerceNumber(education.year);
+      }
+      if (education.institution === undefined || education.institution === null) education.institution = "";
+      return education;
+    });
+  }
+
+  if (typeof result.summary !== "string" && result.summary != null) {
+    result.summary = String(result.summary);
+  }
+
+  // Models use null for "unknown"; the schema expects the key to be absent
+  for (const [key, value] of Object.entries(result)) {
+    if (value === null) delete result[key];
+  }
+
+  return result;
+}
+
+/**
+ * Validate model output against resumeAnalysisSchema. A fully valid object is
+ * "ok"; otherwise each field is validated on its own, invalid optional fields
+ * are dropped and missing required ones defaulted, giving "partial". Output
+ * with no usable fields at all is "failed".
+ */
+export function parseAnalysis(content: string): ParsedAnalysis {
+  let raw: unknown;
+  try {
+    raw = extractJson(content);
+  } catch (err) {
+    return { analysis: null, status: "failed", errors: [(err as Error).message] };
+  }
+
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return { analysis: null, status: "failed", errors: ["Expected a JSON object"] };
+  }
+
+  const coerced = coerce(raw as Record<string, unknown>);
+  const strict = resumeAnalysisSchema.safeParse(coerced);
+  if (strict.success) {
+    return { analysis: strict.data, status: "ok", errors: [] };
+  }
+
+  const errors = strict.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`);
+  const salvaged: Record<string, unknown> = {};
+  const shape = resumeAnalysisSchema.shape;
+
+  for (const key of Object.keys(shape) as (keyof typeof shape)[]) {
+    if (!(key in coerced)) continue;
+    const field = shape[key].safeParse(coerced[key]);
+    if (field.success) salvaged[key] = field.data;
+  }
+
+  // Keep the well-formed education entries rather than losing the whole list
+  if (!salvaged.education && Array.isArray(coerced.education)) {
+    const entrySchema = shape.education.unwrap().element;
+    const entries = coerced.education.flatMap((entry) => {
+      const parsed = entrySchema.safeParse(entry);
+      return parsed.success ? [parsed.data] : [];
+    });
+    if (entries.length > 0) salvaged.education = entries;
+  }
+
+  if (Object.keys(salvaged).length === 0) {
+    return { analysis: null, status: "failed", errors };
+  }
+
+  const analysis = resumeAnalysisSchema.parse({ skills: [], experience: 0, ...salvaged });
+  return { analysis, status: "partial", errors };
+}
@@ -0,0 +1,214 @@
+import type { AtsBreakdown, AtsCheck, AtsCheckId, ExtractionMethod, ResumeAnalysis } from "../../types.js";
+import { BULLET, DATE_RANGE, parseResumeText } from "./heuristic.parser.js";
+import type { SectionName } from "./heuristic.parser.js";
+
+export const ATS_SCORE_VERSION = 1;
+
+export interface AtsInput {
+  // Text as extracted from the file, before any clean-up
+  text: string;
+  extractionMethod: ExtractionMethod | null;
+  extractionConfidence: number | null;
+}
+
+const clamp = (ratio: number) => Math.min(Math.max(ratio, 0), 1);
+const percent = (ratio: number) => `${Math.round(ratio * 100)}%`;
+
+function check(id: AtsCheckId, label: string, maxPoints: number, ratio: number, detail: string): AtsCheck {
+  return { id, label, points: Math.round(maxPoints * clamp(ratio)), maxPoints, detail };
+}
+
+// Glyphs the reader could not map to characters: "(cid:123)" codes, replacement, private-use and control characters
+const GARBLED = /\(cid:\d+\)|[\uFFFD\uE000-\uF8FF\u0000-\u0008]/g;
+
+function parseableText({ text, extractionMethod, extractionConfidence }: AtsInput): AtsCheck {
+  const visible = text.replace(/\s/g, "");
+  if (visible.length < 200) {
+    return check("parseable_text", "Parseable text", 20, 0, "Little or no text could be read from the file");
+  }
+  if (extractionMethod === "ocr") {
+    const confidence = extractionConfidence ?? 0;
+    return check(
+      "parseable_text",
+      "Parseable text",
+      20,
+      0.3 * confidence,
+      `Text was only recovered by OCR (${percent(confidence)} confidence); most ATS cannot read image-only files`
+    );
+  }
+
+  const garbled = [...visible.matchAll(GARBLED)].reduce((total, match) => total + match[0].length, 0);
+  const readable = 1 - garbled / visible.length;
+  return check("parseable_text", "Parseable text", 20, (readable - 0.8) / 0.2, `${percent(readable)} of the text is readable`);
+}
+
+const SECTION_WEIGHTS: [SectionName, number][] = [
+  ["experience", 4],
+  ["education", 4],
+  ["skills", 4],
+  ["summary", 3],
+];
+
+function sectionHeadings(sections: Partial<Record<SectionName, string>>): AtsCheck {
+  const missing = SECTION_WEIGHTS.filter(([name]) => sections[name] === undefined);
+  const found = SECTION_WEIGHTS.reduce((total, [name, weight]) => total + (missing.some(([m]) => m === name) ? 0 : weight), 0);
+  return check(
+    "section_headings",
+    "Standard section headings",
+    15,
+    found / 15,
+    missing.length === 0
+      ? "Summary, experience, education and skills headings found"
+      : `Missing standard headings: ${missing.map(([name]) => name).join(", ")}`
+  );
+}
+
+function contactInfo(contact: ReturnType<typeof parseResumeText>["contactInfo"]): AtsCheck {
+  const items: [string, boolean, number][] = [
+    ["email", Boolean(contact.email), 6],
+    ["phone", Boolean(contact.phone), 5],
+    ["name", Boolean(contact.name), 2],
+    ["profile link", Boolean(contact.linkedin || contact.github || contact.website), 2],
+  ];
+  const missing = items.filter(([, present]) => !present).map(([name]) => name);
+  const points = items.reduce((total, [, present, weight]) => total + (present ? weight : 0), 0);
+  return check(
+    "contact_info",
+    "Contact information",
+    15,
+    points / 15,
+    missing.length === 0 ? "Name, email, phone and a profile link found" : `Not found: ${missing.join(", ")}`
+  );
+}
+
+type DateStyle = "month name" | "numeric" | "year only";
+
+function dateStyle(value: string): DateStyle | null {
+  if (/present|current|now|today|date/i.test(value)) return null;
+  if (/[a-z]/i.test(value)) return "month name";
+  return /[/.-]/.test(value) ? "numeric" : "year only";
+}
+
+function dateFormats(lines: string[]): AtsCheck {
+  const styles = lines.flatMap((line) => {
+    const match = DATE_RANGE.exec(line);
+    return match ? [dateStyle(match[1]!), dateStyle(match[2]!)].filter((style): style is DateStyle => style !== null) : [];
+  });
+  const distinct = [...new Set(styles)];
+
+  if (styles.length === 0) {
+    return check("date_formats", "Date formats", 10, 0, "No date ranges found for roles or studies");
+  }
+  if (distinct.length > 1) {
+    return check("date_formats", "Date formats", 10, 0.5, `Dates mix formats (${distinct.join(", ")}); use one throughout`);
+  }
+  if (distinct[0] === "year only") {
+    return check("date_formats", "Date formats", 10, 0.6, "Dates give years only; add months, e.g. \"Mar 2021\"");
+  }
+  return check("date_formats", "Date formats", 10, 1, `Dates consistently use ${distinct[0]} format`);
+}
+
+// Lines describing roles: the experience section without the title/date lines
+function achievementLines(sections: Partial<Record<SectionName, string>>): { lines: string[]; bullets: string[] } {
+  const lines = (sections.experience ?? "").split("\n").filter((line) => line && !DATE_RANGE.test(line));
+  const bullets = lines.filter((line) => BULLET.test(line) && line.replace(BULLET, "").length > 0);
+  return { lines, bullets };
+}
+
+function bulletDensity({ lines, bullets }: ReturnType<typeof achievementLines>): AtsCheck {
+  if (lines.length === 0) {
+    return check("bullet_density", "Bullet points", 10, 0, "No experience section to check for bullet points");
+  }
+  const ratio = bullets.length / lines.length;
+  return check(
+    "bullet_density",
+    "Bullet points",
+    10,
+    ratio / 0.5,
+    `${bullets.length} of ${lines.length} experience lines are bullet points`
+  );
+}
+
+// A number left once dates and years are removed: "cut costs 30%", "$2M", "team of 8"
+const isQuantified = (line: string) => /\d/.test(line.replace(DATE_RANGE, "").replace(/\b(19|20)\d{2}\b/g, ""));
+
+function quantifiedAchievements({ lines, bullets }: ReturnType<typeof achievementLines>): AtsCheck {
+  const achievements = bullets.length > 0 ? bullets : lines;
+  if (achievements.length === 0) {
+    return check("quantified_achievements", "Quantified achievements", 15, 0, "No achievements found to check");
+  }
+  const quantified = achievements.filter(isQuantified).length;
+  // Roughly a third of the achievements should carry a number, capped at five
+  const target = Math.max(1, Math.min(5, Math.ceil(achievements.length * 0.3)));
+  return check(
+    "quantified_achievements",
+    "Quantified achievements",
+    15,
+    quantified / target,
+    `${quantified} of ${achievements.length} achievements include a number`
+  );
+}
+
+// Rows of three or more cells separated by tabs or wide gaps, or pipe tables, are what tables and columns extract to
+const TABLE_ROW = /\S(?:\t+| {3,})\S.*\S(?:\t+| {3,})\S|^\s*\|.*\|\s*$/;
+
+function layout(rawLines: string[]): AtsCheck {
+  if (rawLines.length === 0) {
+    return check("layout", "Tables and columns", 10, 0, "No text to check the layout of");
+  }
+  const rows = rawLines.filter((line) => TABLE_ROW.test(line)).length;
+  const ratio = rows / rawLines.length;
+  if (ratio <= 0.05) {
+    return check("layout", "Tables and columns", 10, 1, "No tables or multi-column layout detected");
+  }
+  return check(
+    "layout",
+    "Tables and columns",
+    10,
+    ratio <= 0.15 ? 0.5 : 0,
+    `${rows} lines look like table rows or side-by-side columns, which ATS often read out of order`
+  );
+}
+
+function length(words: number): AtsCheck {
+  if (words >= 300 && words <= 1200) {
+    return check("length", "Length", 5, 1, `${words} words, about one to two pages`);
+  }
+  if (words >= 150 && words <= 1800) {
+    return check("length", "Length", 5, 0.6, `${words} words; aim for 300 to 1200`);
+  }
+  return check("length", "Length", 5, 0, `${words} words is too ${words < 150 ? "short" : "long"}; aim for 300 to 1200`);
+}
+
+/**
+ * Deterministic ATS-readiness score out of 100, with the points behind it.
+ * Only looks at the extracted text and how it was obtained, so the same
+ * file always gets the same score; nothing here calls the LLM.
+ */
+export function scoreAts(input: AtsInput): { score: number; breakdown: AtsBreakdown } {
+  const rawLines = input.text.replace(/\r\n?/g, "\n").split("\n").filter((line) => line.trim());
+  const parsed = parseResumeText(input.text);
+  const lines = rawLines.map((line) => line.replace(/\s+/g, " ").trim());
+  const achievements = achievementLines(parsed.sections);
+
+  const checks = [
+    parseableText(input),
+    sectionHeadings(parsed.sections),
+    contactInfo(parsed.contactInfo),
+    dateFormats(lines),
+    bulletDensity(achievements),
+    quantifiedAchievements(achievements),
+    layout(rawLines),
+    length(input.text.split(/\s+/).filter(Boolean).length),
+  ];
+
+  return {
+    score: checks.reduce((total, c) => total + c.points, 0),
+    breakdown: { version: ATS_SCORE_VERSION, checks },
+  };
+}
+
+export function withAtsScore(analysis: ResumeAnalysis, input: AtsInput): ResumeAnalysis {
+  const { score, breakdown } = scoreAts(input);
+  return { ...analysis, aiScore: score, atsBreakdown: breakdown };
+}
@@ -0,0 +1,19 @@
+import crypto from "node:crypto";
+
+export const sha256 = (data: Buffer | string) => crypto.createHash("sha256").update(data).digest("hex");
+
+/**
+ * Text reduced to what matters for "same resume": Unicode-normalised,
+ * case-folded, with whitespace and invisible characters collapsed, so a
+ * re-export of the same document hashes the same.
+ */
+export function normalizeForHash(text: string): string {
+  return text
+    .normalize("NFKC")
+    .replace(/[\u200b-\u200d\u2060\ufeff\u00ad]/g, "")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export const textHash = (text: string) => sha256(normalizeForHash(text));
@@ -0,0 +1,102 @@
+import type { Context } from "hono";
+import { resumeDiffQuerySchema, setCurrentVersionSchema, uuidSchema } from "../../types.js";
+import { ownerScope } from "../auth/auth.middleware.js";
+import { AuditService } from "../audit/audit.service.js";
+import { ResumeDocumentService } from "./document.service.js";
+
+export class ResumeDocumentController {
+  static async list(ctx: Context) {
+    const userId = ctx.get("userId") as string;
+    const documents = await ResumeDocumentService.listDocuments(userId);
+    await AuditService.recordRequest(ctx, { action: "resume.listed", targetType: "user", targetId: userId, metadata: { via: "documents" } });
+
+    return ctx.json({ success: true, data: documents });
+  }
+
+  static async getVersions(ctx: Context) {
+    const { documentId } = ctx.req.param();
+    const parsed = uuidSchema.safeParse(documentId);
+
+    if (!parsed.success) {
+      return ctx.json({ success: false, message: "Invalid document ID", errors: parsed.error.format() }, 400);
+    }
+
+    const document = await ResumeDocumentService.getVersions(documentId, ownerScope(ctx));
+    if (!document) {
+      return ctx.json({ success: false, message: "Resume document not found" }, 404);
+    }
+    await AuditService.recordRequest(ctx, {
+      action: "resume.read",
+      targetType: "resume_document",
+      targetId: document.id,
+      metadata: { ownerId: document.userId, via: "versions" },
+    });
+
+    return ctx.json({ success: true, data: document });
+  }
+
+  static async setCurrentVersion(ctx: Context) {
+    const { documentId } = ctx.req.param();
+    const parsedId = uuidSchema.safeParse(documentId);
+    const body = await ctx.req.json().catch(() => null);
+    const parsedBody = setCurrentVersionSchema.safeParse(body);
+
+    if (!parsedId.success || !parsedBody.success) {
+      return ctx.json(
+        {
+          success: false,
+          message: "Validation error",
+          errors: { ...(parsedId.error?.format() ?? {}), ...(parsedBody.error?.format() ?? {}) },
+        },
+        400
+      );
+    }
+
+    const document = await ResumeDocumentService.setCurrentVersion(documentId, ownerScope(ctx), parsedBody.data.version);
+    if (!document) {
+      return ctx.json({ success: false, message: "Resume document or version not found" }, 404);
+    }
+    await AuditService.recordRequest(ctx, {
+      action: "resume.updated",
+      targetType: "resume_document",
+      targetId: document.id,
+      metadata: { ownerId: document.userId, currentVersion: parsedBody.data.version },
+    });
+
+    return ctx.json({ success: true, message: `Version ${parsedBody.data.version} is now current`, data: document });
+  }
+
+  /**
+   * Compare two versions: ?from=&to= version numbers, defaulting to the
+   * current version and the one before it.
+   */
+  static async diff(ctx: Context) {
+    const { documentId } = ctx.req.param();
+    const parsedId = uuidSchema.safeParse(documentId);
+    const parsedQuery = resumeDiffQuerySchema.safeParse(ctx.req.query());
+
+    if (!parsedId.success || !parsedQuery.success) {
+      return ctx.json(
+        {
+          success: false,
+          message: "Validation error",
+          errors: { ...(parsedId.error?.format() ?? {}), ...(parsedQuery.error?.format() ?? {}) },
+        },
+        400
+      );
+    }
+
+    const diff = await ResumeDocumentService.diff(documentId, ownerScope(ctx), parsedQuery.data);
+    if (!diff) {
+      return ctx.json({ success: false, message: "Resume document or versions not found" }, 404);
+    }
+    await AuditService.recordRequest(ctx, {
+      action: "resume.read",
+      targetType: "resume_document",
+      targetId: documentId,
+      metadata: { via: "diff", from: diff.from.version, to: diff.to.version },
+    });
+
+    return ctx.json({ success: true, data: diff });
+  }
+}
@@ -0,0 +1,190 @@
+import { and, asc, desc, eq, inArray, max } from "drizzle-orm";
+import { db } from "../../db/db.js";
+import { resumeDocuments, resumes } from "../../db/schema.js";
+import type { Resume, ResumeDiff, ResumeDocument, ResumeDocumentWithVersions, ResumeVersionSummary } from "../../types.js";
+import { diffResumes } from "./resume.diff.js";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type ResumeRow = typeof resumes.$inferSelect;
+type VersionValues = Omit<typeof resumes.$inferInsert, "userId" | "documentId" | "version">;
+
+export class ResumeDocumentNotFoundError extends Error {
+  constructor(readonly documentId: string) {
+    super("Resume document not found");
+    this.name = "ResumeDocumentNotFoundError";
+  }
+}
+
+/**
+ * Add a resume row as the next version of a document and make it current.
+ * Without `documentId` a new document is started. The document row is
+ * locked so concurrent uploads get distinct version numbers.
+ */
+export async function appendVersion(
+  tx: Transaction,
+  params: { userId: string; documentId?: string | null; title?: string | null; values: VersionValues }
+): Promise<ResumeRow> {
+  let documentId = params.documentId;
+
+  if (documentId) {
+    const [document] = await tx
+      .select({ id: resumeDocuments.id })
+      .from(resumeDocuments)
+      .where(and(eq(resumeDocuments.id, documentId), eq(resumeDocuments.userId, params.userId)))
+      .for("update");
+    if (!document) throw new ResumeDocumentNotFoundError(documentId);
+  } else {
+    const [document] = await tx
+      .insert(resumeDocuments)
+      .values({ userId: params.userId, title: params.title ?? null })
+      .returning({ id: resumeDocuments.id });
+    documentId = document.id;
+  }
+
+  const [{ latest }] = await tx
+    .select({ latest: max(resumes.version) })
+    .from(resumes)
+    .where(eq(resumes.documentId, documentId));
+
+  const [created] = await tx
+    .insert(resumes)
+    .values({ ...params.values, userId: params.userId, documentId, version: (latest ?? 0) + 1 })
+    .returning();
+  if (!created) throw new Error("Failed to create resume version");
+
+  await tx
+    .update(resumeDocuments)
+    .set({ currentResumeId: created.id, updatedAt: new Date() })
+    .where(eq(resumeDocuments.id, documentId));
+
+  return created;
+}
+
+/**
+ * The document a resume belongs to, creating a single-version one for rows
+ * uploaded before versioning that `migrate:documents` has not reached yet.
+ */
+export async function ensureDocument(tx: Transaction, resume: ResumeRow): Promise<string> {
+  if (resume.documentId) return resume.documentId;
+
+  const [document] = await tx
+    .insert(resumeDocuments)
+    .values({ userId: resume.userId, title: resume.originalFileName, currentResumeId: resume.id, createdAt: resume.createdAt ?? undefined })
+    .returning({ id: resumeDocuments.id });
+  await tx.update(resumes).set({ documentId: document.id, version: 1 }).where(eq(resumes.id, resume.id));
+
+  return document.id;
+}
+
+const summarize = (row: ResumeRow, currentResumeId: string | null): ResumeVersionSummary => ({
+  id: row.id,
+  version: row.version,
+  isCurrent: row.id === currentResumeId,
+  originalFileName: row.originalFileName,
+  processingStatus: row.processingStatus,
+  analysisStatus: row.analysisStatus,
+  aiScore: (row.analysis as Resume["analysis"])?.aiScore ?? null,
+  createdAt: row.createdAt,
+});
+
+export class ResumeDocumentService {
+  /**
+   * Fetch a document. When `userId` is given the lookup is scoped to that
+   * owner, so another user's document is indistinguishable from a missing one.
+   */
+  static async getDocument(documentId: string, userId?: string): Promise<ResumeDocument | null> {
+    const document = await db.query.resumeDocuments.findFirst({
+      where: userId
+        ? and(eq(resumeDocuments.id, documentId), eq(resumeDocuments.userId, userId))
+        : eq(resumeDocuments.id, documentId),
+    });
+    return document ?? null;
+  }
+
+  static async listDocuments(userId: string): Promise<ResumeDocumentWithVersions[]> {
+    const documents = await db
+      .select()
+      .from(resumeDocuments)
+      .where(eq(resumeDocuments.userId, userId))
+      .orderBy(desc(resumeDocuments.updatedAt));
+    if (documents.length === 0) return [];
+
+    const versions = await db
+      .select()
+      .from(resumes)
+      .where(inArray(resumes.documentId, documents.map((d) => d.id)))
+      .orderBy(desc(resumes.version));
+
+    return documents.map((document) => ({
+      ...document,
+      versions: versions
+        .filter((row) => row.documentId === document.id)
+        .map((row) => summarize(row, document.currentResumeId)),
+    }));
+  }
+
+  static async getVersions(documentId: string, userId?: string): Promise<ResumeDocumentWithVersions | null> {
+    const document = await this.getDocument(documentId, userId);
+    if (!document) return null;
+
+    const versions = await db
+      .select()
+      .from(resumes)
+      .where(eq(resumes.documentId, documentId))
+      .orderBy(desc(resumes.version));
+
+    return { ...document, versions: versions.map((row) => summarize(row, document.currentResumeId)) };
+  }
+
+  static async getVersion(documentId: string, version: number): Promise<Resume | null> {
+    const row = await db.query.resumes.findFirst({
+      where: and(eq(resumes.documentId, documentId), eq(resumes.version, version)),
+    });
+    return (row as Resume | undefined) ?? null;
+  }
+
+  // Point the document at another of its versions, e.g. to roll back
+  static async setCurrentVersion(documentId: string, userId: string | undefined, version: number): Promise<ResumeDocument | null> {
+    const document = await this.getDocument(documentId, userId);
+    if (!document) return null;
+
+    const target = await this.getVersion(documentId, version);
+    if (!target) return null;
+
+    const [updated] = await db
+      .update(resumeDocuments)
+      .set({ currentResumeId: target.id, updatedAt: new Date() })
+      .where(eq(resumeDocuments.id, documentId))
+      .returning();
+    return updated ?? null;
+  }
+
+  /**
+   * Diff two versions of a document. `to` defaults to the current version
+   * and `from` to the version before `to`. Returns null when the document or
+   * either version does not exist.
+   */
+  static async diff(
+    documentId: string,
+    userId: string | undefined,
+    versions: { from?: number; to?: number } = {}
+  ): Promise<ResumeDiff | null> {
+    const document = await this.getDocument(documentId, userId);
+    if (!document) return null;
+
+    const rows = await db
+      .select({ id: resumes.id, version: resumes.version })
+      .from(resumes)
+      .where(eq(resumes.documentId, documentId))
+      .orderBy(asc(resumes.version));
+
+    const toVersion = versions.to ?? rows.find((row) => row.id === document.currentResumeId)?.version ?? rows.at(-1)?.version;
+    const fromVersion = versions.from ?? rows.filter((row) => toVersion !== undefined && row.version < toVersion).at(-1)?.version;
+    if (toVersion === undefined || fromVersion === undefined) return null;
+
+    const [from, to] = await Promise.all([this.getVersion(documentId, fromVersion), this.getVersion(documentId, toVersion)]);
+    if (!from || !to) return null;
+
+    return { documentId, ...diffResumes(from, to) };
+  }
+}
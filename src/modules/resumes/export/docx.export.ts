@@ -0,0 +1,111 @@
+import JSZip from "jszip";
+import { contactLine, educationLine, formatPeriod } from "./export.data.js";
+import type { ResumeExportData } from "./export.data.js";
+
+// A4 with 2cm margins, in twentieths of a point
+const PAGE = { width: 11906, height: 16838, margin: 1134 };
+const TEXT_WIDTH = PAGE.width - 2 * PAGE.margin;
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+interface RunOptions {
+  bold?: boolean;
+  color?: string;
+}
+
+const run = (text: string, options: RunOptions = {}) => {
+  const props = [options.bold ? "<w:b/>" : "", options.color ? `<w:color w:val="${options.color}"/>` : ""].join("");
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ""}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+};
+
+const paragraph = (runs: string, props = "") => `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ""}${runs}</w:p>`;
+
+const styled = (style: string, text: string) => paragraph(run(text), `<w:pStyle w:val="${style}"/>`);
+
+// Bullet drawn as text with a hanging indent, so no numbering definitions are needed
+const bullet = (text: string) => paragraph(`${run("•")}<w:r><w:tab/></w:r>${run(text)}`, `<w:ind w:left="360" w:hanging="360"/>`);
+
+// Role on the left, dates against the right margin
+const splitLine = (left: string, right: string) =>
+  paragraph(
+    `${run(left, { bold: true })}<w:r><w:tab/></w:r>${run(right, { color: "555555" })}`,
+    `<w:tabs><w:tab w:val="right" w:pos="${TEXT_WIDTH}"/></w:tabs><w:spacing w:after="40"/>`
+  );
+
+function documentXml(data: ResumeExportData): string {
+  const parts: string[] = [styled("Title", data.name), styled("Contact", contactLine(data.contact).join("  |  "))];
+  const section = (title: string, content: string[]) => parts.push(styled("Heading1", title), ...content);
+
+  if (data.summary) section("Summary", [paragraph(run(data.summary))]);
+  if (data.work.length) {
+    section(
+      "Experience",
+      data.work.map((entry) => splitLine(entry.company ? `${entry.position}, ${entry.company}` : entry.position, formatPeriod(entry)))
+    );
+  } else if (data.experienceYears) {
+    section("Experience", [paragraph(run(`${data.experienceYears} years of professional experience`))]);
+  }
+  if (data.education.length) section("Education", data.education.map((entry) => bullet(educationLine(entry))));
+  if (data.skills.length) section("Skills", [paragraph(run(data.skills.join(", ")))]);
+  if (data.projects.length) section("Projects", data.projects.map(bullet));
+  if (data.certifications.length) section("Certifications", data.certifications.map(bullet));
+  if (data.strengths.length) section("Strengths", data.strengths.map(bullet));
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:body>${parts.join("")}<w:sectPr><w:pgSz w:w="${PAGE.width}" w:h="${PAGE.height}"/><w:pgMar w:top="${PAGE.margin}" w:right="${PAGE.margin}" w:bottom="${PAGE.margin}" w:left="${PAGE.margin}" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr></w:body>
+</w:document>`;
+}
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/><w:sz w:val="21"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="80" w:line="264" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/></w:style>
+<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="40"/></w:pPr><w:rPr><w:b/><w:sz w:val="44"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:customStyle="1" w:styleId="Contact"><w:name w:val="Contact"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="240"/></w:pPr><w:rPr><w:color w:val="555555"/><w:sz w:val="19"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="240" w:after="80"/><w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="1D4ED8"/></w:pBdr><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:caps/><w:color w:val="1D4ED8"/><w:sz w:val="24"/></w:rPr></w:style>
+</w:styles>`;
+
+const CONTENT_TYPES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+</Types>`;
+
+const ROOT_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+</Relationships>`;
+
+const DOCUMENT_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+const coreXml = (data: ResumeExportData) => `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+<dc:title>${escapeXml(`${data.name} – Resume`)}</dc:title>
+<dc:creator>${escapeXml(data.name)}</dc:creator>
+<dcterms:modified xsi:type="dcterms:W3CDTF">${data.updatedAt.toISOString()}</dcterms:modified>
+</cp:coreProperties>`;
+
+/**
+ * Write the resume as a Word document. The WordprocessingML is generated
+ * directly: a handful of paragraphs and styles needs no document library.
+ */
+export async function generateDocx(data: ResumeExportData): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file("[Content_Types].xml", CONTENT_TYPES_XML);
+  zip.file("_rels/.rels", ROOT_RELS_XML);
+  zip.file("word/_rels/document.xml.rels", DOCUMENT_RELS_XML);
+  zip.file("word/document.xml", documentXml(data));
+  zip.file("word/styles.xml", STYLES_XML);
+  zip.file("docProps/core.xml", coreXml(data));
+
+  return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+}
@@ -0,0 +1,91 @@
+import type { ContactInfo, Education, Resume, UserProfile } from "../../../types.js";
+import { parseResumeText } from "../heuristic.parser.js";
+
+export interface WorkEntry {
+  position: string;
+  company?: string;
+  // "YYYY-MM"; end is null for a current role
+  start: string;
+  end: string | null;
+}
+
+// Everything an export template needs, gathered from the analysis, the extracted text and the owner's profile
+export interface ResumeExportData {
+  name: string;
+  contact: ContactInfo & { location?: string };
+  summary?: string;
+  skills: string[];
+  experienceYears?: number;
+  work: WorkEntry[];
+  education: Education[];
+  strengths: string[];
+  projects: string[];
+  certifications: string[];
+  updatedAt: Date;
+}
+
+// "Engineer at Acme", "Engineer | Acme", "Engineer, Acme"
+function splitTitle(title: string): Pick<WorkEntry, "position" | "company"> {
+  const match = /^(.+?)\s+(?:at|@)\s+(.+)$/i.exec(title) ?? /^(.+?)\s*[|,–—]\s*(.+)$/.exec(title);
+  return match ? { position: match[1].trim(), company: match[2].trim() } : { position: title };
+}
+
+const nonEmpty = (value?: string | null) => (value && value.trim() ? value.trim() : undefined);
+
+/**
+ * Combine what the resume says with the owner's profile. The resume's own
+ * contact details win, since that is what the user chose to show; the
+ * profile fills the gaps. Employment and projects come from the extracted
+ * text as the analysis does not keep them.
+ */
+export function buildExportData(resume: Resume, profile: UserProfile | null): ResumeExportData {
+  const analysis = resume.analysis;
+  const parsed = resume.resumeText ? parseResumeText(resume.resumeText) : null;
+  const fromResume = analysis?.contactInfo ?? parsed?.contactInfo ?? {};
+
+  return {
+    name: nonEmpty(fromResume.name) ?? nonEmpty(profile?.name) ?? nonEmpty(profile?.email) ?? "Resume",
+    contact: {
+      email: nonEmpty(fromResume.email) ?? nonEmpty(profile?.email),
+      phone: nonEmpty(fromResume.phone) ?? nonEmpty(profile?.phone),
+      location: nonEmpty(profile?.location),
+      linkedin: nonEmpty(fromResume.linkedin) ?? nonEmpty(profile?.linkedin),
+      github: nonEmpty(fromResume.github) ?? nonEmpty(profile?.github),
+      website: nonEmpty(fromResume.website) ?? nonEmpty(profile?.website),
+    },
+    summary: nonEmpty(analysis?.summary),
+    skills: analysis?.skills ?? parsed?.skills ?? [],
+    experienceYears: analysis?.experience ?? parsed?.experienceYears,
+    work: (parsed?.employment ?? [])
+      .filter((entry) => entry.title)
+      .map((entry) => ({ ...splitTitle(entry.title), start: entry.start, end: entry.end })),
+    education: analysis?.education ?? parsed?.education ?? [],
+    strengths: analysis?.strengths ?? [],
+    projects: parsed?.projects ?? [],
+    certifications: parsed?.certifications ?? [],
+    updatedAt: resume.createdAt ?? new Date(),
+  };
+}
+
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+// "2019-03" → "Mar 2019"
+export function formatMonth(value: string | null): string {
+  if (!value) return "Present";
+  const [year, month] = value.split("-");
+  return `${MONTHS[Number(month) - 1] ?? ""} ${year}`.trim();
+}
+
+export const formatPeriod = (entry: WorkEntry) => `${formatMonth(entry.start)} – ${formatMonth(entry.end)}`;
+
+// Contact details in display order, as they appear on a header line
+export function contactLine(contact: ResumeExportData["contact"]): string[] {
+  return [contact.email, contact.phone, contact.location, contact.linkedin, contact.github, contact.website].filter(
+    (value): value is string => Boolean(value)
+  );
+}
+
+export function educationLine(entry: Education): string {
+  const parts = [entry.degree, entry.institution].filter(Boolean).join(", ");
+  return entry.year ? `${parts} (${entry.year})` : parts;
+}
@@ -0,0 +1,62 @@
+import type { ResumeExportData } from "./export.data.js";
+
+// https://jsonresume.org/schema — only the parts we have data for
+export interface JsonResume {
+  $schema: string;
+  basics: {
+    name: string;
+    email?: string;
+    phone?: string;
+    url?: string;
+    summary?: string;
+    location?: { address: string };
+    profiles: { network: string; url: string }[];
+  };
+  work: { name?: string; position: string; startDate: string; endDate?: string }[];
+  education: { institution: string; studyType?: string; area?: string; endDate?: string; score?: string }[];
+  skills: { name: string }[];
+  projects: { name: string }[];
+  certificates: { name: string }[];
+  meta: { version: string; lastModified: string };
+}
+
+export const JSON_RESUME_SCHEMA = "https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json";
+
+const profileUrl = (value: string) => (/^https?:\/\//i.test(value) ? value : `https://${value}`);
+
+export function toJsonResume(data: ResumeExportData): JsonResume {
+  const { contact } = data;
+  const profiles = [
+    contact.linkedin && { network: "LinkedIn", url: profileUrl(contact.linkedin) },
+    contact.github && { network: "GitHub", url: profileUrl(contact.github) },
+  ].filter((profile): profile is { network: string; url: string } => Boolean(profile));
+
+  return {
+    $schema: JSON_RESUME_SCHEMA,
+    basics: {
+      name: data.name,
+      email: contact.email,
+      phone: contact.phone,
+      url: contact.website ? profileUrl(contact.website) : undefined,
+      summary: data.summary,
+      location: contact.location ? { address: contact.location } : undefined,
+      profiles,
+    },
+    work: data.work.map((entry) => ({
+      name: entry.company,
+      position: entry.position,
+      startDate: entry.start,
+      endDate: entry.end ?? undefined,
+    })),
+    education: data.education.map((entry) => ({
+      institution: entry.institution,
+      studyType: entry.degree,
+      endDate: entry.year ? String(entry.year) : undefined,
+      score: entry.gpa !== undefined ? String(entry.gpa) : undefined,
+    })),
+    skills: data.skills.map((name) => ({ name })),
+    projects: data.projects.map((name) => ({ name })),
+    certificates: data.certifications.map((name) => ({ name })),
+    meta: { version: "v1.0.0", lastModified: data.updatedAt.toISOString() },
+  };
+}
@@ -0,0 +1,176 @@
+import PDFDocument from "pdfkit";
+import { contactLine, educationLine, formatPeriod } from "./export.data.js";
+import type { ResumeExportData } from "./export.data.js";
+
+export const PDF_TEMPLATES = ["classic", "modern", "compact"] as const;
+export type PdfTemplate = (typeof PDF_TEMPLATES)[number];
+
+type Doc = PDFKit.PDFDocument;
+
+interface TemplateStyle {
+  font: string;
+  boldFont: string;
+  margin: number;
+  bodySize: number;
+  headingSize: number;
+  // Vertical space after each section, in lines
+  sectionGap: number;
+  accent: string;
+  muted: string;
+  header(doc: Doc, data: ResumeExportData, style: TemplateStyle): void;
+  heading(doc: Doc, title: string, style: TemplateStyle): void;
+  skills(doc: Doc, skills: string[], style: TemplateStyle): void;
+}
+
+const contentWidth = (doc: Doc) => doc.page.width - doc.page.margins.left - doc.page.margins.right;
+
+// Left text with right-aligned text on the same line, e.g. a role and its dates
+function splitLine(doc: Doc, left: string, right: string, style: TemplateStyle) {
+  const top = doc.y;
+  const x = doc.page.margins.left;
+  const rightWidth = 130;
+
+  doc.font(style.boldFont).fontSize(style.bodySize).fillColor("black").text(left, x, top, { width: contentWidth(doc) - rightWidth - 8 });
+  const bottom = doc.y;
+  doc.font(style.font).fillColor(style.muted).text(right, x, top, { width: contentWidth(doc), align: "right" });
+  doc.y = Math.max(bottom, doc.y);
+  doc.x = x;
+  doc.fillColor("black");
+}
+
+function bullets(doc: Doc, items: string[], style: TemplateStyle) {
+  doc.font(style.font).fontSize(style.bodySize).fillColor("black");
+  for (const item of items) doc.text(`•  ${item}`, { indent: 6 });
+}
+
+function body(doc: Doc, data: ResumeExportData, style: TemplateStyle) {
+  const section = (title: string, render: () => void) => {
+    style.heading(doc, title, style);
+    render();
+    doc.moveDown(style.sectionGap);
+  };
+
+  if (data.summary) {
+    section("Summary", () => doc.font(style.font).fontSize(style.bodySize).text(data.summary!, { align: "justify" }));
+  }
+
+  if (data.work.length) {
+    section("Experience", () => {
+      for (const entry of data.work) {
+        splitLine(doc, entry.company ? `${entry.position}, ${entry.company}` : entry.position, formatPeriod(entry), style);
+      }
+    });
+  } else if (data.experienceYears) {
+    section("Experience", () => doc.font(style.font).fontSize(style.bodySize).text(`${data.experienceYears} years of professional experience`));
+  }
+
+  if (data.education.length) section("Education", () => bullets(doc, data.education.map(educationLine), style));
+  if (data.skills.length) section("Skills", () => style.skills(doc, data.skills, style));
+  if (data.projects.length) section("Projects", () => bullets(doc, data.projects, style));
+  if (data.certifications.length) section("Certifications", () => bullets(doc, data.certifications, style));
+  if (data.strengths.length) section("Strengths", () => bullets(doc, data.strengths, style));
+}
+
+// Serif, centred header and ruled section headings
+const classic: TemplateStyle = {
+  font: "Times-Roman",
+  boldFont: "Times-Bold",
+  margin: 54,
+  bodySize: 11,
+  headingSize: 12,
+  sectionGap: 0.8,
+  accent: "black",
+  muted: "#444444",
+  header(doc, data, style) {
+    doc.font(style.boldFont).fontSize(22).text(data.name, { align: "center" });
+    doc.font(style.font).fontSize(10).fillColor(style.muted).text(contactLine(data.contact).join("  |  "), { align: "center" });
+    doc.fillColor("black").moveDown(1);
+  },
+  heading(doc, title, style) {
+    doc.font(style.boldFont).fontSize(style.headingSize).text(title.toUpperCase(), { characterSpacing: 1 });
+    const y = doc.y + 1;
+    doc.moveTo(doc.page.margins.left, y).lineTo(doc.page.width - doc.page.margins.right, y).lineWidth(0.75).stroke();
+    doc.moveDown(0.4);
+  },
+  skills(doc, skills, style) {
+    doc.font(style.font).fontSize(style.bodySize).text(skills.join(", "));
+  },
+};
+
+// Accent banner with the name, coloured headings
+const modern: TemplateStyle = {
+  font: "Helvetica",
+  boldFont: "Helvetica-Bold",
+  margin: 48,
+  bodySize: 10.5,
+  headingSize: 12,
+  sectionGap: 0.9,
+  accent: "#1d4ed8",
+  muted: "#555555",
+  header(doc, data, style) {
+    const bannerHeight = 92;
+    doc.rect(0, 0, doc.page.width, bannerHeight).fill(style.accent);
+    doc.fillColor("white").font(style.boldFont).fontSize(24).text(data.name, style.margin, 26, { width: contentWidth(doc) });
+    doc.font(style.font).fontSize(9.5).text(contactLine(data.contact).join("   ·   "), { width: contentWidth(doc) });
+    doc.fillColor("black");
+    doc.y = bannerHeight + 24;
+  },
+  heading(doc, title, style) {
+    const x = doc.page.margins.left;
+    doc.rect(x, doc.y + 2, 3, style.headingSize).fill(style.accent);
+    doc.fillColor(style.accent).font(style.boldFont).fontSize(style.headingSize).text(title, x + 10, doc.y);
+    doc.x = x;
+    doc.fillColor("black").moveDown(0.35);
+  },
+  skills(doc, skills, style) {
+    doc.font(style.font).fontSize(style.bodySize).text(skills.join("   ·   "), { lineGap: 3 });
+  },
+};
+
+// Small type and tight spacing to keep long histories on one page
+const compact: TemplateStyle = {
+  font: "Helvetica",
+  boldFont: "Helvetica-Bold",
+  margin: 36,
+  bodySize: 9,
+  headingSize: 9.5,
+  sectionGap: 0.4,
+  accent: "black",
+  muted: "#555555",
+  header(doc, data, style) {
+    doc.font(style.boldFont).fontSize(16).text(data.name);
+    doc.font(style.font).fontSize(8.5).fillColor(style.muted).text(contactLine(data.contact).join(" · "));
+    doc.fillColor("black").moveDown(0.5);
+  },
+  heading(doc, title, style) {
+    doc.font(style.boldFont).fontSize(style.headingSize).text(title.toUpperCase(), { characterSpacing: 0.5 });
+    doc.moveDown(0.15);
+  },
+  skills(doc, skills, style) {
+    doc.font(style.font).fontSize(style.bodySize).text(skills.join(", "));
+  },
+};
+
+const TEMPLATES: Record<PdfTemplate, TemplateStyle> = { classic, modern, compact };
+
+export async function generatePdf(data: ResumeExportData, template: PdfTemplate = "classic"): Promise<Buffer> {
+  const style = TEMPLATES[template];
+
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: "A4",
+      margin: style.margin,
+      info: { Title: `${data.name} – Resume`, Author: data.name },
+    });
+    const chunks: Buffer[] = [];
+
+    doc.on("data", (chunk) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    style.header(doc, data, style);
+    body(doc, data, style);
+
+    doc.end();
+  });
+}
@@ -0,0 +1,49 @@
+import type { Resume, UserProfile } from "../../../types.js";
+import { buildExportData } from "./export.data.js";
+import { generateDocx } from "./docx.export.js";
+import { toJsonResume } from "./json-resume.export.js";
+import { generatePdf } from "./pdf.export.js";
+import type { PdfTemplate } from "./pdf.export.js";
+
+export type ExportFormat = "pdf" | "docx" | "json";
+
+export interface ExportedResume {
+  body: Buffer;
+  contentType: string;
+  fileName: string;
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  pdf: "application/pdf",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  json: "application/json",
+};
+
+const slug = (name: string) =>
+  name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "") || "resume";
+
+export async function exportResume(
+  resume: Resume,
+  profile: UserProfile | null,
+  options: { format: ExportFormat; template: PdfTemplate }
+): Promise<ExportedResume> {
+  const data = buildExportData(resume, profile);
+
+  const body =
+    options.format === "docx"
+      ? await generateDocx(data)
+      : options.format === "json"
+        ? Buffer.from(JSON.stringify(toJsonResume(data), null, 2))
+        : await generatePdf(data, options.template);
+
+  return {
+    body,
+    contentType: CONTENT_TYPES[options.format],
+    fileName: `${slug(data.name)}-resume${options.format === "pdf" ? `-${options.template}` : ""}.${options.format}`,
+  };
+}
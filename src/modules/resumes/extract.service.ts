@@ -0,0 +1,20 @@
+import { detectFormat, formatForMimeType } from "./formats/format.registry.js";
+import { UnsupportedFormatError } from "./formats/format.types.js";
+import type { ExtractedText } from "./formats/format.types.js";
+
+export { detectFormat, supportedFormatLabels } from "./formats/format.registry.js";
+export { UnsupportedFormatError } from "./formats/format.types.js";
+export type { ExtractedText } from "./formats/format.types.js";
+
+/**
+ * Extract plain text using the format stored at upload. Resumes uploaded
+ * before detection existed have no stored type and are sniffed instead.
+ * Image-only PDFs and image uploads go through OCR.
+ */
+export async function extractTextFromBuffer(buffer: Buffer, mimeType?: string | null): Promise<ExtractedText> {
+  const format = mimeType ? formatForMimeType(mimeType) : await detectFormat(buffer);
+  if (!format) {
+    throw new UnsupportedFormatError();
+  }
+  return format.extract(buffer);
+}
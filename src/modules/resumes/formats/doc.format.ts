@@ -0,0 +1,19 @@
+import WordExtractor from "word-extractor";
+import { directText } from "./format.types.js";
+import type { ResumeFormat } from "./format.types.js";
+
+const OLE_SIGNATURE = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+// Excel and PowerPoint share the OLE container; only Word has this stream
+const WORD_STREAM = Buffer.from("WordDocument", "utf16le");
+
+// Legacy Word 97-2003 binary documents
+export const docFormat: ResumeFormat = {
+  id: "doc",
+  mimeType: "application/msword",
+  label: "DOC",
+  detect: (buffer) => buffer.subarray(0, 8).equals(OLE_SIGNATURE) && buffer.includes(WORD_STREAM),
+  async extract(buffer) {
+    const document = await new WordExtractor().extract(buffer);
+    return directText(document.getBody());
+  },
+};
@@ -0,0 +1,21 @@
+import mammoth from "mammoth";
+import { directText } from "./format.types.js";
+import type { ResumeFormat } from "./format.types.js";
+import { isZip, readZip, validateZip } from "./zip.js";
+
+export const docxFormat: ResumeFormat = {
+  id: "docx",
+  mimeType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  label: "DOCX",
+  async detect(buffer) {
+    if (!isZip(buffer)) return false;
+    const zip = await readZip(buffer);
+    return Boolean(zip?.file("word/document.xml"));
+  },
+  // mammoth inflates the whole archive, so its size is checked first
+  validate: validateZip,
+  async extract(buffer) {
+    const data = await mammoth.extractRawText({ buffer });
+    return directText(data.value);
+  },
+};
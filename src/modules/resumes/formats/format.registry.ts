@@ -0,0 +1,34 @@
+import type { ResumeFormat } from "./format.types.js";
+import { pdfFormat } from "./pdf.format.js";
+import { docxFormat } from "./docx.format.js";
+import { odtFormat } from "./odt.format.js";
+import { docFormat } from "./doc.format.js";
+import { rtfFormat } from "./rtf.format.js";
+import { markdownFormat, textFormat } from "./text.format.js";
+import { jpegFormat, pngFormat } from "./image.format.js";
+
+// Checked in order: signature-based formats first, text last since it matches almost anything
+const FORMATS: ResumeFormat[] = [
+  pdfFormat,
+  docxFormat,
+  odtFormat,
+  docFormat,
+  rtfFormat,
+  pngFormat,
+  jpegFormat,
+  markdownFormat,
+  textFormat,
+];
+
+export async function detectFormat(buffer: Buffer, fileName?: string): Promise<ResumeFormat | null> {
+  for (const format of FORMATS) {
+    if (await format.detect(buffer, fileName)) return format;
+  }
+  return null;
+}
+
+export function formatForMimeType(mimeType: string): ResumeFormat | null {
+  return FORMATS.find((format) => format.mimeType === mimeType) ?? null;
+}
+
+export const supportedFormatLabels = () => FORMATS.map((format) => format.label);
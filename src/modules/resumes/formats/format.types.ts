@@ -0,0 +1,42 @@
+import type { ExtractionMethod } from "../../../types.js";
+
+export interface ExtractedText {
+  text: string;
+  method: ExtractionMethod;
+  // OCR confidence between 0 and 1; null for text read directly from the file
+  confidence: number | null;
+}
+
+// Result for formats whose text is read directly
+export const directText = (text: string): ExtractedText => ({ text, method: "text", confidence: null });
+
+export interface ResumeFormat {
+  id: string;
+  // Canonical type stored on the resume once detected
+  mimeType: string;
+  label: string;
+  /**
+   * Decide from the file's bytes whether it is this format. The client's
+   * Content-Type is never trusted; the name is only a tie-breaker for
+   * formats with no signature (e.g. Markdown vs plain text).
+   */
+  detect(buffer: Buffer, fileName?: string): boolean | Promise<boolean>;
+  extract(buffer: Buffer): Promise<ExtractedText>;
+  // Reject files that were detected but cannot be processed (e.g. encrypted PDFs)
+  validate?(buffer: Buffer): void | Promise<void>;
+}
+
+export class UnsupportedFormatError extends Error {
+  constructor(message = "Unsupported file type") {
+    super(message);
+    this.name = "UnsupportedFormatError";
+  }
+}
+
+// A file of a supported format that is damaged or otherwise unusable
+export class InvalidFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidFileError";
+  }
+}
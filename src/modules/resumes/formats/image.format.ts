@@ -0,0 +1,85 @@
+import { InvalidFileError, UnsupportedFormatError } from "./format.types.js";
+import type { ExtractedText, ResumeFormat } from "./format.types.js";
+import { MAX_OCR_PIXELS, ocrEnabled, recognizeImages } from "./ocr.js";
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const JPEG_SIGNATURE = Buffer.from([0xff, 0xd8, 0xff]);
+
+export interface ImageDimensions {
+  width: number;
+  height: number;
+}
+
+// Width and height from the IHDR chunk, which the PNG spec requires first
+function pngDimensions(buffer: Buffer): ImageDimensions | null {
+  if (buffer.length < 24 || buffer.toString("latin1", 12, 16) !== "IHDR") return null;
+  return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+}
+
+// Width and height from the first start-of-frame segment
+function jpegDimensions(buffer: Buffer): ImageDimensions | null {
+  let offset = 2;
+  while (offset + 4 <= buffer.length) {
+    if (buffer[offset] !== 0xff) return null;
+    const marker = buffer[offset + 1];
+    // Fill bytes before a marker
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    // Markers without a length field
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += 2;
+      continue;
+    }
+    // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC) which share the range
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      if (offset + 9 > buffer.length) return null;
+      return { width: buffer.readUInt16BE(offset + 7), height: buffer.readUInt16BE(offset + 5) };
+    }
+    offset += 2 + buffer.readUInt16BE(offset + 2);
+  }
+  return null;
+}
+
+/** Pixel size read from the PNG or JPEG header, or null if the header is unreadable. */
+export function imageDimensions(buffer: Buffer): ImageDimensions | null {
+  if (buffer.subarray(0, 8).equals(PNG_SIGNATURE)) return pngDimensions(buffer);
+  if (buffer.subarray(0, 3).equals(JPEG_SIGNATURE)) return jpegDimensions(buffer);
+  return null;
+}
+
+async function ocrImage(buffer: Buffer): Promise<ExtractedText> {
+  if (!ocrEnabled()) {
+    throw new UnsupportedFormatError("Image resumes require OCR, which is disabled");
+  }
+  // Checked before decoding: a small file can declare an image far too large to hold in memory
+  const dimensions = imageDimensions(buffer);
+  if (!dimensions || dimensions.width === 0 || dimensions.height === 0) {
+    throw new InvalidFileError("The image is damaged or malformed");
+  }
+  if (dimensions.width * dimensions.height > MAX_OCR_PIXELS) {
+    throw new InvalidFileError(
+      `The image is ${dimensions.width}x${dimensions.height} pixels; the limit is ${Math.floor(MAX_OCR_PIXELS / 1_000_000)} megapixels`
+    );
+  }
+  const { text, confidence } = await recognizeImages([buffer]);
+  return { text, method: "ocr", confidence };
+}
+
+// Photographed or screenshotted resumes
+export const pngFormat: ResumeFormat = {
+  id: "png",
+  mimeType: "image/png",
+  label: "PNG",
+  detect: (buffer) => buffer.subarray(0, 8).equals(PNG_SIGNATURE),
+  extract: ocrImage,
+};
+
+export const jpegFormat: ResumeFormat = {
+  id: "jpeg",
+  mimeType: "image/jpeg",
+  label: "JPEG",
+  detect: (buffer) => buffer.subarray(0, 3).equals(JPEG_SIGNATURE),
+  extract: ocrImage,
+};
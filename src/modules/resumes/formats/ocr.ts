@@ -0,0 +1,118 @@
+import os from "node:os";
+import path from "node:path";
+import { createRequire } from "node:module";
+import { createWorker } from "tesseract.js";
+import type { Worker } from "tesseract.js";
+import { createCanvas } from "@napi-rs/canvas";
+
+const LANGUAGES = process.env.OCR_LANGUAGES || "eng";
+
+/**
+ * English trained data ships with @tesseract.js-data/eng so OCR works
+ * without network access. Other languages need OCR_LANG_PATH, or are
+ * downloaded from the tesseract.js CDN on first use.
+ */
+function defaultLangPath(): string | undefined {
+  if (LANGUAGES !== "eng") return undefined;
+  const require = createRequire(import.meta.url);
+  return path.join(path.dirname(require.resolve("@tesseract.js-data/eng/package.json")), "4.0.0_best_int");
+}
+
+const LANG_PATH = process.env.OCR_LANG_PATH || defaultLangPath();
+const CACHE_PATH = process.env.OCR_CACHE_DIR || path.join(os.tmpdir(), "lockinedge-tesseract");
+const MAX_PAGES = Number(process.env.OCR_MAX_PAGES) || 5;
+// ~150 DPI for A4/Letter pages, enough for body text
+const RENDER_SCALE = 2;
+// Per image; a PDF can declare a page of any size, and a canvas that big exhausts memory
+export const MAX_OCR_PIXELS = Number(process.env.OCR_MAX_PIXELS) || 25_000_000;
+const IDLE_TIMEOUT_MS = 60_000;
+
+export const ocrEnabled = () => process.env.OCR_ENABLED !== "false";
+
+export interface OcrResult {
+  text: string;
+  // 0-1, weighted by how much text each image produced
+  confidence: number;
+}
+
+let worker: Promise<Worker> | null = null;
+let idleTimer: NodeJS.Timeout | null = null;
+// Calls currently using the worker; it is only shut down once this is back to 0
+let inFlight = 0;
+
+// One shared WASM worker, created on demand and shut down when idle to free its memory
+function acquireWorker(): Promise<Worker> {
+  inFlight++;
+  if (idleTimer) clearTimeout(idleTimer);
+  idleTimer = null;
+  worker ??= createWorker(LANGUAGES, undefined, {
+    cachePath: CACHE_PATH,
+    ...(LANG_PATH ? { langPath: LANG_PATH } : {}),
+  }).catch((error) => {
+    worker = null;
+    throw error;
+  });
+  return worker;
+}
+
+function releaseWorker(): void {
+  inFlight--;
+  if (inFlight > 0) return;
+  idleTimer = setTimeout(() => {
+    const current = worker;
+    worker = null;
+    void current?.then((w) => w.terminate());
+  }, IDLE_TIMEOUT_MS);
+  idleTimer.unref();
+}
+
+export async function recognizeImages(images: Buffer[]): Promise<OcrResult> {
+  const pages: { text: string; confidence: number }[] = [];
+
+  try {
+    const tesseract = await acquireWorker();
+    for (const image of images) {
+      const { data } = await tesseract.recognize(image);
+      pages.push({ text: data.text, confidence: data.confidence });
+    }
+  } finally {
+    releaseWorker();
+  }
+
+  const weight = pages.reduce((sum, page) => sum + page.text.trim().length, 0);
+  const confidence =
+    weight > 0 ? pages.reduce((sum, page) => sum + page.confidence * page.text.trim().length, 0) / weight / 100 : 0;
+
+  return { text: pages.map((page) => page.text).join("\n"), confidence: Math.round(confidence * 100) / 100 };
+}
+
+// Render the first pages of a PDF to PNG for OCR
+export async function rasterizePdf(buffer: Buffer, maxPages = MAX_PAGES): Promise<Buffer[]> {
+  const { getDocument } = await import("pdfjs-dist/legacy/build/pdf.mjs");
+  const document = await getDocument({ data: new Uint8Array(buffer), isEvalSupported: false, disableFontFace: true })
+    .promise;
+
+  try {
+    const images: Buffer[] = [];
+    for (let number = 1; number <= Math.min(document.numPages, maxPages); number++) {
+      const page = await document.getPage(number);
+      // Oversized pages are rendered at whatever scale fits the pixel budget
+      const base = page.getViewport({ scale: 1 });
+      const scale = Math.min(RENDER_SCALE, Math.sqrt(MAX_OCR_PIXELS / (base.width * base.height)));
+      const viewport = page.getViewport({ scale });
+      const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+      const context = canvas.getContext("2d");
+
+      // White background: transparent pixels OCR as black
+      context.fillStyle = "#ffffff";
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      await page.render({ canvasContext: context as unknown as CanvasRenderingContext2D, viewport }).promise;
+
+      images.push(canvas.toBuffer("image/png"));
+      page.cleanup();
+    }
+    return images;
+  } finally {
+    await document.destroy();
+  }
+}
@@ -0,0 +1,53 @@
+import { directText } from "./format.types.js";
+import type { ResumeFormat } from "./format.types.js";
+import { isZip, readZip, readZipText, validateZip } from "./zip.js";
+
+const ODT_MIME = "application/vnd.oasis.opendocument.text";
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const point = code[1]?.toLowerCase() === "x" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(point) ? String.fromCodePoint(point) : entity;
+    }
+    return ENTITIES[code] ?? entity;
+  });
+}
+
+// Flatten ODF content.xml: paragraphs and headings become lines
+function contentToText(xml: string): string {
+  const body = xml.replace(/^[\s\S]*?<office:body>/, "").replace(/<\/office:body>[\s\S]*$/, "");
+  return decodeEntities(
+    body
+      .replace(/<text:tab\s*\/>/g, "\t")
+      .replace(/<text:line-break\s*\/>/g, "\n")
+      .replace(/<text:s(?:\s+text:c="(\d+)")?\s*\/>/g, (_, count?: string) => " ".repeat(Number(count ?? 1)))
+      .replace(/<\/text:(?:p|h)>/g, "\n")
+      .replace(/<[^>]+>/g, "")
+  );
+}
+
+// OpenDocument text (LibreOffice, Google Docs export)
+export const odtFormat: ResumeFormat = {
+  id: "odt",
+  mimeType: ODT_MIME,
+  label: "ODT",
+  async detect(buffer) {
+    if (!isZip(buffer)) return false;
+    const zip = await readZip(buffer);
+    const entry = zip?.file("mimetype");
+    // The mimetype entry is a few bytes; anything bigger is not an ODT file
+    const mimetype = entry ? await readZipText(entry, 256).catch(() => null) : null;
+    return mimetype?.trim() === ODT_MIME;
+  },
+  validate: validateZip,
+  async extract(buffer) {
+    const zip = await readZip(buffer);
+    const entry = zip?.file("content.xml");
+    const content = entry ? await readZipText(entry) : null;
+    if (!content) throw new Error("ODT file has no content.xml");
+    return directText(contentToText(content));
+  },
+};
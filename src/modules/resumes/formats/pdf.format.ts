@@ -0,0 +1,71 @@
+import pdf from "pdf-parse";
+import { directText, InvalidFileError } from "./format.types.js";
+import type { ResumeFormat } from "./format.types.js";
+import { ocrEnabled, rasterizePdf, recognizeImages } from "./ocr.js";
+
+// A page of real resume text has well over this many non-space characters
+const MIN_CHARS_PER_PAGE = 100;
+
+const visibleLength = (text: string) => text.replace(/\s/g, "").length;
+
+// The trailer (or cross-reference stream) names an /Encrypt dictionary when the document is encrypted
+const isEncrypted = (buffer: Buffer) => /\/Encrypt\s*(\d+\s+\d+\s+R|<<)/.test(buffer.toString("latin1"));
+
+const openWithPdfjs = async (buffer: Buffer) => {
+  const { getDocument } = await import("pdfjs-dist/legacy/build/pdf.mjs");
+  return getDocument({ data: new Uint8Array(buffer), isEvalSupported: false, disableFontFace: true }).promise;
+};
+
+/**
+ * Text via pdf.js 4, for files the older pdf.js bundled with pdf-parse
+ * cannot open; it misreads the cross-reference table of some valid files,
+ * including PDFKit output.
+ */
+async function readWithPdfjs(buffer: Buffer): Promise<{ text: string; numpages: number }> {
+  const document = await openWithPdfjs(buffer);
+  try {
+    const pages: string[] = [];
+    for (let number = 1; number <= document.numPages; number++) {
+      const page = await document.getPage(number);
+      const content = await page.getTextContent();
+      pages.push(content.items.map((item) => ("str" in item ? item.str + (item.hasEOL ? "\n" : "") : "")).join(""));
+      page.cleanup();
+    }
+    return { text: pages.join("\n\n"), numpages: document.numPages };
+  } finally {
+    await document.destroy();
+  }
+}
+
+export const pdfFormat: ResumeFormat = {
+  id: "pdf",
+  mimeType: "application/pdf",
+  label: "PDF",
+  // The header may follow a little junk, which readers tolerate
+  detect: (buffer) => buffer.subarray(0, 1024).includes("%PDF-"),
+  async extract(buffer) {
+    const data = await pdf(buffer).catch(() => readWithPdfjs(buffer));
+    const pages = Math.max(data.numpages, 1);
+
+    if (!ocrEnabled() || visibleLength(data.text) / pages >= MIN_CHARS_PER_PAGE) {
+      return directText(data.text);
+    }
+
+    // Scanned or image-only PDF: read the rendered pages instead
+    const ocr = await recognizeImages(await rasterizePdf(buffer));
+    if (visibleLength(ocr.text) <= visibleLength(data.text)) {
+      return directText(data.text);
+    }
+    return { text: ocr.text, method: "ocr", confidence: ocr.confidence };
+  },
+  async validate(buffer) {
+    if (isEncrypted(buffer)) {
+      throw new InvalidFileError("Password-protected or encrypted PDFs are not supported");
+    }
+    // Opening the document and its first page is enough to catch truncated or corrupt files
+    const document = await openWithPdfjs(buffer).catch(() => null);
+    const opened = document ? await document.getPage(1).then(() => true, () => false) : false;
+    await document?.destroy();
+    if (!opened) throw new InvalidFileError("The PDF file is damaged or malformed");
+  },
+};
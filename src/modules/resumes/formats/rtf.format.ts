@@ -0,0 +1,89 @@
+import { directText } from "./format.types.js";
+import type { ResumeFormat } from "./format.types.js";
+
+// Groups whose content is metadata or binary rather than document text
+const SKIPPED_DESTINATIONS = new Set([
+  "fonttbl", "colortbl", "stylesheet", "info", "pict", "object", "themedata", "datastore",
+  "latentstyles", "listtable", "listoverridetable", "rsidtbl", "generator", "xmlnstbl", "header", "footer",
+]);
+
+const WINDOWS_1252 = new TextDecoder("windows-1252");
+
+/**
+ * Minimal RTF reader: walks groups and control words, keeping text and
+ * paragraph breaks. Formatting is discarded, which is all the parser needs.
+ */
+export function rtfToText(rtf: string): string {
+  const out: string[] = [];
+  // Per-group state: whether output is suppressed, and \ucN fallback length
+  const stack: { skip: boolean; uc: number }[] = [];
+  let state = { skip: false, uc: 1 };
+  let pendingSkip = 0;
+  let i = 0;
+
+  const emit = (text: string) => {
+    if (state.skip) return;
+    if (pendingSkip > 0) {
+      pendingSkip--;
+      return;
+    }
+    out.push(text);
+  };
+
+  while (i < rtf.length) {
+    const char = rtf[i]!;
+
+    if (char === "{") {
+      stack.push(state);
+      state = { ...state };
+      i++;
+    } else if (char === "}") {
+      state = stack.pop() ?? state;
+      i++;
+    } else if (char === "\\") {
+      const next = rtf[i + 1];
+      if (next === "'") {
+        emit(WINDOWS_1252.decode(Buffer.from(rtf.slice(i + 2, i + 4), "hex")));
+        i += 4;
+      } else if (next === "*") {
+        // Ignorable destination: unknown to us by definition
+        state.skip = true;
+        i += 2;
+      } else if (next && /[a-z]/i.test(next)) {
+        const match = /^\\([a-z]+)(-?\d+)? ?/i.exec(rtf.slice(i, i + 40))!;
+        const [whole, word, param] = match;
+        i += whole.length;
+
+        if (SKIPPED_DESTINATIONS.has(word!)) state.skip = true;
+        else if (word === "par" || word === "line" || word === "row") emit("\n");
+        else if (word === "tab" || word === "cell") emit("\t");
+        else if (word === "uc") state.uc = Number(param ?? 1);
+        else if (word === "u" && param) {
+          const code = Number(param);
+          emit(String.fromCharCode(code < 0 ? code + 65536 : code));
+          pendingSkip = state.uc;
+        }
+      } else {
+        // Escaped literal ({, }, \) or control symbol such as \~
+        if (next === "~") emit(" ");
+        else if (next === "{" || next === "}" || next === "\\") emit(next);
+        i += 2;
+      }
+    } else {
+      if (char !== "\r" && char !== "\n") emit(char);
+      i++;
+    }
+  }
+
+  return out.join("");
+}
+
+export const rtfFormat: ResumeFormat = {
+  id: "rtf",
+  mimeType: "application/rtf",
+  label: "RTF",
+  detect: (buffer) => buffer.subarray(0, 5).toString("latin1") === "{\\rtf",
+  async extract(buffer) {
+    return directText(rtfToText(buffer.toString("latin1")));
+  },
+};
@@ -0,0 +1,66 @@
+import { directText } from "./format.types.js";
+import type { ResumeFormat } from "./format.types.js";
+
+const UTF8 = new TextDecoder("utf-8", { fatal: true });
+
+// Text files have no signature: accept valid UTF-8 (or UTF-16 with a BOM) without NUL bytes
+function decodeText(buffer: Buffer): string | null {
+  if (buffer[0] === 0xff && buffer[1] === 0xfe) return buffer.subarray(2).toString("utf16le");
+  if (buffer.subarray(0, 8192).includes(0)) return null;
+  try {
+    // TextDecoder drops a UTF-8 BOM itself
+    return UTF8.decode(buffer);
+  } catch {
+    return null;
+  }
+}
+
+// Saved web pages decode as text but are markup, not a resume
+const isMarkup = (text: string) => /^\s*<(?:!doctype\s+html|html|\?xml)\b/i.test(text);
+
+const hasExtension = (fileName: string | undefined, extensions: string[]) =>
+  extensions.some((ext) => fileName?.toLowerCase().endsWith(ext));
+
+// Markdown headings or link syntax on several lines
+const looksLikeMarkdown = (text: string) =>
+  (text.match(/^#{1,6}\s+\S|\[[^\]]+\]\([^)]+\)|^\s*[-*]\s+\*\*/gm)?.length ?? 0) >= 2;
+
+// Reduce Markdown to the plain text a reader would see, keeping link targets
+export function markdownToText(markdown: string): string {
+  return markdown
+    .replace(/^```.*$/gm, "")
+    .replace(/^#{1,6}\s+/gm, "")
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]+)\]\(([^)]+)\)/g, (_, label: string, url: string) => (label === url ? url : `${label} (${url})`))
+    .replace(/(\*\*|__)(.+?)\1/g, "$2")
+    .replace(/(^|\W)[*_](\S(?:.*?\S)?)[*_](?=\W|$)/g, "$1$2")
+    .replace(/`([^`]+)`/g, "$1")
+    .replace(/^\s*>\s?/gm, "")
+    .replace(/^\s*(?:-{3,}|\*{3,}|_{3,})\s*$/gm, "");
+}
+
+export const markdownFormat: ResumeFormat = {
+  id: "md",
+  mimeType: "text/markdown",
+  label: "Markdown",
+  detect(buffer, fileName) {
+    const text = decodeText(buffer);
+    return text !== null && !isMarkup(text) && (hasExtension(fileName, [".md", ".markdown"]) || looksLikeMarkdown(text));
+  },
+  async extract(buffer) {
+    return directText(markdownToText(decodeText(buffer) ?? ""));
+  },
+};
+
+export const textFormat: ResumeFormat = {
+  id: "txt",
+  mimeType: "text/plain",
+  label: "TXT",
+  detect(buffer) {
+    const text = decodeText(buffer);
+    return buffer.length > 0 && text !== null && !isMarkup(text);
+  },
+  async extract(buffer) {
+    return directText(decodeText(buffer) ?? "");
+  },
+};
@@ -0,0 +1,103 @@
+import JSZip from "jszip";
+import { InvalidFileError } from "./format.types.js";
+
+const ZIP_SIGNATURE = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+
+// Uncompressed limits; a resume archive is a few MB at most, a zip bomb is gigabytes
+export const MAX_ZIP_ENTRY_BYTES = Number(process.env.ZIP_MAX_ENTRY_BYTES) || 20 * 1024 * 1024;
+export const MAX_ZIP_TOTAL_BYTES = Number(process.env.ZIP_MAX_TOTAL_BYTES) || 50 * 1024 * 1024;
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${Math.floor(bytes / (1024 * 1024))}MB` : `${Math.floor(bytes / 1024)}KB`;
+
+export class ZipTooLargeError extends InvalidFileError {
+  constructor(readonly limitBytes: number) {
+    super(`The archive expands to more than ${formatBytes(limitBytes)}`);
+    this.name = "ZipTooLargeError";
+  }
+}
+
+export const isZip = (buffer: Buffer) => buffer.subarray(0, 4).equals(ZIP_SIGNATURE);
+
+// Null for a corrupt archive so detection can fall through to other formats
+export async function readZip(buffer: Buffer): Promise<JSZip | null> {
+  try {
+    return await JSZip.loadAsync(buffer);
+  } catch {
+    return null;
+  }
+}
+
+// Size from the central directory. JSZip keeps it on the private `_data`; it is claimed, not proven
+function declaredSize(entry: JSZip.JSZipObject): number {
+  return (entry as unknown as { _data?: { uncompressedSize?: number } })._data?.uncompressedSize ?? 0;
+}
+
+/**
+ * Decompress an entry, refusing it up front when its declared size is over
+ * `maxBytes` and stopping as soon as the actual output passes it, since the
+ * declared size can be forged. `keep: false` only counts the bytes.
+ */
+async function inflate(entry: JSZip.JSZipObject, maxBytes: number, keep: boolean): Promise<{ size: number; data: Buffer }> {
+  if (declaredSize(entry) > maxBytes) throw new ZipTooLargeError(maxBytes);
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  const stream = entry.nodeStream("nodebuffer");
+  await new Promise<void>((resolve, reject) => {
+    stream.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        // Stop inflating; the rest of the entry is never produced
+        stream.pause();
+        stream.removeAllListeners("data");
+        reject(new ZipTooLargeError(maxBytes));
+      } else if (keep) {
+        chunks.push(chunk);
+      }
+    });
+    stream.on("error", reject);
+    stream.on("end", resolve);
+  });
+  return { size, data: Buffer.concat(chunks) };
+}
+
+// An entry's text, within the per-entry limit
+export async function readZipText(entry: JSZip.JSZipObject, maxBytes = MAX_ZIP_ENTRY_BYTES): Promise<string> {
+  const { data } = await inflate(entry, maxBytes, true);
+  return data.toString("utf8");
+}
+
+// Check a whole archive, for formats whose validate() must rule out zip bombs
+export async function validateZip(buffer: Buffer): Promise<void> {
+  const zip = await readZip(buffer);
+  if (!zip) throw new InvalidFileError("The archive is damaged or malformed");
+  await assertZipWithinLimits(zip);
+}
+
+/**
+ * Reject archives that expand past the limits before handing them to a
+ * library (mammoth) that decompresses everything itself. Entries are
+ * streamed and discarded, so checking a bomb never holds it in memory.
+ */
+export async function assertZipWithinLimits(
+  zip: JSZip,
+  limits: { entryBytes?: number; totalBytes?: number } = {}
+): Promise<void> {
+  const entryBytes = limits.entryBytes ?? MAX_ZIP_ENTRY_BYTES;
+  const totalBytes = limits.totalBytes ?? MAX_ZIP_TOTAL_BYTES;
+  const entries = Object.values(zip.files).filter((entry) => !entry.dir);
+
+  if (entries.reduce((total, entry) => total + declaredSize(entry), 0) > totalBytes) {
+    throw new ZipTooLargeError(totalBytes);
+  }
+
+  let total = 0;
+  for (const entry of entries) {
+    const remaining = totalBytes - total;
+    const { size } = await inflate(entry, Math.min(entryBytes, remaining), false).catch((error) => {
+      throw error instanceof ZipTooLargeError && remaining < entryBytes ? new ZipTooLargeError(totalBytes) : error;
+    });
+    total += size;
+  }
+}
@@ -0,0 +1,337 @@
+import type { ContactInfo, Education, ResumeAnalysis } from "../../types.js";
+
+export type SectionName = "summary" | "experience" | "education" | "skills" | "projects" | "certifications";
+
+export interface EmploymentEntry {
+  title: string;
+  // "YYYY-MM"; end is null for a current role
+  start: string;
+  end: string | null;
+  months: number;
+}
+
+export interface HeuristicResume {
+  // Text before the first recognised heading (name and contact block)
+  header: string;
+  sections: Partial<Record<SectionName, string>>;
+  contactInfo: ContactInfo;
+  employment: EmploymentEntry[];
+  experienceYears: number;
+  education: Education[];
+  skills: string[];
+  projects: string[];
+  certifications: string[];
+}
+
+const SECTION_HEADINGS: Record<SectionName, string[]> = {
+  summary: ["summary", "professional summary", "profile", "professional profile", "about", "about me", "objective", "career objective"],
+  experience: ["experience", "work experience", "professional experience", "employment", "employment history", "work history", "career history"],
+  education: ["education", "academic background", "education and training", "academics"],
+  skills: ["skills", "technical skills", "core skills", "key skills", "core competencies", "technologies", "tech stack", "tools and technologies"],
+  projects: ["projects", "personal projects", "key projects", "selected projects"],
+  certifications: ["certifications", "certificates", "licenses and certifications", "licenses & certifications", "courses and certifications"],
+};
+
+export const KNOWN_SKILLS = [
+  "JavaScript", "TypeScript", "React", "Node.js", "Python", "Java", "C#", "C++", "Go", "Rust", "Ruby", "PHP",
+  "Kotlin", "Swift", "Angular", "Vue.js", "Next.js", "Express", "Django", "Flask", "Spring", ".NET",
+  "MongoDB", "PostgreSQL", "MySQL", "Redis", "SQL", "AWS", "Azure", "GCP", "Docker", "Kubernetes",
+  "Terraform", "Git", "REST", "GraphQL", "HTML", "CSS", "Tailwind", "Linux", "CI/CD", "Machine Learning",
+];
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const MONTH = "(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)";
+const DATE = `(?:${MONTH}\\.?,?\\s+\\d{4}|\\d{1,2}[/.-]\\d{4}|\\d{4})`;
+export const DATE_RANGE = new RegExp(`(${DATE})\\s*(?:-|–|—|to|until)\\s*(${DATE}|present|current|now|today|date)`, "i");
+
+const DEGREE_PATTERN = /\b(Ph\.?D|Doctor(?:ate)?|Master(?:'s)?|M\.?Sc|M\.?S\.?|M\.?A\.?|MBA|M\.?Eng|Bachelor(?:'s)?|B\.?Sc|B\.?S\.?|B\.?A\.?|B\.?Tech|B\.?Eng|B\.?E\.?|Associate(?:'s)?|Diploma|HND)\b/;
+const INSTITUTION_PATTERN = /\b(University|College|Institute|School|Academy|Polytechnic|Universit[éa]t)\b/i;
+
+export const BULLET = /^[\s•·▪●◦‣∙*–-]+/;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Word-boundary match that still works for skills ending in symbols (C#, C++, .NET)
+export function mentionsSkill(text: string, skill: string): boolean {
+  return new RegExp(`(^|[^a-z0-9])${escapeRegExp(skill.toLowerCase())}($|[^a-z0-9])`).test(text.toLowerCase());
+}
+
+export function findKnownSkills(text: string): string[] {
+  return KNOWN_SKILLS.filter((skill) => mentionsSkill(text, skill));
+}
+
+function headingFor(line: string): SectionName | null {
+  const normalised = line.replace(BULLET, "").replace(/[:：]\s*$/, "").trim().toLowerCase();
+  if (!normalised || normalised.length > 40) return null;
+
+  for (const [section, headings] of Object.entries(SECTION_HEADINGS) as [SectionName, string[]][]) {
+    if (headings.includes(normalised)) return section;
+  }
+  return null;
+}
+
+function splitSections(lines: string[]): { header: string; sections: Partial<Record<SectionName, string>> } {
+  const header: string[] = [];
+  const sections: Partial<Record<SectionName, string[]>> = {};
+  let current: SectionName | null = null;
+
+  for (const line of lines) {
+    const heading = headingFor(line);
+    if (heading) {
+      current = heading;
+      sections[current] ??= [];
+      continue;
+    }
+    if (current) sections[current]!.push(line);
+    else header.push(line);
+  }
+
+  return {
+    header: header.join("\n"),
+    sections: Object.fromEntries(Object.entries(sections).map(([name, body]) => [name, body.join("\n")])),
+  };
+}
+
+function extractContactInfo(text: string, header: string): ContactInfo {
+  const contact: ContactInfo = {};
+
+  const email = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/.exec(text)?.[0];
+  if (email) contact.email = email;
+
+  // Need at least 9 digits so date ranges and years are not mistaken for numbers
+  const phone = [...text.matchAll(/\+?\(?\d[\d\s().-]{7,}\d/g)]
+    .map((m) => m[0].trim())
+    .find((candidate) => candidate.replace(/\D/g, "").length >= 9 && !DATE_RANGE.test(candidate));
+  if (phone) contact.phone = phone;
+
+  const linkedin = /(?:https?:\/\/)?(?:[a-z]{2,3}\.)?linkedin\.com\/in\/[\w%-]+\/?/i.exec(text)?.[0];
+  if (linkedin) contact.linkedin = linkedin;
+
+  const github = /(?:https?:\/\/)?(?:www\.)?github\.com\/[\w-]+\/?/i.exec(text)?.[0];
+  if (github) contact.github = github;
+
+  const website = [...header.matchAll(/(?:https?:\/\/)?(?:www\.)?[\w-]+(?:\.[\w-]+)*\.[a-z]{2,}(?:\/\S*)?/gi)]
+    .map((m) => m[0])
+    .find((url) => !/linkedin\.com|github\.com/i.test(url) && !url.includes("@") && !(email && email.includes(url)));
+  if (website) contact.website = website;
+
+  // The name is normally the first header line that is just two to four words
+  const name = header
+    .split("\n")
+    .map((line) => line.trim())
+    .find((line) => /^[\p{L}][\p{L}'.-]*(?:\s+[\p{L}][\p{L}'.-]*){1,3}$/u.test(line));
+  if (name) contact.name = name;
+
+  return contact;
+}
+
+// Month index (year * 12 + month) for a matched date; null if unparseable
+function toMonthIndex(value: string, isEnd: boolean, now: Date): number | null {
+  const lower = value.toLowerCase();
+  if (/present|current|now|today|date/.test(lower)) return now.getFullYear() * 12 + now.getMonth();
+
+  const year = Number(/\d{4}/.exec(lower)?.[0]);
+  if (!year) return null;
+
+  const named = MONTHS.findIndex((m) => lower.startsWith(m));
+  if (named !== -1) return year * 12 + named;
+
+  const numeric = /^(\d{1,2})[/.-]\d{4}/.exec(lower);
+  if (numeric) return year * 12 + Math.min(Math.max(Number(numeric[1]) - 1, 0), 11);
+
+  // Year only: count "2018 - 2020" as the full span of those years
+  return year * 12 + (isEnd ? 11 : 0);
+}
+
+const formatMonth = (index: number) => `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, "0")}`;
+
+function parseEmployment(text: string, now: Date): EmploymentEntry[] {
+  const lines = text.split("\n");
+  const entries: EmploymentEntry[] = [];
+
+  lines.forEach((line, i) => {
+    const match = DATE_RANGE.exec(line);
+    if (!match) return;
+
+    const start = toMonthIndex(match[1]!, false, now);
+    const end = toMonthIndex(match[2]!, true, now);
+    if (start === null || end === null || end < start) return;
+
+    // The title is usually on the same line as the dates, otherwise just above
+    const sameLine = line.replace(match[0], "").replace(/[|,()–—-]+\s*$/, "").replace(BULLET, "").trim();
+    const title = sameLine || lines[i - 1]?.replace(BULLET, "").trim() || "";
+    const current = /present|current|now|today|date/i.test(match[2]!);
+
+    entries.push({
+      title,
+      start: formatMonth(start),
+      end: current ? null : formatMonth(end),
+      months: end - start + 1,
+    });
+  });
+
+  return entries;
+}
+
+// Total years covered by the entries, counting overlapping roles once
+function totalYears(entries: EmploymentEntry[]): number {
+  const intervals = entries
+    .map((e) => {
+      const [sy, sm] = e.start.split("-").map(Number);
+      const start = sy! * 12 + sm! - 1;
+      return [start, start + e.months - 1] as const;
+    })
+    .sort((a, b) => a[0] - b[0]);
+
+  let months = 0;
+  let cursor = -Infinity;
+  for (const [start, end] of intervals) {
+    if (end <= cursor) continue;
+    months += end - Math.max(start, cursor + 1) + 1;
+    cursor = end;
+  }
+
+  return Math.round((months / 12) * 10) / 10;
+}
+
+function parseEducation(text: string): Education[] {
+  const lines = text.split("\n").map((l) => l.replace(BULLET, "").trim()).filter(Boolean);
+  const entries: Education[] = [];
+
+  lines.forEach((line, i) => {
+    if (!DEGREE_PATTERN.test(line)) return;
+
+    const neighbours = [lines[i - 1], lines[i + 1]].filter((l): l is string => Boolean(l));
+    const parts = line.replace(/,?\s*\(?\b(19|20)\d{2}\b.*$/, "").split(/\s+[-–|@]\s+|,\s+|\s+at\s+/i);
+    const institution =
+      parts.slice(1).find((p) => INSTITUTION_PATTERN.test(p)) ??
+      neighbours.find((l) => INSTITUTION_PATTERN.test(l) && !DEGREE_PATTERN.test(l)) ??
+      parts[1] ??
+      "";
+
+    const years = [line, ...neighbours].join(" ").match(/\b(19|20)\d{2}\b/g);
+    entries.push({
+      degree: parts[0]!.trim(),
+      institution: institution.replace(/,?\s*\(?\b(19|20)\d{2}\b.*$/, "").trim(),
+      ...(years ? { year: Math.max(...years.map(Number)) } : {}),
+    });
+  });
+
+  return entries;
+}
+
+function parseList(text: string): string[] {
+  return text
+    .split("\n")
+    .map((line) => line.replace(BULLET, "").trim())
+    .filter(Boolean);
+}
+
+function parseSkills(sectionText: string | undefined, fullText: string): string[] {
+  const listed = (sectionText ?? "")
+    .split("\n")
+    // Drop category labels such as "Languages:"
+    .map((line) => line.replace(BULLET, "").replace(/^[^:]{1,30}:\s*/, ""))
+    .flatMap((line) => line.split(/\s*[,;|•·/]\s*/))
+    .map((skill) => skill.trim())
+    .filter((skill) => skill.length > 0 && skill.length <= 40 && !/^\d+$/.test(skill));
+
+  const seen = new Set<string>();
+  return [...listed, ...findKnownSkills(fullText)].filter((skill) => {
+    const key = skill.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Parse extracted resume text into sections without an LLM. Works on the
+ * plain text produced by extractTextFromBuffer, so layout is lost and every
+ * rule here is a best guess; treat the output as a fallback or cross-check.
+ */
+export function parseResumeText(text: string, now = new Date()): HeuristicResume {
+  const lines = text
+    .replace(/\r\n?/g, "\n")
+    .split("\n")
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .filter(Boolean);
+
+  const { header, sections } = splitSections(lines);
+  const fullText = lines.join("\n");
+
+  // Without an experience heading, look for ranges anywhere but in education
+  const experienceText =
+    sections.experience ?? lines.filter((line) => !sections.education?.includes(line)).join("\n");
+  const employment = parseEmployment(experienceText, now);
+
+  return {
+    header,
+    sections,
+    contactInfo: extractContactInfo(fullText, header),
+    employment,
+    experienceYears: totalYears(employment),
+    education: parseEducation(sections.education ?? fullText),
+    skills: parseSkills(sections.skills, fullText),
+    projects: sections.projects ? parseList(sections.projects) : [],
+    certifications: sections.certifications ? parseList(sections.certifications) : [],
+  };
+}
+
+// Map the parse into the shape the LLM produces
+export function toAnalysis(parsed: HeuristicResume): ResumeAnalysis {
+  const strengths: string[] = [];
+  const improvements: string[] = [];
+
+  if (parsed.skills.length > 0) strengths.push(`Experience with ${parsed.skills.slice(0, 5).join(", ")}`);
+  if (parsed.certifications.length > 0) strengths.push(`${parsed.certifications.length} certification(s) listed`);
+  if (parsed.projects.length > 0) strengths.push("Includes project work");
+
+  for (const section of ["summary", "experience", "education", "skills"] as SectionName[]) {
+    if (!parsed.sections[section]) improvements.push(`Add a clearly headed ${section} section`);
+  }
+  if (!parsed.contactInfo.email) improvements.push("Include an email address");
+
+  return {
+    skills: parsed.skills,
+    experience: parsed.experienceYears,
+    education: parsed.education,
+    summary: (parsed.sections.summary ?? "").replace(/\n/g, " ").slice(0, 500) || undefined,
+    strengths,
+    improvements,
+    contactInfo: parsed.contactInfo,
+  };
+}
+
+/**
+ * Reconcile an LLM analysis with the local parse: fill contact details and
+ * explicitly listed skills the model left out, and prefer the date-derived
+ * experience when the model's figure is missing or far off.
+ */
+export function crossCheckAnalysis(
+  analysis: ResumeAnalysis,
+  parsed: HeuristicResume
+): { analysis: ResumeAnalysis; warnings: string[] } {
+  const warnings: string[] = [];
+  const result: ResumeAnalysis = { ...analysis, contactInfo: { ...parsed.contactInfo, ...analysis.contactInfo } };
+
+  const known = new Set(analysis.skills.map((s) => s.toLowerCase()));
+  const missing = parsed.skills.filter((s) => !known.has(s.toLowerCase()));
+  if (missing.length > 0) {
+    result.skills = [...analysis.skills, ...missing];
+    warnings.push(`Added ${missing.length} skill(s) found in the resume text: ${missing.slice(0, 10).join(", ")}`);
+  }
+
+  if (parsed.employment.length > 0) {
+    const fromDates = parsed.experienceYears;
+    const difference = Math.abs(analysis.experience - fromDates);
+    if (analysis.experience === 0 || difference > Math.max(2, fromDates * 0.5)) {
+      warnings.push(`Experience ${analysis.experience}y disagrees with employment dates (${fromDates}y); using dates`);
+      result.experience = fromDates;
+    }
+  }
+
+  return { analysis: result, warnings };
+}
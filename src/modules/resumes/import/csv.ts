@@ -0,0 +1,49 @@
+/**
+ * Parse RFC 4180 CSV into one object per row, keyed by the header row.
+ * Handles quoted fields with embedded commas, quotes and line breaks, a
+ * leading byte order mark and CRLF line endings. Blank rows are skipped.
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  const input = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...records] = rows.filter((r) => r.some((value) => value.trim()));
+  if (!header) return [];
+  const keys = header.map((key) => key.trim());
+
+  return records.map((record) => Object.fromEntries(keys.map((key, i) => [key, (record[i] ?? "").trim()])));
+}
@@ -0,0 +1,136 @@
+import type { ContactInfo, Education, ResumeAnalysis } from "../../../types.js";
+import { findKnownSkills, parseResumeText, toAnalysis } from "../heuristic.parser.js";
+import { contactLine, educationLine, formatPeriod } from "../export/export.data.js";
+import type { ResumeExportData, WorkEntry } from "../export/export.data.js";
+
+export type ImportSource = "json_resume" | "linkedin";
+
+export interface ImportedWork extends WorkEntry {
+  description?: string;
+  highlights: string[];
+}
+
+// Structured resume data read from an import, before it becomes text and an analysis
+export interface ImportedResume {
+  source: ImportSource;
+  name?: string;
+  headline?: string;
+  contact: ContactInfo & { location?: string };
+  summary?: string;
+  skills: string[];
+  work: ImportedWork[];
+  education: Education[];
+  projects: string[];
+  certifications: string[];
+}
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+/**
+ * "2019-03-01", "2019-03", "Mar 2019", "03/2019" or "2019" → "2019-03"
+ * (January for a bare year); null when there is no year.
+ */
+export function toYearMonth(value?: string | null): string | null {
+  const text = value?.trim().toLowerCase();
+  const year = text ? /\b(19|20)\d{2}\b/.exec(text)?.[0] : undefined;
+  if (!text || !year) return null;
+
+  const iso = /^(\d{4})-(\d{1,2})/.exec(text);
+  const numeric = /^(\d{1,2})[/.-]\d{4}/.exec(text);
+  const named = MONTHS.findIndex((month) => text.startsWith(month));
+  const month = iso ? Number(iso[2]) : numeric ? Number(numeric[1]) : named + 1 || 1;
+
+  return `${year}-${String(Math.min(Math.max(month, 1), 12)).padStart(2, "0")}`;
+}
+
+export const nonEmpty = (value?: string | null) => (value && value.trim() ? value.trim() : undefined);
+
+// Case-insensitive dedupe, keeping the first spelling
+export function uniqueStrings(values: (string | undefined)[]): string[] {
+  const seen = new Set<string>();
+  return values.filter((value): value is string => {
+    const key = value?.trim().toLowerCase();
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Lay the data out as a plain-text resume with the usual headings and
+ * "Position at Company, Mar 2019 – Present" lines, the shape
+ * parseResumeText reads. It becomes the resume's text, so matching, exports
+ * and diffs treat an import like any uploaded file.
+ */
+export function renderResumeText(resume: ImportedResume): string {
+  const blocks: string[] = [];
+
+  blocks.push(
+    [resume.name, contactLine(resume.contact).join(" | "), resume.headline].filter(Boolean).join("\n")
+  );
+  if (resume.summary) blocks.push(`Summary\n${resume.summary}`);
+
+  if (resume.work.length > 0) {
+    const entries = resume.work.map((entry) => {
+      const title = entry.company ? `${entry.position} at ${entry.company}` : entry.position;
+      const lines = [`${title}, ${formatPeriod(entry)}`];
+      if (entry.description) lines.push(entry.description);
+      lines.push(...entry.highlights.map((highlight) => `• ${highlight}`));
+      return lines.join("\n");
+    });
+    blocks.push(`Experience\n${entries.join("\n\n")}`);
+  }
+
+  if (resume.education.length > 0) blocks.push(`Education\n${resume.education.map(educationLine).join("\n")}`);
+  if (resume.skills.length > 0) blocks.push(`Skills\n${resume.skills.join(", ")}`);
+  if (resume.projects.length > 0) blocks.push(`Projects\n${resume.projects.map((p) => `• ${p}`).join("\n")}`);
+  if (resume.certifications.length > 0) {
+    blocks.push(`Certifications\n${resume.certifications.map((c) => `• ${c}`).join("\n")}`);
+  }
+
+  return blocks.filter(Boolean).join("\n\n");
+}
+
+/**
+ * Build the analysis straight from the structured data, no LLM involved.
+ * Listed skills, education and contact details are taken as given; the
+ * experience total and the strengths and improvements come from running
+ * the heuristic parser over the rendered text.
+ */
+export function analyseImport(resume: ImportedResume, resumeText: string): ResumeAnalysis {
+  const parsed = parseResumeText(resumeText);
+  const base = toAnalysis(parsed);
+
+  return {
+    ...base,
+    skills: uniqueStrings([...resume.skills, ...findKnownSkills(resumeText)]),
+    experience: parsed.experienceYears,
+    education: resume.education,
+    summary: (resume.summary ?? resume.headline)?.slice(0, 500),
+    contactInfo: {
+      name: resume.name,
+      email: resume.contact.email,
+      phone: resume.contact.phone,
+      linkedin: resume.contact.linkedin,
+      github: resume.contact.github,
+      website: resume.contact.website,
+    },
+  };
+}
+
+// The shape the exporters take, used to store a LinkedIn import as JSON Resume
+export function toExportData(resume: ImportedResume, analysis: ResumeAnalysis): ResumeExportData {
+  return {
+    name: resume.name ?? "Resume",
+    contact: resume.contact,
+    summary: resume.summary,
+    skills: analysis.skills,
+    experienceYears: analysis.experience,
+    work: resume.work.map(({ position, company, start, end }) => ({ position, company, start, end })),
+    education: resume.education,
+    strengths: analysis.strengths ?? [],
+    projects: resume.projects,
+    certifications: resume.certifications,
+    updatedAt: new Date(),
+  };
+}
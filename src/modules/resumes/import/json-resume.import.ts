@@ -0,0 +1,74 @@
+import type { Education, JsonResumeInput } from "../../../types.js";
+import { nonEmpty, toYearMonth, uniqueStrings } from "./import.data.js";
+import type { ImportedResume, ImportedWork } from "./import.data.js";
+
+const profileUrl = (profiles: NonNullable<JsonResumeInput["basics"]>["profiles"], network: string) => {
+  const profile = profiles?.find((p) => p.network?.toLowerCase() === network);
+  return nonEmpty(profile?.url) ?? nonEmpty(profile?.username && `${network}.com/${profile.username}`);
+};
+
+// A JSON Resume document that has passed jsonResumeSchema
+export function fromJsonResume(document: JsonResumeInput): ImportedResume {
+  const basics = document.basics ?? {};
+  const location = basics.location;
+
+  const work = (document.work ?? []).flatMap((entry): ImportedWork[] => {
+    const position = nonEmpty(entry.position);
+    const start = toYearMonth(entry.startDate);
+    // Without a title or start date there is nothing to place on a timeline
+    if (!position || !start) return [];
+    return [
+      {
+        position,
+        company: nonEmpty(entry.name) ?? nonEmpty(entry.company),
+        start,
+        end: toYearMonth(entry.endDate),
+        description: nonEmpty(entry.summary),
+        highlights: (entry.highlights ?? []).filter((highlight) => highlight.length > 0),
+      },
+    ];
+  });
+
+  const education = (document.education ?? []).flatMap((entry): Education[] => {
+    const institution = nonEmpty(entry.institution);
+    if (!institution) return [];
+    const year = toYearMonth(entry.endDate)?.slice(0, 4);
+    const gpa = Number(entry.score);
+    return [
+      {
+        // "Bachelor" and "Computer Science" read as "Bachelor in Computer Science"
+        degree: [entry.studyType, entry.area].filter((part) => nonEmpty(part)).join(" in "),
+        institution,
+        ...(year ? { year: Number(year) } : {}),
+        ...(entry.score && Number.isFinite(gpa) && gpa <= 10 ? { gpa } : {}),
+      },
+    ];
+  });
+
+  return {
+    source: "json_resume",
+    name: nonEmpty(basics.name),
+    headline: nonEmpty(basics.label),
+    contact: {
+      email: nonEmpty(basics.email),
+      phone: nonEmpty(basics.phone),
+      location: nonEmpty(location?.address) ?? nonEmpty([location?.city, location?.region, location?.countryCode].filter(Boolean).join(", ")),
+      linkedin: profileUrl(basics.profiles, "linkedin"),
+      github: profileUrl(basics.profiles, "github"),
+      website: nonEmpty(basics.url) ?? nonEmpty(basics.website),
+    },
+    summary: nonEmpty(basics.summary),
+    // Skill entries are often categories ("Web Development") with the actual skills as keywords
+    skills: uniqueStrings(
+      (document.skills ?? []).flatMap((skill) => (skill.keywords?.length ? skill.keywords : [skill.name]))
+    ),
+    work,
+    education,
+    projects: uniqueStrings((document.projects ?? []).map((project) => project.name)),
+    certifications: uniqueStrings(
+      (document.certificates ?? []).map((certificate) =>
+        certificate.name && certificate.issuer ? `${certificate.name} (${certificate.issuer})` : certificate.name
+      )
+    ),
+  };
+}
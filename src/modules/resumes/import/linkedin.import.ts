@@ -0,0 +1,125 @@
+import type JSZip from "jszip";
+import type { Education } from "../../../types.js";
+import { InvalidFileError } from "../formats/format.types.js";
+import { MAX_ZIP_ENTRY_BYTES, MAX_ZIP_TOTAL_BYTES, readZipText, ZipTooLargeError } from "../formats/zip.js";
+import { parseCsv } from "./csv.js";
+import { nonEmpty, toYearMonth, uniqueStrings } from "./import.data.js";
+import type { ImportedResume, ImportedWork } from "./import.data.js";
+
+// The parts of "Download your data" we read; the archive holds much more (messages, connections) that is ignored
+const LINKEDIN_FILES = {
+  profile: "profile.csv",
+  positions: "positions.csv",
+  education: "education.csv",
+  skills: "skills.csv",
+  emails: "email addresses.csv",
+  phones: "phonenumbers.csv",
+  certifications: "certifications.csv",
+  projects: "projects.csv",
+} as const;
+
+type LinkedInFile = keyof typeof LINKEDIN_FILES;
+
+// Exports put the CSVs at the root, but a re-zipped folder nests them one level down
+function findFile(zip: JSZip, name: string): JSZip.JSZipObject | null {
+  return zip.file(new RegExp(`(^|/)${name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}$`, "i")).find((file) => !file.dir) ?? null;
+}
+
+export function isLinkedInExport(zip: JSZip): boolean {
+  return (["profile", "positions"] as LinkedInFile[]).some((file) => findFile(zip, LINKEDIN_FILES[file]));
+}
+
+// Only the CSVs we need are inflated, each within the per-entry limit and all of them within the archive limit
+async function readCsvs(zip: JSZip): Promise<Record<LinkedInFile, Record<string, string>[]>> {
+  const csvs = {} as Record<LinkedInFile, Record<string, string>[]>;
+  let remaining = MAX_ZIP_TOTAL_BYTES;
+  for (const file of Object.keys(LINKEDIN_FILES) as LinkedInFile[]) {
+    const entry = findFile(zip, LINKEDIN_FILES[file]);
+    if (!entry) {
+      csvs[file] = [];
+      continue;
+    }
+    const text = await readZipText(entry, Math.min(MAX_ZIP_ENTRY_BYTES, remaining)).catch((error) => {
+      throw error instanceof ZipTooLargeError && remaining < MAX_ZIP_ENTRY_BYTES ? new ZipTooLargeError(MAX_ZIP_TOTAL_BYTES) : error;
+    });
+    remaining -= Buffer.byteLength(text);
+    csvs[file] = parseCsv(text);
+  }
+  return csvs;
+}
+
+// "[PORTFOLIO:https://example.com,OTHER:example.org]" → the URLs
+const websites = (value?: string) => [...(value ?? "").matchAll(/(?:https?:\/\/)?[\w-]+(?:\.[\w-]+)+(?:\/[^\s,\]]*)?/gi)].map((m) => m[0]);
+
+/**
+ * Read a LinkedIn "Download your data" archive. Profile.csv or
+ * Positions.csv must be present; the other files are used when included,
+ * since LinkedIn lets users pick which data to export.
+ */
+export async function fromLinkedInExport(zip: JSZip): Promise<ImportedResume> {
+  if (!isLinkedInExport(zip)) {
+    throw new InvalidFileError("The archive is not a LinkedIn data export (Profile.csv or Positions.csv is missing)");
+  }
+
+  const {
+    profile: profiles,
+    positions,
+    education: schools,
+    skills,
+    emails,
+    phones,
+    certifications,
+    projects,
+  } = await readCsvs(zip);
+  const profile = profiles[0] ?? {};
+
+  const work = positions.flatMap((row): ImportedWork[] => {
+    const position = nonEmpty(row["Title"]);
+    const start = toYearMonth(row["Started On"]);
+    if (!position || !start) return [];
+    return [
+      {
+        position,
+        company: nonEmpty(row["Company Name"]),
+        start,
+        end: toYearMonth(row["Finished On"]),
+        description: nonEmpty(row["Description"]),
+        highlights: [],
+      },
+    ];
+  });
+
+  const education = schools.flatMap((row): Education[] => {
+    const institution = nonEmpty(row["School Name"]);
+    if (!institution) return [];
+    const year = toYearMonth(row["End Date"])?.slice(0, 4);
+    return [{ degree: row["Degree Name"] ?? "", institution, ...(year ? { year: Number(year) } : {}) }];
+  });
+
+  const email = emails.find((row) => row["Primary"]?.toLowerCase() === "yes") ?? emails[0];
+  const urls = websites(profile["Websites"]);
+  const name = [profile["First Name"], profile["Last Name"]].filter((part) => nonEmpty(part)).join(" ");
+
+  return {
+    source: "linkedin",
+    name: nonEmpty(name),
+    headline: nonEmpty(profile["Headline"]),
+    contact: {
+      email: nonEmpty(email?.["Email Address"]),
+      phone: nonEmpty(phones[0]?.["Number"]),
+      location: nonEmpty(profile["Geo Location"]) ?? nonEmpty(profile["Address"]),
+      github: urls.find((url) => /github\.com/i.test(url)),
+      website: urls.find((url) => !/github\.com|linkedin\.com/i.test(url)),
+    },
+    summary: nonEmpty(profile["Summary"]),
+    skills: uniqueStrings(skills.map((row) => row["Name"])),
+    work,
+    education,
+    projects: uniqueStrings(projects.map((row) => row["Title"])),
+    certifications: uniqueStrings(
+      certifications.map((row) =>
+        row["Name"] && row["Authority"] ? `${row["Name"]} (${row["Authority"]})` : row["Name"]
+      )
+    ),
+  };
+}
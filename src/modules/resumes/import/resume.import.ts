@@ -0,0 +1,109 @@
+import crypto from "node:crypto";
+import path from "node:path";
+import type { ResumeAnalysis } from "../../../types.js";
+import { jsonResumeSchema } from "../../../types.js";
+import { InvalidFileError } from "../formats/format.types.js";
+import { isZip, readZip } from "../formats/zip.js";
+import { toJsonResume } from "../export/json-resume.export.js";
+import { sha256 } from "../content.hash.js";
+import { RESUME_STORAGE_PREFIX } from "../resume.service.js";
+import { readUpload, sanitizeFileName, scanUpload, UploadRejectedError } from "../upload.service.js";
+import { analyseImport, renderResumeText, toExportData } from "./import.data.js";
+import type { ImportedResume, ImportSource } from "./import.data.js";
+import { fromJsonResume } from "./json-resume.import.js";
+import { fromLinkedInExport } from "./linkedin.import.js";
+
+export interface InspectedImport {
+  source: ImportSource;
+  // What gets stored: a JSON Resume document as uploaded, a LinkedIn archive converted to JSON Resume
+  buffer: Buffer;
+  storageKey: string;
+  originalFileName: string;
+  // SHA-256 of the uploaded bytes, so re-importing the same file is caught like any re-upload
+  fileHash: string;
+  resumeText: string;
+  analysis: ResumeAnalysis;
+}
+
+function parseJson(buffer: Buffer): unknown {
+  const text = buffer.toString("utf8").replace(/^\uFEFF/, "").trim();
+  if (!text.startsWith("{")) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new InvalidFileError("The JSON document could not be parsed");
+  }
+}
+
+async function readImport(buffer: Buffer): Promise<ImportedResume> {
+  if (isZip(buffer)) {
+    const zip = await readZip(buffer);
+    if (!zip) throw new InvalidFileError("The ZIP archive is damaged or malformed");
+    return fromLinkedInExport(zip);
+  }
+
+  const json = parseJson(buffer);
+  if (json === undefined) {
+    throw new UploadRejectedError(
+      "Unsupported file type. Import a JSON Resume document (.json) or a LinkedIn data export (.zip)",
+      "unsupported_type",
+      415
+    );
+  }
+  const parsed = jsonResumeSchema.safeParse(json);
+  if (!parsed.success) {
+    throw new UploadRejectedError("The document is not a valid JSON Resume", "malformed", 422, {
+      errors: parsed.error.format(),
+    });
+  }
+  return fromJsonResume(parsed.data);
+}
+
+/**
+ * Check and read an import: a JSON Resume document or a LinkedIn "Download
+ * your data" ZIP. Goes through the same size limit and malware scan as
+ * inspectUpload, then maps the data to resume text and an analysis without
+ * calling the LLM. Throws UploadRejectedError with the HTTP status to answer
+ * with.
+ */
+export async function inspectImport(file: File): Promise<InspectedImport> {
+  const buffer = await readUpload(file);
+
+  let imported: ImportedResume;
+  try {
+    imported = await readImport(buffer);
+  } catch (error) {
+    if (error instanceof InvalidFileError) {
+      throw new UploadRejectedError(error.message, "malformed", 422);
+    }
+    throw error;
+  }
+
+  if (!imported.name && imported.work.length === 0 && imported.skills.length === 0 && imported.education.length === 0) {
+    throw new UploadRejectedError("The import does not contain any resume data", "malformed", 422);
+  }
+
+  await scanUpload(buffer);
+
+  const resumeText = renderResumeText(imported);
+  const analysis = analyseImport(imported, resumeText);
+  const originalFileName = sanitizeFileName(file.name);
+
+  // The rest of a LinkedIn archive (messages, connections) is not ours to keep
+  const stored =
+    imported.source === "linkedin"
+      ? {
+          buffer: Buffer.from(JSON.stringify(toJsonResume(toExportData(imported, analysis)), null, 2)),
+          originalFileName: `${path.parse(originalFileName).name}.json`,
+        }
+      : { buffer, originalFileName };
+
+  return {
+    source: imported.source,
+    ...stored,
+    storageKey: `${RESUME_STORAGE_PREFIX}/${crypto.randomUUID()}.json`,
+    fileHash: sha256(buffer),
+    resumeText,
+    analysis,
+  };
+}
@@ -2,13 +2,14 @@ import { config } from "dotenv";
 import { db } from "../../db/db.js";
 import { resumes } from "../../db/schema.js";
 import type { Resume, ResumeAnalysis } from "../../types.js";
-import { eq } from "drizzle-orm";
+import { and, eq } from "drizzle-orm";
 import * as cheerio from "cheerio";
+import { getLlmClient } from "../llm/llm.client.js";
+import { extractJson } from "./analysis.parser.js";
+import { progressHub } from "../progress/progress.hub.js";
 
 config();
 
-const OPENROUTER_API_KEY = process.env.OPENROUTER_API_KEY;
-
 interface ScrapedJob {
   title: string;
   company: string;
@@ -21,7 +22,7 @@ interface ScrapedJob {
   postedDate?: string;
 }
 
-interface JobRecommendation {
+export interface JobRecommendation {
   jobTitle: string;
   company: string;
   location: string;
@@ -36,6 +37,21 @@ interface JobRecommendation {
   reasoning: string;
 }
 
+export type RecommendationProgress =
+  | { type: "stage"; stage: "scraping" }
+  | { type: "stage"; stage: "scoring"; current: number; total: number }
+  | { type: "recommendation"; recommendation: JobRecommendation };
+
+// Progress channel streamed by GET /resume/:id/recommendations/stream
+export const recommendationsChannel = (resumeId: string) => `recommendations:${resumeId}`;
+
+interface CompatibilityResult {
+  score: number;
+  matchingSkills: string[];
+  missingSkills: string[];
+  reasoning: string;
+}
+
 export class RecommendationService {
   static async scrapeJobs(skills: string[], location?: string): Promise<ScrapedJob[]> {
     const allJobs: ScrapedJob[] = [];
@@ -159,12 +175,7 @@ export class RecommendationService {
   static async analyzeJobCompatibility(
     resume: Resume,
     job: ScrapedJob
-  ): Promise<{
-    score: number;
-    matchingSkills: string[];
-    missingSkills: string[];
-    reasoning: string;
-  }> {
+  ): Promise<CompatibilityResult> {
     const prompt = `
 Analyze compatibility between this resume and job. Return ONLY valid JSON:
 
@@ -184,31 +195,26 @@ Description: ${job.description.substring(0, 500)}
 `;
 
     try {
-      const response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${OPENROUTER_API_KEY}`,
+      const { content } = await getLlmClient().complete({
+        task: "job_compatibility",
+        resume: {
+          skills: resume.analysis?.skills ?? [],
+          experience: resume.analysis?.experience ?? 0,
         },
-        body: JSON.stringify({
-          model: "deepseek/deepseek-r1:free",
-          messages: [
-            { role: "system", content: "You are a job matching expert. Respond only with valid JSON." },
-            { role: "user", content: prompt },
-          ],
-          temperature: 0,
-        }),
+        job: {
+          title: job.title,
+          company: job.company,
+          requirements: job.requirements,
+          description: job.description,
+        },
+        messages: [
+          { role: "system", content: "You are a job matching expert. Respond only with valid JSON." },
+          { role: "user", content: prompt },
+        ],
+        temperature: 0,
       });
-
-      if (!response.ok) throw new Error(`API error: ${response.status}`);
-
-      const data = await response.json();
-      let content = data.choices?.[0]?.message?.content?.trim() || "{}";
-
-      // clean invalid ```json wrappers
-      content = content.replace(/^```json/, "").replace(/^```/, "").replace(/```$/, "").trim();
-
-      return JSON.parse(content);
+      // Reasoning models wrap the JSON in <think> blocks and fences
+      return extractJson(content) as CompatibilityResult;
     } catch (error) {
       console.error("Error analyzing compatibility:", error);
       return {
@@ -220,9 +226,32 @@ Description: ${job.description.substring(0, 500)}
     }
   }
 
-  static async generateRecommendations(resumeId: string): Promise<JobRecommendation[]> {
+  // Generate in the background, publishing progress to the resume's recommendations channel
+  static startRun(resumeId: string, userId?: string): void {
+    const channel = recommendationsChannel(resumeId);
+    progressHub.start(channel);
+
+    this.generateRecommendations(resumeId, userId, (event) => progressHub.publish(channel, event.type, event))
+      .then((recommendations) => progressHub.publish(channel, "done", { recommendations }))
+      .catch((error) => {
+        console.error(error);
+        progressHub.publish(channel, "error", { message: (error as Error).message });
+      })
+      .finally(() => progressHub.finish(channel));
+  }
+
+  /**
+   * Scrape jobs for the resume's skills and score each one. `onProgress`
+   * receives stage updates and every qualifying recommendation as soon as it
+   * is scored, for streaming to the client.
+   */
+  static async generateRecommendations(
+    resumeId: string,
+    userId?: string,
+    onProgress?: (event: RecommendationProgress) => void
+  ): Promise<JobRecommendation[]> {
     const resume = await db.query.resumes.findFirst({
-      where: eq(resumes.id, resumeId),
+      where: userId ? and(eq(resumes.id, resumeId), eq(resumes.userId, userId)) : eq(resumes.id, resumeId),
     });
 
     if (!resume || !resume.analysis) {
@@ -238,14 +267,16 @@ Description: ${job.description.substring(0, 500)}
     const skills = normalizedResume.analysis.skills || [];
     console.log(`📝 Resume Skills: [${skills.join(", ")}]`);
 
+    onProgress?.({ type: "stage", stage: "scraping" });
     const jobs = await this.scrapeJobs(skills);
     const recommendations: JobRecommendation[] = [];
 
-    for (const job of jobs) {
+    for (const [index, job] of jobs.entries()) {
+      onProgress?.({ type: "stage", stage: "scoring", current: index + 1, total: jobs.length });
       const compatibility = await this.analyzeJobCompatibility(normalizedResume, job);
 
       if (compatibility.score >= 20) {
-        recommendations.push({
+        const recommendation: JobRecommendation = {
           jobTitle: job.title,
           company: job.company,
           location: job.location,
@@ -258,7 +289,9 @@ Description: ${job.description.substring(0, 500)}
           matchingSkills: compatibility.matchingSkills,
           missingSkills: compatibility.missingSkills,
           reasoning: compatibility.reasoning,
-        });
+        };
+        recommendations.push(recommendation);
+        onProgress?.({ type: "recommendation", recommendation });
       }
     }
 
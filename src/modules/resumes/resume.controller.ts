@@ -1,70 +1,161 @@
 import type { Context } from "hono";
-import { ResumeService } from "./resume.service.js";
-import { RecommendationService } from "./reccomendationservice.js";
-import { uploadResumeSchema, updateResumeSchema, uuidSchema } from "../../types.js";
 import path from "node:path";
-import fs from "node:fs/promises";
-import pdf from "pdf-parse";
-import mammoth from "mammoth";
-import { generatePdf } from "./pdf.service.js";
-
-const UPLOAD_DIR = path.join(process.cwd(), "uploads", "resumes");
-
-fs.mkdir(UPLOAD_DIR, { recursive: true }).catch(console.error);
-
-async function extractTextFromBuffer(buffer: Buffer, fileType: string): Promise<string> {
-  if (fileType === "application/pdf") {
-    const data = await pdf(buffer);
-    return data.text;
-  } else if (fileType === "application/vnd.openxmlformats-officedocument.wordprocessingml.document") {
-    const tmpPath = path.join(UPLOAD_DIR, `tmp-${Date.now()}.docx`);
-    await fs.writeFile(tmpPath, buffer);
-    const data = await mammoth.extractRawText({ path: tmpPath });
-    await fs.unlink(tmpPath);
-    return data.value;
-  } else {
-    throw new Error("Unsupported file type");
-  }
-}
+import { ResumeService, resumeStorageKey } from "./resume.service.js";
+import { RecommendationService, recommendationsChannel } from "./reccomendationservice.js";
+import {
+  resumeExportQuerySchema,
+  uploadResumeSchema,
+  updateResumeSchema,
+  uuidSchema,
+} from "../../types.js";
+import { inspectUpload, UploadRejectedError } from "./upload.service.js";
+import { inspectImport } from "./import/resume.import.js";
+import { contentDisposition, getStorage } from "../storage/file.storage.js";
+import { AccountService } from "../auth/account.service.js";
+import { ResumeDocumentService } from "./document.service.js";
+import { exportResume } from "./export/resume.export.js";
+import { ownerScope } from "../auth/auth.middleware.js";
+import { AuditService } from "../audit/audit.service.js";
+import { progressHub } from "../progress/progress.hub.js";
+import { streamProgress } from "../progress/progress.sse.js";
+import { analysisChannel } from "./resume.processor.js";
 
 export class ResumeController {
   static async upload(ctx: Context) {
+    const userId = ctx.get("userId") as string;
     const formData = await ctx.req.formData();
     const file = formData.get("file") as File | null;
-    const userId = formData.get("userId") as string | null;
+    const documentId = (formData.get("documentId") as string | null) || undefined;
 
-    if (!file || !userId) {
-      return ctx.json({ success: false, message: "File and userId are required" }, 400);
+    if (!file) {
+      return ctx.json({ success: false, message: "File is required" }, 400);
     }
 
-    const parsed = uploadResumeSchema.safeParse({ file, userId });
+    const parsed = uploadResumeSchema.safeParse({ file, userId, documentId });
     if (!parsed.success) {
       return ctx.json({ success: false, message: "Validation error", errors: parsed.error.format() }, 400);
     }
 
-    const arrayBuffer = await file.arrayBuffer();
-    const buffer = Buffer.from(arrayBuffer);
-    const uniqueFilename = `${userId}-${Date.now()}-${file.name}`;
-    const filePath = path.join(UPLOAD_DIR, uniqueFilename);
-
-    await fs.writeFile(filePath, buffer);
+    if (documentId && !(await ResumeDocumentService.getDocument(documentId, userId))) {
+      return ctx.json({ success: false, message: "Resume document not found" }, 404);
+    }
 
-    let resumeText: string;
+    let upload;
     try {
-      resumeText = await extractTextFromBuffer(buffer, file.type);
-    } catch (err) {
-      return ctx.json({ success: false, message: "Failed to extract text", error: (err as Error).message }, 500);
+      upload = await inspectUpload(file);
+    } catch (error) {
+      if (!(error instanceof UploadRejectedError)) throw error;
+      await AuditService.recordRequest(ctx, {
+        action: "resume.upload_rejected",
+        metadata: { reason: error.reason, ...(error.reason === "infected" ? error.details : {}) },
+      });
+      return ctx.json({ success: false, message: error.message, ...error.details }, error.status);
+    }
+
+    // Same bytes uploaded before: hand back that resume instead of analysing it again
+    const duplicate = await ResumeService.findDuplicate(userId, upload.fileHash, documentId);
+    if (duplicate) {
+      await AuditService.recordRequest(ctx, {
+        action: "resume.uploaded",
+        targetType: "resume",
+        targetId: duplicate.id,
+        metadata: { duplicate: true, documentId: duplicate.documentId, version: duplicate.version },
+      });
+      return ctx.json({ success: true, message: "This file was already uploaded", duplicate: true, data: duplicate });
     }
 
+    const storage = getStorage();
+    await storage.put(upload.storageKey, upload.buffer, { contentType: upload.format.mimeType });
+
+    // Extraction and analysis run on the queue; poll GET /resume/:id/status
     const resume = await ResumeService.createResume({
       userId,
-      fileName: uniqueFilename,
-      filePath,
-      fileUrl: `/uploads/resumes/${uniqueFilename}`,
-      resumeText,
+      documentId,
+      storageKey: upload.storageKey,
+      mimeType: upload.format.mimeType,
+      originalFileName: upload.originalFileName,
+      fileSize: upload.buffer.length,
+      fileHash: upload.fileHash,
+    }).catch(async (error) => {
+      // Do not leave an orphaned file behind
+      await storage.delete(upload.storageKey).catch(() => {});
+      throw error;
+    });
+    await AuditService.recordRequest(ctx, {
+      action: "resume.uploaded",
+      targetType: "resume",
+      targetId: resume.id,
+      metadata: { documentId: resume.documentId, version: resume.version },
+    });
+
+    return ctx.json({ success: true, message: "Resume uploaded, analysis pending", data: resume }, 202);
+  }
+
+  /**
+   * Import a JSON Resume document or a LinkedIn data export ZIP instead of
+   * uploading a file. The analysis is built from the structured data, so
+   * the resume is ready right away.
+   */
+  static async importResume(ctx: Context) {
+    const userId = ctx.get("userId") as string;
+    const formData = await ctx.req.formData();
+    const file = formData.get("file") as File | null;
+    const documentId = (formData.get("documentId") as string | null) || undefined;
+
+    if (!file) {
+      return ctx.json({ success: false, message: "File is required" }, 400);
+    }
+
+    const parsed = uploadResumeSchema.safeParse({ file, userId, documentId });
+    if (!parsed.success) {
+      return ctx.json({ success: false, message: "Validation error", errors: parsed.error.format() }, 400);
+    }
+
+    if (documentId && !(await ResumeDocumentService.getDocument(documentId, userId))) {
+      return ctx.json({ success: false, message: "Resume document not found" }, 404);
+    }
+
+    let imported;
+    try {
+      imported = await inspectImport(file);
+    } catch (error) {
+      if (!(error instanceof UploadRejectedError)) throw error;
+      await AuditService.recordRequest(ctx, {
+        action: "resume.upload_rejected",
+        metadata: { reason: error.reason, import: true, ...(error.reason === "infected" ? error.details : {}) },
+      });
+      return ctx.json({ success: false, message: error.message, ...error.details }, error.status);
+    }
+
+    const duplicate = await ResumeService.findDuplicate(userId, imported.fileHash, documentId);
+    if (duplicate) {
+      return ctx.json({ success: true, message: "This file was already imported", duplicate: true, data: duplicate });
+    }
+
+    const storage = getStorage();
+    await storage.put(imported.storageKey, imported.buffer, { contentType: "application/json" });
+
+    const resume = await ResumeService.importResume({
+      userId,
+      documentId,
+      storageKey: imported.storageKey,
+      originalFileName: imported.originalFileName,
+      fileSize: imported.buffer.length,
+      fileHash: imported.fileHash,
+      resumeText: imported.resumeText,
+      analysis: imported.analysis,
+    }).catch(async (error) => {
+      await storage.delete(imported.storageKey).catch(() => {});
+      throw error;
+    });
+    await AuditService.recordRequest(ctx, {
+      action: "resume.imported",
+      targetType: "resume",
+      targetId: resume.id,
+      metadata: { source: imported.source, documentId: resume.documentId, version: resume.version },
     });
 
-    return ctx.json({ success: true, message: "Resume uploaded", data: resume });
+    return ctx.json({ success: true, message: "Resume imported", data: resume }, 201);
   }
 
   static async getById(ctx: Context) {
@@ -75,14 +166,75 @@ export class ResumeController {
       return ctx.json({ success: false, message: "Invalid resume ID", errors: parsed.error.format() }, 400);
     }
 
-    const resume = await ResumeService.getResumeById(id);
+    const resume = await ResumeService.getResumeById(id, ownerScope(ctx));
     if (!resume) {
       return ctx.json({ success: false, message: "Resume not found" }, 404);
     }
+    await AuditService.recordRequest(ctx, {
+      action: "resume.read",
+      targetType: "resume",
+      targetId: resume.id,
+      metadata: { ownerId: resume.userId, via: "get" },
+    });
 
     return ctx.json({ success: true, data: resume });
   }
 
+  static async getStatus(ctx: Context) {
+    const { id } = ctx.req.param();
+    const parsed = uuidSchema.safeParse(id);
+
+    if (!parsed.success) {
+      return ctx.json({ success: false, message: "Invalid resume ID", errors: parsed.error.format() }, 400);
+    }
+
+    const status = await ResumeService.getProcessingStatus(id, ownerScope(ctx));
+    if (!status) {
+      return ctx.json({ success: false, message: "Resume not found" }, 404);
+    }
+
+    return ctx.json({ success: true, data: status });
+  }
+
+  /**
+   * SSE stream of analysis progress (stage, retrying, done, failed). Ends
+   * immediately with the final state if the resume was already processed.
+   */
+  static async streamAnalysis(ctx: Context) {
+    const { id } = ctx.req.param();
+    const parsed = uuidSchema.safeParse(id);
+
+    if (!parsed.success) {
+      return ctx.json({ success: false, message: "Invalid resume ID", errors: parsed.error.format() }, 400);
+    }
+
+    const scope = ownerScope(ctx);
+    if (!(await ResumeService.getResumeById(id, scope))) {
+      return ctx.json({ success: false, message: "Resume not found" }, 404);
+    }
+
+    const channel = analysisChannel(id);
+    return streamProgress(ctx, channel, {
+      poll: {
+        intervalMs: 5_000,
+        check: async () => {
+          if (progressHub.isRunning(channel)) return null;
+          const resume = await ResumeService.getResumeById(id, scope);
+          if (resume?.processingStatus === "ready") {
+            return {
+              event: "done",
+              data: { processingStatus: "ready", analysisStatus: resume.analysisStatus, analysis: resume.analysis },
+            };
+          }
+          if (resume?.processingStatus === "failed") {
+            return { event: "failed", data: { error: resume.processingError } };
+          }
+          return null;
+        },
+      },
+    });
+  }
+
   static async update(ctx: Context) {
     const { id } = ctx.req.param();
     const parsedId = uuidSchema.safeParse(id);
@@ -100,20 +252,41 @@ export class ResumeController {
       );
     }
 
-    const updated = await ResumeService.updateResume(parsedId.data, parsedBody.data);
+    const updated = await ResumeService.updateResume(parsedId.data, ownerScope(ctx), parsedBody.data);
     if (!updated) {
       return ctx.json({ success: false, message: "Resume not found" }, 404);
     }
+    await AuditService.recordRequest(ctx, {
+      action: "resume.updated",
+      targetType: "resume",
+      targetId: updated.id,
+      metadata: { ownerId: updated.userId, fields: Object.keys(parsedBody.data), fromResumeId: parsedId.data },
+    });
 
-    return ctx.json({ success: true, message: "Resume updated", data: updated });
+    // Edits are saved as a new version, so the returned resume has a new id
+    return ctx.json({ success: true, message: `Resume updated as version ${updated.version}`, data: updated });
   }
 
   static async list(ctx: Context) {
-    const resumes = await ResumeService.listResumes();
+    // Admins may list another user's resumes with ?userId=
+    const requestedUserId = ctx.req.query("userId");
+    const userId = requestedUserId && ctx.get("userRole") === "admin" ? requestedUserId : ctx.get("userId");
+
+    const parsed = uuidSchema.safeParse(userId);
+    if (!parsed.success) {
+      return ctx.json({ success: false, message: "Invalid user ID", errors: parsed.error.format() }, 400);
+    }
+
+    const resumes = await ResumeService.listResumes(parsed.data);
+    await AuditService.recordRequest(ctx, { action: "resume.listed", targetType: "user", targetId: parsed.data });
     return ctx.json({ success: true, data: resumes });
   }
 
-  static async download(ctx: Context) {
+  /**
+   * Redirect to a short-lived signed URL for the originally uploaded file,
+   * so the bytes are served by the storage backend rather than this API.
+   */
+  static async getFile(ctx: Context) {
     const { id } = ctx.req.param();
     const parsed = uuidSchema.safeParse(id);
 
@@ -121,16 +294,97 @@ export class ResumeController {
       return ctx.json({ success: false, message: "Invalid resume ID", errors: parsed.error.format() }, 400);
     }
 
-    const resume = await ResumeService.getResumeById(id);
+    const resume = await ResumeService.getResumeById(id, ownerScope(ctx));
+    const key = resume && resumeStorageKey(resume);
+    if (!resume || !key) {
+      return ctx.json({ success: false, message: "Resume not found" }, 404);
+    }
+    await AuditService.recordRequest(ctx, {
+      action: "resume.read",
+      targetType: "resume",
+      targetId: resume.id,
+      metadata: { ownerId: resume.userId, via: "file" },
+    });
+
+    const url = await getStorage().signedUrl(key, {
+      fileName: resume.originalFileName ?? path.posix.basename(key),
+      contentType: resume.mimeType ?? undefined,
+    });
+    ctx.header("Cache-Control", "no-store");
+    return ctx.redirect(url, 302);
+  }
+
+  /**
+   * Export the analysed resume: ?format=pdf|docx|json (JSON Resume) and, for
+   * PDF, ?template=classic|modern|compact.
+   */
+  static async download(ctx: Context) {
+    const { id } = ctx.req.param();
+    const parsed = uuidSchema.safeParse(id);
+    const query = resumeExportQuerySchema.safeParse(ctx.req.query());
+
+    if (!parsed.success || !query.success) {
+      return ctx.json(
+        {
+          success: false,
+          message: "Validation error",
+          errors: { ...(parsed.error?.format() ?? {}), ...(query.error?.format() ?? {}) },
+        },
+        400
+      );
+    }
+
+    const resume = await ResumeService.getResumeById(id, ownerScope(ctx));
     if (!resume) {
       return ctx.json({ success: false, message: "Resume not found" }, 404);
     }
+    await AuditService.recordRequest(ctx, {
+      action: "resume.read",
+      targetType: "resume",
+      targetId: resume.id,
+      metadata: { ownerId: resume.userId, via: "download", format: query.data.format },
+    });
 
-    const pdfBuffer = await generatePdf(resume);
+    const profile = await AccountService.getProfile(resume.userId);
+    const exported = await exportResume(resume, profile, query.data);
 
-    ctx.header("Content-Type", "application/pdf");
-    ctx.header("Content-Disposition", `attachment; filename=resume-${id}.pdf`);
-    return ctx.body(pdfBuffer);
+    ctx.header("Content-Type", exported.contentType);
+    ctx.header("Content-Disposition", contentDisposition(exported.fileName));
+    return ctx.body(exported.body);
+  }
+
+  /**
+   * SSE stream of a recommendations run: stage updates, each recommendation
+   * as it is scored, then "done" with the top results. Reconnecting with
+   * Last-Event-ID rejoins the same run instead of starting a new one.
+   */
+  static async streamRecommendations(ctx: Context) {
+    const { id } = ctx.req.param();
+    const parsed = uuidSchema.safeParse(id);
+
+    if (!parsed.success) {
+      return ctx.json({ success: false, message: "Invalid resume ID", errors: parsed.error.format() }, 400);
+    }
+
+    const resume = await ResumeService.getResumeById(id, ownerScope(ctx));
+    if (!resume || !resume.analysis) {
+      return ctx.json({ success: false, message: "Resume not found or not analyzed" }, 404);
+    }
+
+    const channel = recommendationsChannel(id);
+    const lastEventId = ctx.req.header("Last-Event-ID") ?? ctx.req.query("lastEventId");
+
+    if (!progressHub.isRunning(channel) && !progressHub.isCurrentRun(channel, lastEventId)) {
+      RecommendationService.startRun(id, ownerScope(ctx));
+      await AuditService.recordRequest(ctx, {
+        action: "resume.read",
+        targetType: "resume",
+        targetId: id,
+        metadata: { ownerId: resume.userId, via: "recommendations" },
+      });
+    }
+
+    return streamProgress(ctx, channel);
   }
 
   static async generateRecommendations(ctx: Context) {
@@ -142,7 +396,13 @@ export class ResumeController {
     }
 
     try {
-      const recommendations = await RecommendationService.generateRecommendations(id);
+      const recommendations = await RecommendationService.generateRecommendations(id, ownerScope(ctx));
+      await AuditService.recordRequest(ctx, {
+        action: "resume.read",
+        targetType: "resume",
+        targetId: id,
+        metadata: { via: "recommendations" },
+      });
 
       if (!recommendations || recommendations.length === 0) {
         return ctx.json({
@@ -155,6 +415,11 @@ export class ResumeController {
       return ctx.json({ success: true, data: recommendations });
     } catch (err) {
       console.error(err);
+
+      if ((err as Error).message === "Resume not found or not analyzed") {
+        return ctx.json({ success: false, message: "Resume not found or not analyzed" }, 404);
+      }
+
       return ctx.json(
         {
           success: false,
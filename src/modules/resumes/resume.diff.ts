@@ -0,0 +1,116 @@
+import type { Education, LineChange, NumberChange, Resume, ResumeDiff, SectionDiff } from "../../types.js";
+import { parseResumeText } from "./heuristic.parser.js";
+
+// Beyond this many line pairs the LCS table gets expensive; fall back to a set comparison
+const MAX_LCS_CELLS = 4_000_000;
+
+const toLines = (text: string) =>
+  text
+    .split(/\r?\n/)
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .filter(Boolean);
+
+/**
+ * Line diff via longest common subsequence, keeping only the added and
+ * removed lines in the order they appear.
+ */
+export function diffLines(before: string, after: string): LineChange[] {
+  const a = toLines(before);
+  const b = toLines(after);
+
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    const inA = new Set(a);
+    const inB = new Set(b);
+    return [
+      ...a.filter((line) => !inB.has(line)).map((line) => ({ type: "removed" as const, line })),
+      ...b.filter((line) => !inA.has(line)).map((line) => ({ type: "added" as const, line })),
+    ];
+  }
+
+  // lcs[i][j]: length of the LCS of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const changes: LineChange[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      changes.push({ type: "removed", line: a[i++] });
+    } else {
+      changes.push({ type: "added", line: b[j++] });
+    }
+  }
+  while (i < a.length) changes.push({ type: "removed", line: a[i++] });
+  while (j < b.length) changes.push({ type: "added", line: b[j++] });
+
+  return changes;
+}
+
+const numberChange = (from: number | null | undefined, to: number | null | undefined): NumberChange => ({
+  from: from ?? null,
+  to: to ?? null,
+  change: from != null && to != null ? Math.round((to - from) * 10) / 10 : null,
+});
+
+// Entries of `list` with no case-insensitive match in `other`
+function missingFrom<T>(list: T[], other: T[], key: (item: T) => string): T[] {
+  const keys = new Set(other.map(key));
+  return list.filter((item) => !keys.has(key(item)));
+}
+
+const skillKey = (skill: string) => skill.trim().toLowerCase();
+const educationKey = (entry: Education) => `${entry.degree}|${entry.institution}`.toLowerCase();
+
+/**
+ * Compare two versions of a resume document: skills, experience, education
+ * and score from the stored analyses, plus a line diff of each section of
+ * the extracted text. Versions still being processed contribute what they
+ * have so far.
+ */
+export function diffResumes(from: Resume, to: Resume): Omit<ResumeDiff, "documentId"> {
+  const before = from.analysis;
+  const after = to.analysis;
+  const beforeSkills = before?.skills ?? [];
+  const afterSkills = after?.skills ?? [];
+  const beforeEducation = before?.education ?? [];
+  const afterEducation = after?.education ?? [];
+
+  const beforeSections = from.resumeText ? parseResumeText(from.resumeText).sections : {};
+  const afterSections = to.resumeText ? parseResumeText(to.resumeText).sections : {};
+  const names = [...new Set([...Object.keys(beforeSections), ...Object.keys(afterSections)])] as (keyof typeof afterSections)[];
+
+  const sections: SectionDiff[] = [];
+  for (const name of names) {
+    const changes = diffLines(beforeSections[name] ?? "", afterSections[name] ?? "");
+    if (changes.length === 0) continue;
+    sections.push({
+      section: name,
+      status: !(name in beforeSections) ? "added" : !(name in afterSections) ? "removed" : "changed",
+      changes,
+    });
+  }
+
+  return {
+    from: { resumeId: from.id, version: from.version, createdAt: from.createdAt },
+    to: { resumeId: to.id, version: to.version, createdAt: to.createdAt },
+    skills: {
+      added: missingFrom(afterSkills, beforeSkills, skillKey),
+      removed: missingFrom(beforeSkills, afterSkills, skillKey),
+    },
+    experience: numberChange(before?.experience, after?.experience),
+    education: {
+      added: missingFrom(afterEducation, beforeEducation, educationKey),
+      removed: missingFrom(beforeEducation, afterEducation, educationKey),
+    },
+    score: numberChange(before?.aiScore, after?.aiScore),
+    sections,
+  };
+}
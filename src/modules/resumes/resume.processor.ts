@@ -0,0 +1,124 @@
+import { eq } from "drizzle-orm";
+import { db } from "../../db/db.js";
+import { resumes } from "../../db/schema.js";
+import type { JobHandler } from "../queue/queue.worker.js";
+import { progressHub } from "../progress/progress.hub.js";
+import { analyzeResume, readResumeFile, ResumeService } from "./resume.service.js";
+import { textHash } from "./content.hash.js";
+import { withAtsScore } from "./ats.score.js";
+import { extractTextFromBuffer } from "./extract.service.js";
+import { InvalidFileError, UnsupportedFormatError } from "./formats/format.types.js";
+import { FileNotFoundError } from "../storage/file.storage.js";
+
+// A type rather than an interface so it fits the jsonb payload column
+export type AnalyzeResumePayload = {
+  resumeId: string;
+};
+
+// Progress channel streamed by GET /resume/:id/events
+export const analysisChannel = (resumeId: string) => `resume:${resumeId}`;
+
+type ResumeRow = typeof resumes.$inferSelect;
+
+// The stored file is missing or unreadable: every retry would fail the same way
+export const isPermanentResumeError = (error: unknown) =>
+  error instanceof InvalidFileError || error instanceof UnsupportedFormatError || error instanceof FileNotFoundError;
+
+async function processResume(resume: ResumeRow, channel: string, lastAttempt: boolean): Promise<void> {
+  await db.update(resumes).set({ processingStatus: "processing" }).where(eq(resumes.id, resume.id));
+
+  let { resumeText, extractionMethod, extractionConfidence } = resume;
+  if (resumeText === null) {
+    progressHub.publish(channel, "stage", { stage: "extracting" });
+    const buffer = await readResumeFile(resume);
+    const extracted = await extractTextFromBuffer(buffer, resume.mimeType);
+    resumeText = extracted.text;
+    extractionMethod = extracted.method;
+    extractionConfidence = extracted.confidence;
+    await db
+      .update(resumes)
+      .set({ resumeText, extractionMethod, extractionConfidence })
+      .where(eq(resumes.id, resume.id));
+  }
+  // Scored from this file's text, so it is recomputed even when an analysis is reused
+  const ats = { text: resumeText, extractionMethod, extractionConfidence };
+
+  const hash = resume.textHash ?? textHash(resumeText);
+  if (!resume.textHash) {
+    await db.update(resumes).set({ textHash: hash }).where(eq(resumes.id, resume.id));
+  }
+
+  // Same text as a resume already analysed for this user: reuse that analysis instead of paying for another
+  const existing = await ResumeService.findAnalysisByTextHash(resume.userId, hash, resume.id);
+  if (existing) {
+    const analysis = withAtsScore(existing.analysis, ats);
+    await db
+      .update(resumes)
+      .set({ analysis, analysisStatus: existing.analysisStatus, processingStatus: "ready", processingError: null })
+      .where(eq(resumes.id, resume.id));
+    progressHub.publish(channel, "done", {
+      processingStatus: "ready",
+      analysisStatus: existing.analysisStatus,
+      analysis,
+      reused: true,
+    });
+    return;
+  }
+
+  progressHub.publish(channel, "stage", { stage: "analyzing" });
+  // Earlier attempts leave LLM outages to the queue's retries; the last one settles for the local parse
+  const { analysis: analysed, status } = await analyzeResume(resumeText, { fallbackOnError: lastAttempt });
+  const analysis = analysed && withAtsScore(analysed, ats);
+
+  await db
+    .update(resumes)
+    .set({ analysis, analysisStatus: status, processingStatus: "ready", processingError: null })
+    .where(eq(resumes.id, resume.id));
+
+  progressHub.publish(channel, "done", { processingStatus: "ready", analysisStatus: status, analysis });
+}
+
+/**
+ * Queue handler for uploaded resumes: extract the text, then analyse and
+ * score it.
+ * Extracted text is saved first so a retry after an LLM failure does not
+ * parse the file again. A file that cannot be read or parsed fails the job
+ * straight away instead of being retried.
+ */
+export const analyzeResumeHandler: JobHandler<AnalyzeResumePayload> = {
+  async handle({ resumeId }, job) {
+    const resume = await db.query.resumes.findFirst({ where: eq(resumes.id, resumeId) });
+    // Deleted (e.g. account deletion) while the job was waiting
+    if (!resume) return;
+
+    const channel = analysisChannel(resumeId);
+    progressHub.start(channel);
+
+    try {
+      await processResume(resume, channel, job.attempts >= job.maxAttempts);
+      progressHub.finish(channel);
+    } catch (error) {
+      const willRetry = job.attempts < job.maxAttempts && !isPermanentResumeError(error);
+      progressHub.publish(channel, willRetry ? "retrying" : "failed", {
+        error: (error as Error).message,
+        attempt: job.attempts,
+        maxAttempts: job.maxAttempts,
+      });
+      // Subscribers stay attached across retries; only the last attempt closes the stream
+      if (!willRetry) progressHub.finish(channel);
+      throw error;
+    }
+  },
+
+  isPermanent: isPermanentResumeError,
+
+  async onDead({ resumeId }, _job, error) {
+    await db
+      .update(resumes)
+      .set({
+        processingStatus: "failed",
+        processingError: (error instanceof Error ? error.message : String(error)).slice(0, 1000),
+      })
+      .where(eq(resumes.id, resumeId));
+  },
+};
@@ -1,12 +1,48 @@
 import { Hono } from "hono";
 import { ResumeController } from "./resume.controller.js";
+import { ResumeDocumentController } from "./document.controller.js";
+import { authenticateToken, requireScope } from "../auth/auth.middleware.js";
+import { bodyLimit } from "hono/body-limit";
+import { rateLimit } from "../ratelimit/ratelimit.middleware.js";
+import { MAX_UPLOAD_BYTES } from "../../types.js";
 
 const router = new Hono({ strict: false });
 
-router.post("/", ResumeController.upload);
-router.get("/", ResumeController.list);
-router.get("/:id", ResumeController.getById);
-router.put("/:id", ResumeController.update);
-router.post("/:id/recommendations/generate", ResumeController.generateRecommendations);
+// All resume routes are scoped to the authenticated user
+router.use("*", authenticateToken);
+
+// Uploads and recommendations each call the LLM, so throttle per user and per IP
+const aiUserLimit = rateLimit({ name: "ai-user", windowMs: 60 * 60 * 1000, limit: 20, keyBy: "user" });
+const aiIpLimit = rateLimit({ name: "ai-ip", windowMs: 60 * 60 * 1000, limit: 60 });
+
+// Imports skip the LLM but still decompress, scan and store a file, so they get their own budget
+const importUserLimit = rateLimit({ name: "import-user", windowMs: 60 * 60 * 1000, limit: 20, keyBy: "user" });
+const importIpLimit = rateLimit({ name: "import-ip", windowMs: 60 * 60 * 1000, limit: 60 });
+
+// Refuse oversized bodies while they stream in; the slack covers multipart framing
+const uploadLimit = bodyLimit({
+  maxSize: MAX_UPLOAD_BYTES + 64 * 1024,
+  onError: (c) => c.json({ success: false, message: "File is too large", maxBytes: MAX_UPLOAD_BYTES }, 413),
+});
+
+const canRead = requireScope("resumes:read");
+const canWrite = requireScope("resumes:write");
+
+router.post("/", canWrite, uploadLimit, aiIpLimit, aiUserLimit, ResumeController.upload);
+router.post("/import", canWrite, uploadLimit, importIpLimit, importUserLimit, ResumeController.importResume);
+router.get("/", canRead, ResumeController.list);
+// Registered before "/:id" so "documents" is not taken for a resume ID
+router.get("/documents", canRead, ResumeDocumentController.list);
+router.get("/documents/:documentId", canRead, ResumeDocumentController.getVersions);
+router.get("/documents/:documentId/diff", canRead, ResumeDocumentController.diff);
+router.put("/documents/:documentId/current", canWrite, ResumeDocumentController.setCurrentVersion);
+router.get("/:id", canRead, ResumeController.getById);
+router.get("/:id/status", canRead, ResumeController.getStatus);
+router.get("/:id/file", canRead, ResumeController.getFile);
+router.get("/:id/download", canRead, ResumeController.download);
+router.get("/:id/events", canRead, ResumeController.streamAnalysis);
+router.put("/:id", canWrite, ResumeController.update);
+router.post("/:id/recommendations/generate", canRead, aiIpLimit, aiUserLimit, ResumeController.generateRecommendations);
+router.get("/:id/recommendations/stream", canRead, aiIpLimit, aiUserLimit, ResumeController.streamRecommendations);
 
 export default router;
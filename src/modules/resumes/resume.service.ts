@@ -1,16 +1,57 @@
 import { config } from "dotenv";
 import { db } from "../../db/db.js";
-import { resumes } from "../../db/schema.js";
-import type { Resume, ResumeAnalysis } from "../../types.js";
-import { eq } from "drizzle-orm";
+import { resumeDocuments, resumes } from "../../db/schema.js";
+import type { AnalysisStatus, ProcessingStatus, Resume, ResumeAnalysis } from "../../types.js";
+import { and, desc, eq, isNotNull, ne } from "drizzle-orm";
+import crypto from "node:crypto";
+import path from "node:path";
+import { getLlmClient } from "../llm/llm.client.js";
+import type { ChatMessage } from "../llm/llm.provider.js";
+import { parseAnalysis } from "./analysis.parser.js";
+import type { ParsedAnalysis } from "./analysis.parser.js";
+import { QueueService } from "../queue/queue.service.js";
+import { crossCheckAnalysis, parseResumeText, toAnalysis } from "./heuristic.parser.js";
+import { FileNotFoundError, getStorage } from "../storage/file.storage.js";
+import { appendVersion, ensureDocument } from "./document.service.js";
+import { textHash } from "./content.hash.js";
 
 config(); // load .env
 
-const OPENROUTER_API_KEY = process.env.OPENROUTER_API_KEY;
+export const ANALYZE_RESUME_JOB = "resume.analyze";
 
-console.log("✅ Using DeepSeek-R1 (via OpenRouter) for resume analysis");
+// Storage keys of uploaded resumes live under this prefix
+export const RESUME_STORAGE_PREFIX = "resumes";
 
-async function analyzeResumeWithOpenRouter(resumeText: string): Promise<ResumeAnalysis> {
+const LEGACY_URL_PREFIX = "/uploads/resumes/";
+
+/**
+ * Where a resume's file is stored. Uploads from before the storage layer
+ * have no key but a fileUrl of "/uploads/resumes/<name>", which the local
+ * backend keeps under "resumes/<name>".
+ */
+export function resumeStorageKey(resume: Pick<Resume, "storageKey" | "fileUrl">): string | null {
+  if (resume.storageKey) return resume.storageKey;
+  if (resume.fileUrl.startsWith(LEGACY_URL_PREFIX)) {
+    return `${RESUME_STORAGE_PREFIX}/${path.posix.basename(resume.fileUrl)}`;
+  }
+  return null;
+}
+
+export async function readResumeFile(resume: Pick<Resume, "storageKey" | "fileUrl">): Promise<Buffer> {
+  const key = resumeStorageKey(resume);
+  if (!key) throw new FileNotFoundError(resume.fileUrl);
+  return getStorage().get(key);
+}
+
+const rank = (parsed: ParsedAnalysis) => ({ ok: 2, partial: 1, failed: 0 })[parsed.status];
+
+/**
+ * Ask the model for an analysis and validate it. If the first reply is not
+ * fully valid the model gets one repair attempt with the validation errors;
+ * the better of the two results is kept. If no provider answers at all the
+ * error propagates so the queue can retry later.
+ */
+async function requestAnalysis(resumeText: string): Promise<ParsedAnalysis> {
   const prompt = `
 You are a resume analysis assistant. Analyze the following resume and extract the following information in valid JSON format ONLY (no extra explanation, no backticks):
 
@@ -27,41 +68,86 @@ Resume:
 ${resumeText}
 `;
 
-  const url = "https://openrouter.ai/api/v1/chat/completions";
+  const messages: ChatMessage[] = [
+    { role: "system", content: "You are an expert resume analyst." },
+    { role: "user", content: prompt },
+  ];
 
-  const response = await fetch(url, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${OPENROUTER_API_KEY}`,
-    },
-    body: JSON.stringify({
-      model: "deepseek/deepseek-r1:free", // Free DeepSeek model
+  let first: ParsedAnalysis | undefined;
+  try {
+    const { content, provider } = await getLlmClient().complete({
+      task: "resume_analysis",
+      resumeText,
+      messages,
+      temperature: 0,
+    });
+    first = parseAnalysis(content);
+    // The rule-based fallback answered, not a model: usable, but never a full analysis
+    if (provider === "offline" && first.analysis) return { ...first, status: "partial" };
+    if (first.status === "ok") return first;
+
+    const { content: repaired } = await getLlmClient().complete({
+      task: "resume_analysis",
+      resumeText,
       messages: [
-        { role: "system", content: "You are an expert resume analyst." },
-        { role: "user", content: prompt },
+        ...messages,
+        { role: "assistant", content },
+        {
+          role: "user",
+          content: `Your previous reply did not match the required JSON format:\n- ${first.errors.join("\n- ")}\n\nReturn ONLY the corrected JSON object.`,
+        },
       ],
       temperature: 0,
-    }),
-  });
-
-  if (!response.ok) {
-    const errText = await response.text();
-    throw new Error(`OpenRouter API error: ${response.status} - ${errText}`);
+    });
+    const second = parseAnalysis(repaired);
+    return rank(second) > rank(first) ? second : first;
+  } catch (err) {
+    if (!first) throw err;
+    // The repair call failed; the first answer is still usable
+    console.error("Resume analysis repair failed:", (err as Error).message);
+    return first;
   }
+}
+
+export interface ResumeProcessingStatus {
+  id: string;
+  processingStatus: ProcessingStatus;
+  analysisStatus: AnalysisStatus | null;
+  error: string | null;
+  attempts: number;
+  maxAttempts: number;
+  // Set while a failed attempt is waiting to be retried
+  nextAttemptAt: Date | null;
+}
 
-  const data = await response.json();
-  const content: string =
-    data.choices?.[0]?.message?.content?.trim() || "{}";
+/**
+ * Analyse extracted text, cross-checked against the heuristic parser. When
+ * the model gives nothing usable the parser's own analysis is stored as
+ * "partial"; with `fallbackOnError` that also covers LLM outages.
+ */
+export async function analyzeResume(
+  resumeText: string,
+  options: { fallbackOnError?: boolean } = {}
+): Promise<ParsedAnalysis> {
+  const parsed = parseResumeText(resumeText);
 
+  let result: ParsedAnalysis;
   try {
-    const analysis: ResumeAnalysis = JSON.parse(content);
-    return analysis;
+    result = await requestAnalysis(resumeText);
   } catch (err) {
-    throw new Error(
-      `❌ Failed to parse OpenRouter response: ${content}`
-    );
+    if (!options.fallbackOnError) throw err;
+    result = { analysis: null, status: "failed", errors: [(err as Error).message] };
+  }
+
+  if (!result.analysis) {
+    return { analysis: toAnalysis(parsed), status: "partial", errors: result.errors };
   }
+
+  const { analysis, warnings } = crossCheckAnalysis(result.analysis, parsed);
+  if (warnings.length > 0) {
+    console.warn("Resume analysis cross-check:", warnings.join("; "));
+  }
+  return { ...result, analysis };
 }
 
 function normalizeResume(r: any): Resume {
@@ -76,48 +162,231 @@ function normalizeResume(r: any): Resume {
 
 export class ResumeService {
   /**
-   * Save resume + analysis
+   * Save an uploaded resume as "pending" and queue its analysis. The upload
+   * becomes the next version of `documentId`, or version 1 of a new
+   * document. Row and job are written together so an upload is never left
+   * without a job.
    */
   static async createResume(data: {
     userId: string;
-    fileName: string;
-    filePath: string;
-    fileUrl: string;
-    resumeText: string;
+    documentId?: string;
+    storageKey: string;
+    mimeType: string;
+    originalFileName: string;
+    fileSize: number;
+    fileHash: string;
   }): Promise<Resume> {
-    const aiAnalysis = await analyzeResumeWithOpenRouter(data.resumeText);
+    const id = crypto.randomUUID();
+    const resume = await db.transaction(async (tx) => {
+      const created = await appendVersion(tx, {
+        userId: data.userId,
+        documentId: data.documentId,
+        title: data.originalFileName,
+        values: {
+          id,
+          // Served by GET /resume/:id/file, which redirects to a signed URL
+          fileUrl: `/resume/${id}/file`,
+          storageKey: data.storageKey,
+          mimeType: data.mimeType,
+          originalFileName: data.originalFileName,
+          fileSize: data.fileSize,
+          fileHash: data.fileHash,
+          processingStatus: "pending",
+        },
+      });
+
+      await QueueService.enqueue(ANALYZE_RESUME_JOB, { resumeId: created.id }, {}, tx);
+      return created;
+    });
 
-    const [resume] = await db
-      .insert(resumes)
-      .values({
-        fileUrl: data.fileUrl,
+    return normalizeResume(resume);
+  }
+
+  /**
+   * Save an imported resume (JSON Resume or LinkedIn export). Its text and
+   * analysis come from the structured data, so it is stored "ready" and no
+   * analysis job is queued. There is no uploaded file for an ATS to read, so
+   * it gets no ATS score.
+   */
+  static async importResume(data: {
+    userId: string;
+    documentId?: string;
+    storageKey: string;
+    originalFileName: string;
+    fileSize: number;
+    fileHash: string;
+    resumeText: string;
+    analysis: ResumeAnalysis;
+  }): Promise<Resume> {
+    const id = crypto.randomUUID();
+    const resume = await db.transaction((tx) =>
+      appendVersion(tx, {
         userId: data.userId,
-        analysis: aiAnalysis as any,
+        documentId: data.documentId,
+        title: data.originalFileName,
+        values: {
+          id,
+          fileUrl: `/resume/${id}/file`,
+          storageKey: data.storageKey,
+          mimeType: "application/json",
+          originalFileName: data.originalFileName,
+          fileSize: data.fileSize,
+          fileHash: data.fileHash,
+          resumeText: data.resumeText,
+          textHash: textHash(data.resumeText),
+          analysis: data.analysis,
+          analysisStatus: "ok",
+          processingStatus: "ready",
+        },
       })
-      .returning();
-
-    if (!resume) throw new Error("Failed to create resume");
+    );
 
     return normalizeResume(resume);
   }
 
-  static async getResumeById(id: string): Promise<Resume | null> {
-    const resume = await db.query.resumes.findFirst({ where: eq(resumes.id, id) });
+  /**
+   * An earlier upload of the same file by this user, returned instead of
+   * storing and analysing it again. Failed uploads are ignored so a retry
+   * gets a fresh attempt; with `documentId` only that document counts.
+   */
+  static async findDuplicate(userId: string, fileHash: string, documentId?: string): Promise<Resume | null> {
+    const rows = await db
+      .select({ resume: resumes, currentResumeId: resumeDocuments.currentResumeId })
+      .from(resumes)
+      .leftJoin(resumeDocuments, eq(resumes.documentId, resumeDocuments.id))
+      .where(
+        and(
+          eq(resumes.userId, userId),
+          eq(resumes.fileHash, fileHash),
+          ne(resumes.processingStatus, "failed"),
+          documentId ? eq(resumes.documentId, documentId) : undefined
+        )
+      )
+      .orderBy(desc(resumes.createdAt));
+
+    // The current version of its document is what the user sees, so prefer it
+    const match = rows.find((row) => row.resume.id === row.currentResumeId) ?? rows[0];
+    return match ? normalizeResume(match.resume) : null;
+  }
+
+  // A finished analysis of the same text from another of the user's resumes
+  static async findAnalysisByTextHash(
+    userId: string,
+    textHash: string,
+    excludeId: string
+  ): Promise<{ analysis: ResumeAnalysis; analysisStatus: AnalysisStatus | null } | null> {
+    const [match] = await db
+      .select({ analysis: resumes.analysis, analysisStatus: resumes.analysisStatus })
+      .from(resumes)
+      .where(
+        and(
+          eq(resumes.userId, userId),
+          eq(resumes.textHash, textHash),
+          ne(resumes.id, excludeId),
+          eq(resumes.processingStatus, "ready"),
+          isNotNull(resumes.analysis)
+        )
+      )
+      .orderBy(desc(resumes.createdAt))
+      .limit(1);
+
+    return match ? { analysis: match.analysis as ResumeAnalysis, analysisStatus: match.analysisStatus } : null;
+  }
+
+  static async getProcessingStatus(id: string, userId?: string): Promise<ResumeProcessingStatus | null> {
+    const resume = await db.query.resumes.findFirst({
+      where: userId ? and(eq(resumes.id, id), eq(resumes.userId, userId)) : eq(resumes.id, id),
+      columns: { id: true, processingStatus: true, processingError: true, analysisStatus: true },
+    });
+    if (!resume) return null;
+
+    const job = await QueueService.findLatest(ANALYZE_RESUME_JOB, "resumeId", id);
+
+    return {
+      id: resume.id,
+      processingStatus: resume.processingStatus,
+      analysisStatus: resume.analysisStatus,
+      error: resume.processingError,
+      attempts: job?.attempts ?? 0,
+      maxAttempts: job?.maxAttempts ?? 0,
+      nextAttemptAt: job?.status === "pending" && job.attempts > 0 ? job.runAt : null,
+    };
+  }
+
+  /**
+   * Fetch a resume. When `userId` is given the lookup is scoped to that owner,
+   * so another user's resume is indistinguishable from a missing one.
+   */
+  static async getResumeById(id: string, userId?: string): Promise<Resume | null> {
+    const resume = await db.query.resumes.findFirst({
+      where: userId ? and(eq(resumes.id, id), eq(resumes.userId, userId)) : eq(resumes.id, id),
+    });
     if (!resume || !resume.userId) return null;
     return normalizeResume(resume);
   }
 
-  static async updateResume(id: string, updates: Partial<Pick<Resume, "fileUrl" | "analysis">>): Promise<Resume | null> {
-    const [resume] = await db.update(resumes).set(updates).where(eq(resumes.id, id)).returning();
-    if (!resume || !resume.userId) return null;
+  /**
+   * Apply edits as a new version of the resume's document rather than
+   * overwriting it, so earlier analyses stay in the history. The new
+   * version shares the stored file and extracted text; if the original has
+   * no finished analysis and none is supplied, it is queued for analysis.
+   */
+  static async updateResume(
+    id: string,
+    userId: string | undefined,
+    updates: Partial<Pick<Resume, "fileUrl" | "analysis">>
+  ): Promise<Resume | null> {
+    const source = await db.query.resumes.findFirst({
+      where: userId ? and(eq(resumes.id, id), eq(resumes.userId, userId)) : eq(resumes.id, id),
+    });
+    if (!source || !source.userId) return null;
+
+    const newId = crypto.randomUUID();
+    const sourceAnalysis = source.analysis as ResumeAnalysis | null;
+    const needsAnalysis = !updates.analysis && source.processingStatus !== "ready";
+
+    const resume = await db.transaction(async (tx) => {
+      const documentId = await ensureDocument(tx, source);
+      const created = await appendVersion(tx, {
+        userId: source.userId,
+        documentId,
+        values: {
+          id: newId,
+          fileUrl: updates.fileUrl ?? `/resume/${newId}/file`,
+          // An external fileUrl replaces the stored file
+          storageKey: updates.fileUrl ? null : resumeStorageKey(source),
+          mimeType: source.mimeType,
+          originalFileName: source.originalFileName,
+          fileSize: source.fileSize,
+          fileHash: updates.fileUrl ? null : source.fileHash,
+          resumeText: source.resumeText,
+          textHash: source.textHash,
+          extractionMethod: source.extractionMethod,
+          extractionConfidence: source.extractionConfidence,
+          // A client-supplied analysis has passed updateResumeSchema, so it is valid by construction.
+          // The ATS score is computed from the extracted text, which is unchanged, so it carries over.
+          analysis: updates.analysis
+            ? { ...updates.analysis, aiScore: sourceAnalysis?.aiScore, atsBreakdown: sourceAnalysis?.atsBreakdown }
+            : source.analysis,
+          analysisStatus: updates.analysis ? "ok" : source.analysisStatus,
+          processingStatus: updates.analysis ? "ready" : needsAnalysis ? "pending" : source.processingStatus,
+        },
+      });
+
+      if (needsAnalysis) {
+        await QueueService.enqueue(ANALYZE_RESUME_JOB, { resumeId: created.id }, {}, tx);
+      }
+      return created;
+    });
+
     return normalizeResume(resume);
   }
 
-  static async listResumes(userId?: string): Promise<Resume[]> {
+  static async listResumes(userId: string): Promise<Resume[]> {
     const result = await db
       .select()
       .from(resumes)
-      .where(userId ? eq(resumes.userId, userId) : undefined);
+      .where(eq(resumes.userId, userId));
 
     return result.filter((r) => r.userId).map(normalizeResume);
   }
@@ -0,0 +1,137 @@
+import crypto from "node:crypto";
+import path from "node:path";
+import { fileUploadSchema, MAX_UPLOAD_BYTES } from "../../types.js";
+import { getScanner } from "../scanner/malware.scanner.js";
+import { detectFormat, supportedFormatLabels } from "./formats/format.registry.js";
+import { InvalidFileError } from "./formats/format.types.js";
+import type { ResumeFormat } from "./formats/format.types.js";
+import { RESUME_STORAGE_PREFIX } from "./resume.service.js";
+import { sha256 } from "./content.hash.js";
+
+export type UploadRejectionReason = "too_large" | "invalid" | "unsupported_type" | "malformed" | "infected" | "scan_failed";
+
+export class UploadRejectedError extends Error {
+  constructor(
+    message: string,
+    readonly reason: UploadRejectionReason,
+    readonly status: 400 | 413 | 415 | 422 | 503,
+    readonly details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = "UploadRejectedError";
+  }
+}
+
+export interface InspectedUpload {
+  buffer: Buffer;
+  format: ResumeFormat;
+  // Random name the file is stored under; never derived from user input
+  storageKey: string;
+  // Client-supplied name, cleaned up for display and downloads only
+  originalFileName: string;
+  // SHA-256 of the bytes, used to spot re-uploads
+  fileHash: string;
+}
+
+const MAX_FILE_NAME_LENGTH = 255;
+
+/**
+ * Reduce a client-supplied file name to something safe to show and echo in
+ * a Content-Disposition header: no directories, control characters or
+ * quotes, and a bounded length.
+ */
+export function sanitizeFileName(name: string): string {
+  const base = path.posix.basename(name.replace(/\\/g, "/")).normalize("NFC");
+  const cleaned = base
+    .replace(/[\u0000-\u001f\u007f"<>|*?:]/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/^\.+/, "");
+
+  if (!cleaned) return "resume";
+  if (cleaned.length <= MAX_FILE_NAME_LENGTH) return cleaned;
+
+  // Keep the extension when shortening
+  const ext = path.extname(cleaned).slice(0, 16);
+  return cleaned.slice(0, MAX_FILE_NAME_LENGTH - ext.length) + ext;
+}
+
+const tooLarge = () => new UploadRejectedError("File is too large", "too_large", 413, { maxBytes: MAX_UPLOAD_BYTES });
+
+// Load the file into memory, refusing anything over the upload limit
+export async function readUpload(file: File): Promise<Buffer> {
+  if (file.size > MAX_UPLOAD_BYTES) throw tooLarge();
+  const buffer = Buffer.from(await file.arrayBuffer());
+  // The declared size is client-controlled; the bytes are what count
+  if (buffer.length > MAX_UPLOAD_BYTES) throw tooLarge();
+  return buffer;
+}
+
+// Run the malware scanner, failing closed: an unscanned file is never stored
+export async function scanUpload(buffer: Buffer): Promise<void> {
+  const scanner = getScanner();
+  let scan;
+  try {
+    scan = await scanner.scan(buffer);
+  } catch (error) {
+    console.error(`Malware scan (${scanner.name}) failed:`, error);
+    throw new UploadRejectedError("File could not be scanned, please try again later", "scan_failed", 503);
+  }
+  if (!scan.clean) {
+    throw new UploadRejectedError("File was rejected by the malware scanner", "infected", 422, {
+      signature: scan.signature,
+    });
+  }
+}
+
+/**
+ * Check an uploaded file before anything is written to disk: size, declared
+ * type, actual format from the content, format-specific validation (e.g.
+ * encrypted PDFs) and finally the malware scanner. Throws
+ * UploadRejectedError with the HTTP status to answer with.
+ */
+export async function inspectUpload(file: File): Promise<InspectedUpload> {
+  if (file.size > MAX_UPLOAD_BYTES) throw tooLarge();
+
+  const parsed = fileUploadSchema.safeParse({ file: { name: file.name, type: file.type, size: file.size } });
+  if (!parsed.success) {
+    const typeRejected = parsed.error.issues.some((issue) => issue.path.includes("type"));
+    throw new UploadRejectedError(
+      typeRejected ? "Unsupported file type" : "Invalid file",
+      typeRejected ? "unsupported_type" : "invalid",
+      typeRejected ? 415 : 400,
+      { errors: parsed.error.format() }
+    );
+  }
+
+  const buffer = await readUpload(file);
+
+  // Decide the format from the content; the client's file.type is not trusted
+  const format = await detectFormat(buffer, file.name);
+  if (!format) {
+    throw new UploadRejectedError(
+      `Unsupported file type. Supported formats: ${supportedFormatLabels().join(", ")}`,
+      "unsupported_type",
+      415
+    );
+  }
+
+  try {
+    await format.validate?.(buffer);
+  } catch (error) {
+    if (error instanceof InvalidFileError) {
+      throw new UploadRejectedError(error.message, "malformed", 422);
+    }
+    throw error;
+  }
+
+  await scanUpload(buffer);
+
+  return {
+    buffer,
+    format,
+    storageKey: `${RESUME_STORAGE_PREFIX}/${crypto.randomUUID()}.${format.id}`,
+    originalFileName: sanitizeFileName(file.name),
+    fileHash: sha256(buffer),
+  };
+}
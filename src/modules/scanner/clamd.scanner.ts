@@ -0,0 +1,70 @@
+import net from 'node:net';
+import type { MalwareScanner, ScanResult } from './malware.scanner.js';
+
+export interface ClamdConfig {
+  socketPath?: string;
+  host: string;
+  port: number;
+  timeoutMs: number;
+}
+
+// clamd's default StreamMaxLength is 25MB; chunks must stay well below it
+const CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Scans buffers with a running clamd using the INSTREAM protocol: the file
+ * is sent as length-prefixed chunks and clamd answers with one line, e.g.
+ * "stream: OK" or "stream: Eicar-Signature FOUND".
+ */
+export class ClamdScanner implements MalwareScanner {
+  readonly name = 'clamav';
+
+  constructor(private readonly config: ClamdConfig) {}
+
+  scan(buffer: Buffer): Promise<ScanResult> {
+    return new Promise((resolve, reject) => {
+      const socket = this.config.socketPath
+        ? net.createConnection(this.config.socketPath)
+        : net.createConnection(this.config.port, this.config.host);
+      const response: Buffer[] = [];
+
+      socket.setTimeout(this.config.timeoutMs, () => {
+        socket.destroy(new Error('clamd scan timed out'));
+      });
+      socket.on('error', reject);
+      socket.on('data', (chunk) => response.push(chunk));
+      socket.on('end', () => {
+        try {
+          resolve(ClamdScanner.parseResponse(Buffer.concat(response).toString('utf8')));
+        } catch (error) {
+          reject(error);
+        }
+      });
+
+      socket.on('connect', () => {
+        socket.write('zINSTREAM\0');
+        for (let offset = 0; offset < buffer.length; offset += CHUNK_SIZE) {
+          const chunk = buffer.subarray(offset, offset + CHUNK_SIZE);
+          const length = Buffer.alloc(4);
+          length.writeUInt32BE(chunk.length);
+          socket.write(length);
+          socket.write(chunk);
+        }
+        // A zero-length chunk ends the stream
+        socket.end(Buffer.alloc(4));
+      });
+    });
+  }
+
+  static parseResponse(raw: string): ScanResult {
+    const reply = raw.replace(/\0/g, '').trim();
+
+    if (/:\s*OK$/.test(reply)) return { clean: true };
+
+    const found = /:\s*(.+)\s+FOUND$/.exec(reply);
+    if (found) return { clean: false, signature: found[1] };
+
+    // e.g. "INSTREAM size limit exceeded. ERROR"
+    throw new Error(`Unexpected clamd response: ${reply}`);
+  }
+}
@@ -0,0 +1,50 @@
+import path from 'node:path';
+import { LocalFileStorage } from './local.storage.js';
+import { S3FileStorage } from './s3.storage.js';
+import type { FileStorage } from './storage.types.js';
+
+export * from './storage.types.js';
+
+let storage: FileStorage | null = null;
+
+/**
+ * Resolve the backend from STORAGE_DRIVER (local | s3). Local storage keeps
+ * files under STORAGE_LOCAL_DIR and serves signed URLs from this API; s3
+ * works with AWS and S3-compatible servers such as MinIO (set S3_ENDPOINT
+ * and S3_FORCE_PATH_STYLE=true).
+ */
+export function getStorage(): FileStorage {
+  if (storage) return storage;
+
+  switch (process.env.STORAGE_DRIVER) {
+    case 's3':
+      storage = new S3FileStorage({
+        bucket: process.env.S3_BUCKET || '',
+        region: process.env.S3_REGION || 'us-east-1',
+        endpoint: process.env.S3_ENDPOINT,
+        accessKeyId: process.env.S3_ACCESS_KEY_ID || '',
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || '',
+        sessionToken: process.env.S3_SESSION_TOKEN,
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+      });
+      break;
+    default:
+      storage = createLocalStorage();
+  }
+
+  return storage;
+}
+
+// The on-disk store, also the source when migrating to another backend
+export function createLocalStorage(): LocalFileStorage {
+  return new LocalFileStorage({
+    root: process.env.STORAGE_LOCAL_DIR || path.join(process.cwd(), 'uploads'),
+    publicUrl: process.env.STORAGE_PUBLIC_URL || '',
+    signingSecret: process.env.STORAGE_SIGNING_SECRET || process.env.JWT_SECRET || 'your-secret-key',
+  });
+}
+
+// Swap the backend at runtime, e.g. to point a test harness at a stand-in
+export function setStorage(next: FileStorage | null): void {
+  storage = next;
+}
@@ -0,0 +1,104 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { assertValidKey, FileNotFoundError, SIGNED_URL_TTL_SECONDS } from './storage.types.js';
+import type { FileStorage, PutOptions, SignedUrlOptions } from './storage.types.js';
+
+export interface LocalStorageConfig {
+  root: string;
+  // Public origin of this API, prefixed to signed URLs; empty gives relative URLs
+  publicUrl: string;
+  signingSecret: string;
+}
+
+// Parameters of a signed URL as received by GET /files/*
+export interface SignedRequest {
+  expires?: string;
+  name?: string;
+  type?: string;
+  signature?: string;
+}
+
+/**
+ * Files on the local disk. Signed URLs point at GET /files/<key> on this
+ * API and carry an HMAC over the key, expiry and response headers.
+ */
+export class LocalFileStorage implements FileStorage {
+  readonly name = 'local';
+
+  constructor(private readonly config: LocalStorageConfig) {}
+
+  get root(): string {
+    return this.config.root;
+  }
+
+  private resolve(key: string): string {
+    assertValidKey(key);
+    return path.join(this.config.root, ...key.split('/'));
+  }
+
+  async put(key: string, body: Buffer, _options?: PutOptions): Promise<void> {
+    const target = this.resolve(key);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    // Write then rename so readers never see a partial file
+    const temp = `${target}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+    await fs.writeFile(temp, body);
+    await fs.rename(temp, target);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') throw new FileNotFoundError(key);
+      throw error;
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return fs
+      .access(this.resolve(key))
+      .then(() => true)
+      .catch(() => false);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.unlink(this.resolve(key)).catch((error: NodeJS.ErrnoException) => {
+      if (error.code !== 'ENOENT') throw error;
+    });
+  }
+
+  async signedUrl(key: string, options: SignedUrlOptions = {}): Promise<string> {
+    assertValidKey(key);
+    const params: SignedRequest = {
+      expires: String(Math.floor(Date.now() / 1000) + (options.expiresInSeconds ?? SIGNED_URL_TTL_SECONDS)),
+      name: options.fileName,
+      type: options.contentType,
+    };
+    const query = new URLSearchParams();
+    for (const [name, value] of Object.entries(params)) {
+      if (value !== undefined) query.set(name, value);
+    }
+    query.set('signature', this.sign(key, params));
+
+    const encodedKey = key.split('/').map(encodeURIComponent).join('/');
+    return `${this.config.publicUrl.replace(/\/$/, '')}/files/${encodedKey}?${query}`;
+  }
+
+  // Whether a request for `key` carries a valid, unexpired signature
+  verify(key: string, request: SignedRequest): boolean {
+    if (!request.signature || !request.expires) return false;
+    if (Number(request.expires) < Date.now() / 1000) return false;
+
+    const expected = Buffer.from(this.sign(key, request));
+    const given = Buffer.from(request.signature);
+    return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+  }
+
+  private sign(key: string, { expires, name, type }: SignedRequest): string {
+    return crypto
+      .createHmac('sha256', this.config.signingSecret)
+      .update([key, expires, name ?? '', type ?? ''].join('\n'))
+      .digest('base64url');
+  }
+}
@@ -0,0 +1,175 @@
+import crypto from 'node:crypto';
+import { assertValidKey, contentDisposition, FileNotFoundError, SIGNED_URL_TTL_SECONDS, StorageError } from './storage.types.js';
+import type { FileStorage, PutOptions, SignedUrlOptions } from './storage.types.js';
+
+export interface S3StorageConfig {
+  bucket: string;
+  region: string;
+  // Custom endpoint for S3-compatible servers, e.g. http://localhost:9000 for MinIO
+  endpoint?: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+  // http://host/bucket/key instead of http://bucket.host/key; most self-hosted servers need this
+  forcePathStyle?: boolean;
+  fetchImpl?: typeof fetch;
+}
+
+// S3 rejects presigned URLs valid for longer than seven days
+const MAX_PRESIGN_SECONDS = 7 * 24 * 60 * 60;
+const EMPTY_HASH = crypto.createHash('sha256').update('').digest('hex');
+
+const sha256 = (data: string | Buffer) => crypto.createHash('sha256').update(data).digest('hex');
+const hmac = (key: string | Buffer, data: string) => crypto.createHmac('sha256', key).update(data).digest();
+
+// RFC 3986 encoding as SigV4 expects; encodeURIComponent leaves !'()* alone
+const encode = (value: string) =>
+  encodeURIComponent(value).replace(/[!'()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+
+const amzDate = (date: Date) => date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+
+/**
+ * Objects in an S3 bucket, signed with AWS Signature Version 4 and sent
+ * with fetch. Works against AWS and S3-compatible servers (MinIO, R2, ...).
+ */
+export class S3FileStorage implements FileStorage {
+  readonly name = 's3';
+
+  private readonly fetchImpl: typeof fetch;
+
+  constructor(private readonly config: S3StorageConfig) {
+    this.fetchImpl = config.fetchImpl ?? fetch;
+  }
+
+  private objectUrl(key: string): URL {
+    assertValidKey(key);
+    if (!this.config.bucket) throw new StorageError('S3_BUCKET is not configured');
+
+    const endpoint = new URL(this.config.endpoint || `https://s3.${this.config.region}.amazonaws.com`);
+    const path = key.split('/').map(encode).join('/');
+
+    if (this.config.forcePathStyle) {
+      endpoint.pathname = `${endpoint.pathname.replace(/\/$/, '')}/${this.config.bucket}/${path}`;
+    } else {
+      endpoint.hostname = `${this.config.bucket}.${endpoint.hostname}`;
+      endpoint.pathname = `${endpoint.pathname.replace(/\/$/, '')}/${path}`;
+    }
+    return endpoint;
+  }
+
+  private scope(date: Date): string {
+    return `${amzDate(date).slice(0, 8)}/${this.config.region}/s3/aws4_request`;
+  }
+
+  private signature(date: Date, canonicalRequest: string): string {
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate(date), this.scope(date), sha256(canonicalRequest)].join('\n');
+
+    let key: Buffer = hmac(`AWS4${this.config.secretAccessKey}`, amzDate(date).slice(0, 8));
+    for (const part of [this.config.region, 's3', 'aws4_request']) key = hmac(key, part);
+    return crypto.createHmac('sha256', key).update(stringToSign).digest('hex');
+  }
+
+  private canonicalRequest(method: string, url: URL, headers: Record<string, string>, payloadHash: string): string {
+    const query = [...url.searchParams.entries()]
+      .map(([name, value]) => [encode(name), encode(value)])
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([name, value]) => `${name}=${value}`)
+      .join('&');
+    const names = Object.keys(headers).sort();
+
+    return [
+      method,
+      url.pathname,
+      query,
+      names.map((name) => `${name}:${headers[name].trim()}\n`).join(''),
+      names.join(';'),
+      payloadHash,
+    ].join('\n');
+  }
+
+  private async send(method: string, key: string, body?: Buffer, extraHeaders: Record<string, string> = {}): Promise<Response> {
+    const url = this.objectUrl(key);
+    const date = new Date();
+    const payloadHash = body ? sha256(body) : EMPTY_HASH;
+    const headers: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate(date),
+      ...extraHeaders,
+    };
+    if (this.config.sessionToken) headers['x-amz-security-token'] = this.config.sessionToken;
+
+    const signature = this.signature(date, this.canonicalRequest(method, url, headers, payloadHash));
+    const { host: _host, ...sent } = headers;
+
+    try {
+      return await this.fetchImpl(url, {
+        method,
+        body,
+        headers: {
+          ...sent,
+          authorization:
+            `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${this.scope(date)}, ` +
+            `SignedHeaders=${Object.keys(headers).sort().join(';')}, Signature=${signature}`,
+        },
+      });
+    } catch (error) {
+      throw new StorageError(`S3 ${method} ${key} failed: ${(error as Error).message}`);
+    }
+  }
+
+  private async fail(response: Response, method: string, key: string): Promise<never> {
+    const detail = (await response.text().catch(() => '')).match(/<Code>(.*?)<\/Code>/)?.[1];
+    throw new StorageError(`S3 ${method} ${key} failed with ${response.status}${detail ? ` (${detail})` : ''}`, response.status);
+  }
+
+  async put(key: string, body: Buffer, options: PutOptions = {}): Promise<void> {
+    const headers: Record<string, string> = {};
+    if (options.contentType) headers['content-type'] = options.contentType;
+
+    const response = await this.send('PUT', key, body, headers);
+    if (!response.ok) await this.fail(response, 'PUT', key);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const response = await this.send('GET', key);
+    if (response.status === 404) throw new FileNotFoundError(key);
+    if (!response.ok) await this.fail(response, 'GET', key);
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async exists(key: string): Promise<boolean> {
+    const response = await this.send('HEAD', key);
+    if (response.status === 404) return false;
+    if (!response.ok) await this.fail(response, 'HEAD', key);
+    return true;
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.send('DELETE', key);
+    if (!response.ok && response.status !== 404) await this.fail(response, 'DELETE', key);
+  }
+
+  async signedUrl(key: string, options: SignedUrlOptions = {}, now = new Date()): Promise<string> {
+    const url = this.objectUrl(key);
+    const expires = Math.min(options.expiresInSeconds ?? SIGNED_URL_TTL_SECONDS, MAX_PRESIGN_SECONDS);
+
+    const params: Record<string, string> = {
+      'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+      'X-Amz-Credential': `${this.config.accessKeyId}/${this.scope(now)}`,
+      'X-Amz-Date': amzDate(now),
+      'X-Amz-Expires': String(expires),
+      'X-Amz-SignedHeaders': 'host',
+    };
+    if (this.config.sessionToken) params['X-Amz-Security-Token'] = this.config.sessionToken;
+    if (options.fileName) params['response-content-disposition'] = contentDisposition(options.fileName);
+    if (options.contentType) params['response-content-type'] = options.contentType;
+    for (const [name, value] of Object.entries(params)) url.searchParams.set(name, value);
+
+    const signature = this.signature(now, this.canonicalRequest('GET', url, { host: url.host }, 'UNSIGNED-PAYLOAD'));
+
+    // URLSearchParams encodes spaces as "+", which S3 would not match against the signature
+    const query = [...url.searchParams.entries()].map(([name, value]) => `${encode(name)}=${encode(value)}`).join('&');
+    return `${url.origin}${url.pathname}?${query}&X-Amz-Signature=${signature}`;
+  }
+}
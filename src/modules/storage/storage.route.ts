@@ -0,0 +1,47 @@
+import { Hono } from 'hono';
+import { getStorage } from './file.storage.js';
+import { contentDisposition, FileNotFoundError } from './storage.types.js';
+import { LocalFileStorage } from './local.storage.js';
+
+const router = new Hono({ strict: false });
+
+// Serves signed URLs issued by the local backend; other backends hand out their own URLs
+router.get('/*', async (c) => {
+  const storage = getStorage();
+  if (!(storage instanceof LocalFileStorage)) {
+    return c.json({ error: 'Route not found' }, 404);
+  }
+
+  // Decode the raw path ourselves: c.req.path is only partially decoded
+  let key: string;
+  try {
+    key = new URL(c.req.url).pathname.replace(/^\/files\//, '').split('/').map(decodeURIComponent).join('/');
+  } catch {
+    return c.json({ success: false, message: 'Invalid file path' }, 400);
+  }
+  const request = {
+    expires: c.req.query('expires'),
+    name: c.req.query('name'),
+    type: c.req.query('type'),
+    signature: c.req.query('signature'),
+  };
+  if (!storage.verify(key, request)) {
+    return c.json({ success: false, message: 'Invalid or expired link' }, 403);
+  }
+
+  try {
+    const file = await storage.get(key);
+    c.header('Content-Type', request.type || 'application/octet-stream');
+    c.header('Cache-Control', 'private, no-store');
+    c.header('X-Content-Type-Options', 'nosniff');
+    if (request.name) c.header('Content-Disposition', contentDisposition(request.name));
+    return c.body(file);
+  } catch (error) {
+    if (error instanceof FileNotFoundError) {
+      return c.json({ success: false, message: 'File not found' }, 404);
+    }
+    throw error;
+  }
+});
+
+export default router;
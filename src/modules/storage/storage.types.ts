@@ -0,0 +1,56 @@
+export interface PutOptions {
+  contentType?: string;
+}
+
+export interface SignedUrlOptions {
+  // Lifetime of the URL; defaults to STORAGE_SIGNED_URL_TTL
+  expiresInSeconds?: number;
+  // Offered as the download name via Content-Disposition
+  fileName?: string;
+  contentType?: string;
+}
+
+/**
+ * Where uploaded files live. Keys are relative paths such as
+ * "resumes/<uuid>.pdf"; callers never see where a backend puts them.
+ */
+export interface FileStorage {
+  readonly name: string;
+  put(key: string, body: Buffer, options?: PutOptions): Promise<void>;
+  // Throws FileNotFoundError when the key does not exist
+  get(key: string): Promise<Buffer>;
+  exists(key: string): Promise<boolean>;
+  // Removing a missing key is not an error
+  delete(key: string): Promise<void>;
+  // Time-limited URL that downloads the file without further authentication
+  signedUrl(key: string, options?: SignedUrlOptions): Promise<string>;
+}
+
+export class FileNotFoundError extends Error {
+  constructor(readonly key: string) {
+    super(`File not found: ${key}`);
+    this.name = 'FileNotFoundError';
+  }
+}
+
+export class StorageError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+    this.name = 'StorageError';
+  }
+}
+
+export const SIGNED_URL_TTL_SECONDS = Number(process.env.STORAGE_SIGNED_URL_TTL) || 15 * 60;
+
+// Reject keys that could escape the storage root or mean different things to different backends
+export function assertValidKey(key: string): void {
+  if (!key || key.startsWith('/') || key.includes('\\') || key.includes('\0') || key.split('/').some((part) => part === '..' || part === '.' || part === '')) {
+    throw new StorageError(`Invalid storage key: ${JSON.stringify(key)}`);
+  }
+}
+
+// Content-Disposition with an ASCII fallback and the exact name per RFC 6266
+export function contentDisposition(fileName: string, type: 'attachment' | 'inline' = 'attachment'): string {
+  const fallback = fileName.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_');
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+}
@@ -0,0 +1,120 @@
+// Merge resumes a user uploaded more than once. Hashes missing from older
+// rows are filled in first; then, per user, rows with the same file or the
+// same extracted text are folded into one: matches move to the kept resume
+// and the extra rows, their single-version documents and files no other
+// row uses are deleted. Versions of a multi-version document are history
+// and are never removed. Safe to re-run.
+//
+//   npm run dedupe:resumes [-- --dry-run]
+import { and, eq, inArray } from 'drizzle-orm';
+import { db } from '../db/db.js';
+import { matches, resumeDocuments, resumes } from '../db/schema.js';
+import { getStorage } from '../modules/storage/file.storage.js';
+import { readResumeFile, resumeStorageKey } from '../modules/resumes/resume.service.js';
+import { sha256, textHash } from '../modules/resumes/content.hash.js';
+
+const dryRun = process.argv.includes('--dry-run');
+
+type Row = typeof resumes.$inferSelect;
+
+// Hash rows from before hashing existed; `rows` is updated in place so a dry run groups them too
+async function backfillHashes(rows: Row[]): Promise<number> {
+  let filled = 0;
+
+  for (const row of rows) {
+    if (row.fileHash && (row.textHash || !row.resumeText)) continue;
+
+    const updates: Partial<Row> = {};
+    if (!row.fileHash) {
+      const file = await readResumeFile(row).catch(() => null);
+      if (file) updates.fileHash = sha256(file);
+    }
+    if (!row.textHash && row.resumeText) updates.textHash = textHash(row.resumeText);
+
+    if (Object.keys(updates).length === 0) continue;
+    if (!dryRun) await db.update(resumes).set(updates).where(eq(resumes.id, row.id));
+    Object.assign(row, updates);
+    filled++;
+  }
+  return filled;
+}
+
+// Fold `duplicate` into `keeper`: its matches move over (unless the keeper already has that job) and the row goes
+async function merge(keeper: Row, duplicate: Row): Promise<void> {
+  await db.transaction(async (tx) => {
+    const kept = await tx.select({ jobId: matches.jobId }).from(matches).where(eq(matches.resumeId, keeper.id));
+    if (kept.length) {
+      await tx.delete(matches).where(
+        and(eq(matches.resumeId, duplicate.id), inArray(matches.jobId, kept.map((m) => m.jobId)))
+      );
+    }
+    await tx.update(matches).set({ resumeId: keeper.id }).where(eq(matches.resumeId, duplicate.id));
+    await tx.delete(resumes).where(eq(resumes.id, duplicate.id));
+    // Only single-version documents are merged, so the document is now empty
+    if (duplicate.documentId) await tx.delete(resumeDocuments).where(eq(resumeDocuments.id, duplicate.documentId));
+  });
+}
+
+async function main() {
+  const rows = await db.select().from(resumes);
+  const filled = await backfillHashes(rows);
+
+  const versions = new Map<string, number>();
+  for (const row of rows) {
+    if (row.documentId) versions.set(row.documentId, (versions.get(row.documentId) ?? 0) + 1);
+  }
+  const removable = (row: Row) => !row.documentId || versions.get(row.documentId) === 1;
+
+  // Keep a row that has to stay anyway, then one with a finished analysis, then the oldest
+  const preference = (a: Row, b: Row) =>
+    Number(removable(a)) - Number(removable(b)) ||
+    Number(!(a.processingStatus === 'ready' && a.analysis)) - Number(!(b.processingStatus === 'ready' && b.analysis)) ||
+    (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0);
+
+  const alive = new Map(rows.map((row) => [row.id, row]));
+  const removed: Row[] = [];
+
+  // Identical files first, then identical text among what is left
+  for (const hashOf of [(row: Row) => row.fileHash, (row: Row) => row.textHash]) {
+    const groups = new Map<string, Row[]>();
+    for (const row of alive.values()) {
+      const hash = hashOf(row);
+      if (!hash) continue;
+      const key = `${row.userId}:${hash}`;
+      groups.set(key, [...(groups.get(key) ?? []), row]);
+    }
+
+    for (const group of groups.values()) {
+      if (group.length < 2) continue;
+      const [keeper, ...others] = group.sort(preference);
+
+      for (const duplicate of others.filter(removable)) {
+        if (!dryRun) await merge(keeper, duplicate);
+        alive.delete(duplicate.id);
+        removed.push(duplicate);
+      }
+    }
+  }
+
+  // Files shared with a surviving row (e.g. edited versions) stay
+  const inUse = new Set([...alive.values()].map(resumeStorageKey));
+  const files = [...new Set(removed.map(resumeStorageKey))].filter((key): key is string => !!key && !inUse.has(key));
+  if (!dryRun) {
+    const storage = getStorage();
+    for (const key of files) {
+      await storage.delete(key).catch((error) => console.warn(`⚠️  Could not delete ${key}:`, error.message));
+    }
+  }
+
+  console.log(
+    `${dryRun ? '🔎 Dry run: would have' : '✅'} filled hashes on ${filled} resumes, ` +
+      `removed ${removed.length} duplicate resumes and ${files.length} files`
+  );
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Deduplication failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => db.$client.end());
@@ -0,0 +1,23 @@
+// Backfill the identities table from the legacy users.google_id column.
+// Safe to re-run: existing (provider, subject) pairs are skipped.
+import { sql } from 'drizzle-orm';
+import { db } from '../db/db.js';
+
+async function main() {
+  const result = await db.execute(sql`
+    INSERT INTO identities (user_id, provider, subject, email)
+    SELECT id, 'google', google_id, email
+    FROM users
+    WHERE google_id IS NOT NULL
+    ON CONFLICT DO NOTHING
+  `);
+
+  console.log(`✅ Migrated ${result.rowCount ?? 0} Google accounts into identities`);
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Identity migration failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => db.$client.end());
@@ -0,0 +1,34 @@
+// Give every resume uploaded before versioning its own document, with the
+// resume as version 1 and current. Safe to re-run: only resumes without a
+// document are touched.
+import { sql } from 'drizzle-orm';
+import { db } from '../db/db.js';
+
+async function main() {
+  const result = await db.execute(sql`
+    WITH legacy AS (
+      SELECT id, user_id, original_file_name, created_at
+      FROM resumes
+      WHERE document_id IS NULL
+    ),
+    documents AS (
+      INSERT INTO resume_documents (user_id, title, current_resume_id, created_at, updated_at)
+      SELECT user_id, original_file_name, id, COALESCE(created_at, now()), COALESCE(created_at, now())
+      FROM legacy
+      RETURNING id, current_resume_id
+    )
+    UPDATE resumes
+    SET document_id = documents.id, version = 1
+    FROM documents
+    WHERE resumes.id = documents.current_resume_id
+  `);
+
+  console.log(`✅ Created documents for ${result.rowCount ?? 0} resumes`);
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Document migration failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => db.$client.end());
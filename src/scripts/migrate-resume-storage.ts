@@ -0,0 +1,81 @@
+// Move resume files from the local uploads directory into the configured
+// storage backend (STORAGE_DRIVER) and point every row at its storage key.
+// Safe to re-run: files already in the backend are not copied again.
+//
+//   npm run migrate:storage [-- --dry-run] [-- --delete-local]
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { db } from '../db/db.js';
+import { resumes } from '../db/schema.js';
+import { eq } from 'drizzle-orm';
+import { createLocalStorage, getStorage } from '../modules/storage/file.storage.js';
+import { LocalFileStorage } from '../modules/storage/local.storage.js';
+import { RESUME_STORAGE_PREFIX, resumeStorageKey } from '../modules/resumes/resume.service.js';
+
+const dryRun = process.argv.includes('--dry-run');
+const deleteLocal = process.argv.includes('--delete-local');
+
+async function main() {
+  const source = createLocalStorage();
+  const target = getStorage();
+  // Nothing to copy when the backend is the uploads directory itself
+  const inPlace = target instanceof LocalFileStorage && path.resolve(target.root) === path.resolve(source.root);
+
+  const rows = await db
+    .select({ id: resumes.id, fileUrl: resumes.fileUrl, storageKey: resumes.storageKey, mimeType: resumes.mimeType })
+    .from(resumes);
+
+  const referenced = new Set<string>();
+  let copied = 0;
+  let updated = 0;
+  let missing = 0;
+  let removed = 0;
+
+  for (const row of rows) {
+    const key = resumeStorageKey(row);
+    if (!key) {
+      console.warn(`⚠️  Resume ${row.id} points at ${row.fileUrl}, which is not a stored upload; skipped`);
+      continue;
+    }
+    referenced.add(key);
+
+    if (!inPlace && !(await target.exists(key))) {
+      if (!(await source.exists(key))) {
+        console.warn(`⚠️  File for resume ${row.id} (${key}) not found locally or in ${target.name}`);
+        missing++;
+        continue;
+      }
+      if (!dryRun) await target.put(key, await source.get(key), { contentType: row.mimeType ?? undefined });
+      copied++;
+    }
+
+    const fileUrl = `/resume/${row.id}/file`;
+    if (row.storageKey !== key || row.fileUrl !== fileUrl) {
+      if (!dryRun) await db.update(resumes).set({ storageKey: key, fileUrl }).where(eq(resumes.id, row.id));
+      updated++;
+    }
+
+    // Only once the copy is confirmed to exist in the backend
+    if (deleteLocal && !inPlace && !dryRun && (await source.exists(key))) {
+      await source.delete(key);
+      removed++;
+    }
+  }
+
+  const localFiles = await fs.readdir(path.join(source.root, RESUME_STORAGE_PREFIX)).catch(() => [] as string[]);
+  const orphans = localFiles.filter((name) => !referenced.has(`${RESUME_STORAGE_PREFIX}/${name}`));
+
+  console.log(
+    `${dryRun ? '🔎 Dry run: would have' : '✅'} copied ${copied} files to ${target.name}, updated ${updated} rows` +
+      (deleteLocal ? `, removed ${removed} local copies` : '')
+  );
+  if (missing) console.log(`⚠️  ${missing} resumes have no file`);
+  if (orphans.length) console.log(`ℹ️  ${orphans.length} local files belong to no resume and were left in place`);
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Storage migration failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => db.$client.end());
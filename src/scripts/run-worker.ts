@@ -0,0 +1,16 @@
+// Standalone queue worker, for running analysis outside the API process
+// (start the API with QUEUE_WORKER_ENABLED=false in that case).
+import 'dotenv/config';
+import { db } from '../db/db.js';
+import { startWorker } from '../worker.js';
+
+const worker = startWorker();
+
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.once(signal, () => {
+    console.log(`${signal} received, waiting for running jobs...`);
+    worker
+      .stop()
+      .finally(() => db.$client.end());
+  });
+}
@@ -0,0 +1,43 @@
+// Compute the ATS-readiness score for analysed resumes that have none, or
+// one from an older version of the scoring rules. Only the stored text is
+// used; no file is read and no LLM is called. Safe to re-run.
+//
+//   npm run score:resumes [-- --dry-run]
+import { and, eq, isNotNull } from 'drizzle-orm';
+import { db } from '../db/db.js';
+import { resumes } from '../db/schema.js';
+import type { ResumeAnalysis } from '../types.js';
+import { ATS_SCORE_VERSION, withAtsScore } from '../modules/resumes/ats.score.js';
+
+const dryRun = process.argv.includes('--dry-run');
+
+async function main() {
+  const rows = await db
+    .select()
+    .from(resumes)
+    .where(and(eq(resumes.processingStatus, 'ready'), isNotNull(resumes.resumeText), isNotNull(resumes.analysis)));
+
+  let scored = 0;
+  for (const row of rows) {
+    const analysis = row.analysis as ResumeAnalysis;
+    // Imports (JSON Resume, LinkedIn) have no uploaded file for an ATS to read
+    if (row.mimeType === 'application/json' || analysis.atsBreakdown?.version === ATS_SCORE_VERSION) continue;
+
+    const updated = withAtsScore(analysis, {
+      text: row.resumeText!,
+      extractionMethod: row.extractionMethod,
+      extractionConfidence: row.extractionConfidence,
+    });
+    if (!dryRun) await db.update(resumes).set({ analysis: updated }).where(eq(resumes.id, row.id));
+    scored++;
+  }
+
+  console.log(`${dryRun ? '🔎 Dry run: would have scored' : '✅ Scored'} ${scored} of ${rows.length} analysed resumes`);
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ ATS scoring failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => db.$client.end());
@@ -5,22 +5,108 @@ export interface User {
   passwordHash: string;
   createdAt: Date | null;
 }
+export type UserRole = 'candidate' | 'employer' | 'admin';
+
 export interface UserPublic {
   id: string;
   email: string;
   name: string | null;
+  role: UserRole;
+  emailVerifiedAt?: Date | null;
   createdAt: Date | null;
 }
 
+// Full profile as shown to (and edited by) the account owner
+export interface UserProfile extends UserPublic {
+  phone: string | null;
+  location: string | null;
+  linkedin: string | null;
+  github: string | null;
+  website: string | null;
+}
 
 export interface Resume {
   id: string;
   userId: string;
+  documentId: string | null;
+  version: number;
   fileUrl: string;
+  storageKey: string | null;
   analysis: ResumeAnalysis | null;
+  analysisStatus: AnalysisStatus | null;
+  processingStatus: ProcessingStatus;
+  processingError: string | null;
+  mimeType: string | null;
+  originalFileName: string | null;
+  fileSize: number | null;
+  fileHash: string | null;
+  textHash: string | null;
+  resumeText: string | null;
+  extractionMethod: ExtractionMethod | null;
+  extractionConfidence: number | null;
   createdAt: Date | null;
 }
 
+export interface ResumeDocument {
+  id: string;
+  userId: string;
+  title: string | null;
+  currentResumeId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// One entry of a document's version history
+export interface ResumeVersionSummary {
+  id: string;
+  version: number;
+  isCurrent: boolean;
+  originalFileName: string | null;
+  processingStatus: ProcessingStatus;
+  analysisStatus: AnalysisStatus | null;
+  aiScore: number | null;
+  createdAt: Date | null;
+}
+
+export interface ResumeDocumentWithVersions extends ResumeDocument {
+  versions: ResumeVersionSummary[];
+}
+
+export interface LineChange {
+  type: 'added' | 'removed';
+  line: string;
+}
+
+export interface SectionDiff {
+  section: string;
+  status: 'added' | 'removed' | 'changed';
+  // Changed lines in document order; unchanged lines are left out
+  changes: LineChange[];
+}
+
+export interface NumberChange {
+  from: number | null;
+  to: number | null;
+  change: number | null;
+}
+
+export interface ResumeDiff {
+  documentId: string;
+  from: { resumeId: string; version: number; createdAt: Date | null };
+  to: { resumeId: string; version: number; createdAt: Date | null };
+  skills: { added: string[]; removed: string[] };
+  experience: NumberChange;
+  education: { added: Education[]; removed: Education[] };
+  score: NumberChange;
+  sections: SectionDiff[];
+}
+
+export type ExtractionMethod = 'text' | 'ocr';
+
+export type ProcessingStatus = 'pending' | 'processing' | 'ready' | 'failed';
+
+export type AnalysisStatus = 'ok' | 'partial' | 'failed';
+
 export interface Job {
   id: string;
   title: string;
@@ -61,11 +147,38 @@ export interface ResumeAnalysis {
   summary?: string;
   strengths?: string[];
   improvements?: string[];
+  // ATS-readiness score, 0-100, computed from the file and its text; see atsBreakdown
   aiScore?: number;
+  atsBreakdown?: AtsBreakdown;
   keywords?: string[];
   contactInfo?: ContactInfo;
 }
 
+export type AtsCheckId =
+  | 'parseable_text'
+  | 'section_headings'
+  | 'contact_info'
+  | 'date_formats'
+  | 'bullet_density'
+  | 'quantified_achievements'
+  | 'layout'
+  | 'length';
+
+// One factor of the ATS-readiness score
+export interface AtsCheck {
+  id: AtsCheckId;
+  label: string;
+  points: number;
+  maxPoints: number;
+  detail: string;
+}
+
+export interface AtsBreakdown {
+  // Bumped when the scoring rules change, so old scores can be told apart
+  version: number;
+  checks: AtsCheck[];
+}
+
 export interface Education {
   degree: string;
   institution: string;
@@ -85,12 +198,35 @@ export interface ContactInfo {
 // Auth types
 export interface AuthResponse {
   user: UserPublic;
-  token: string;
+  token: string; // short-lived access token
+  refreshToken: string;
+  expiresIn: number; // access token lifetime in seconds
+}
+
+export type IdentityProvider = 'google' | 'github' | 'linkedin';
+
+// Normalised user profile returned by an external identity provider
+export interface ExternalProfile {
+  subject: string;
+  email: string | null;
+  emailVerified: boolean;
+  name: string | null;
 }
 
+// Returned by login instead of tokens when the account has 2FA enabled
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+  expiresIn: number;
+}
+
+export type LoginResult = AuthResponse | TwoFactorChallenge;
+
 export interface JwtPayload {
   userId: string;
   email: string;
+  role: UserRole;
+  sessionId: string;
   iat?: number;
   exp?: number;
 }
@@ -191,9 +327,15 @@ export interface AIAnalysisResult {
 }
 
 // Context types for Hono
+export type ApiKeyScope = 'profile:read' | 'resumes:read' | 'resumes:write' | 'jobs:write';
+
 export interface AuthContext {
   userId: string;
   userEmail: string;
+  userRole: UserRole;
+  sessionId: string; // empty for API key requests
+  authMethod: 'session' | 'api_key';
+  apiKeyScopes?: ApiKeyScope[];
 }
 
 export interface RequestContext extends AuthContext {
@@ -0,0 +1,40 @@
+import type { Context } from 'hono';
+import { getConnInfo } from '@hono/node-server/conninfo';
+
+/**
+ * Number of reverse proxies in front of the app that append to
+ * X-Forwarded-For (Render's load balancer is one). Left at 0 the header is
+ * ignored, since without a proxy every entry in it is client-supplied.
+ */
+const trustedProxyHops = () => Math.max(0, Math.floor(Number(process.env.TRUSTED_PROXY_HOPS) || 0));
+
+// Only honoured behind a trusted proxy that overwrites X-Real-IP itself
+const trustRealIpHeader = () => process.env.TRUST_X_REAL_IP === 'true';
+
+/**
+ * The client address from an X-Forwarded-For value. Each trusted proxy
+ * appends the address it received the request from, so with `hops` proxies
+ * the client is the hops-th entry from the right; anything further left was
+ * sent by the client and can be forged. Undefined when the header has fewer
+ * entries than there are proxies.
+ */
+export function forwardedClientIp(header: string | undefined, hops: number): string | undefined {
+  if (!header || hops < 1) return undefined;
+  const entries = header.split(',').map((entry) => entry.trim()).filter(Boolean);
+  return entries.length >= hops ? entries[entries.length - hops] : undefined;
+}
+
+export function getClientIp(c: Context): string | undefined {
+  const hops = trustedProxyHops();
+  const forwarded = forwardedClientIp(c.req.header('X-Forwarded-For'), hops);
+  if (forwarded) return forwarded;
+
+  const realIp = hops > 0 && trustRealIpHeader() ? c.req.header('X-Real-IP')?.trim() : undefined;
+  if (realIp) return realIp;
+
+  try {
+    return getConnInfo(c).remote.address;
+  } catch {
+    return undefined;
+  }
+}
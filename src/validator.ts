@@ -8,6 +8,7 @@ export const passwordSchema = z.string().min(6, 'Password must be at least 6 cha
 export const uuidSchema = z.string().uuid('Invalid UUID format');
 export const urlSchema = z.string().url('Invalid URL format');
 export const sortOrderSchema = z.enum(['asc', 'desc']);
+export const userRoleSchema = z.enum(['candidate', 'employer', 'admin']);
 
 //
 // 🔷 Analysis schema — placed early because others depend on it
@@ -25,6 +26,18 @@ export const resumeAnalysisSchema = z.object({
   summary: z.string().optional(),
   strengths: z.array(z.string()).optional(),
   improvements: z.array(z.string()).optional(),
+  aiScore: z.number().min(0).max(100).optional(),
+  keywords: z.array(z.string()).optional(),
+  contactInfo: z
+    .object({
+      name: z.string().optional(),
+      phone: z.string().optional(),
+      email: z.string().optional(),
+      linkedin: z.string().optional(),
+      github: z.string().optional(),
+      website: z.string().optional(),
+    })
+    .optional(),
 });
 
 //
@@ -33,6 +46,7 @@ export const resumeAnalysisSchema = z.object({
 export const registerSchema = z.object({
   email: emailSchema,
   password: passwordSchema,
+  role: z.enum(['candidate', 'employer']).optional(), // admins are promoted, never self-registered
 });
 
 export const loginSchema = z.object({
@@ -50,19 +64,174 @@ export const googleAuthSchema = z.object({
   token: z.string().min(1, 'Google token is required'),
 });
 
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string().min(1, 'Refresh token is required'),
+});
+
+export const updateProfileSchema = z.object({
+  name: z.string().trim().min(1, 'Name cannot be empty').max(255, 'Name too long').nullable().optional(),
+  phone: z.string().trim().max(50, 'Phone number too long').regex(/^[+\d\s().-]*$/, 'Invalid phone number').nullable().optional(),
+  location: z.string().trim().max(255, 'Location too long').nullable().optional(),
+  linkedin: urlSchema.max(500).nullable().optional(),
+  github: urlSchema.max(500).nullable().optional(),
+  website: urlSchema.max(500).nullable().optional(),
+});
+
+export const deleteAccountSchema = z.object({
+  confirm: z.literal(true, { errorMap: () => ({ message: 'Confirm account deletion by sending confirm: true' }) }),
+  password: z.string().min(1).optional(), // required for accounts with a password
+});
+
+export const apiKeyScopeSchema = z.enum(['profile:read', 'resumes:read', 'resumes:write', 'jobs:write']);
+
+export const createApiKeySchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100, 'Name too long'),
+  scopes: z.array(apiKeyScopeSchema).min(1, 'At least one scope is required'),
+  expiresAt: z.string().datetime().refine(
+    (value) => new Date(value).getTime() > Date.now(),
+    'Expiry must be in the future'
+  ).optional(),
+});
+
+export const updateRoleSchema = z.object({
+  role: userRoleSchema,
+});
+
+export const forgotPasswordSchema = z.object({
+  email: emailSchema,
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, 'Reset token is required'),
+  newPassword: passwordSchema,
+});
+
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1, 'Verification token is required'),
+});
+
+export const oauthCallbackSchema = z.object({
+  code: z.string().min(1, 'Authorization code is required'),
+  state: z.string().min(1, 'State is required'),
+});
+
+export const identityProviderSchema = z.enum(['google', 'github', 'linkedin']);
+
+export const twoFactorCodeSchema = z.object({
+  code: z.string().regex(/^\d{6}$/, 'Code must be 6 digits'),
+});
+
+export const twoFactorVerifySchema = z.object({
+  challengeToken: z.string().min(1, 'Challenge token is required'),
+  code: z.string().regex(/^\d{6}$/, 'Code must be 6 digits').optional(),
+  recoveryCode: z.string().min(1).optional(),
+}).refine(
+  (data) => Boolean(data.code) !== Boolean(data.recoveryCode),
+  { message: 'Provide either a code or a recovery code', path: ['code'] }
+);
+
+export const disableTwoFactorSchema = z.object({
+  password: z.string().min(1, 'Current password is required'),
+});
+
 //
 // 🔷 Resume validators
 //
 export const uploadResumeSchema = z.object({
   file: z.instanceof(File), // Expect a File object
   userId: uuidSchema,
+  documentId: uuidSchema.optional(), // upload as a new version of this document
 });
 
+const versionNumberSchema = z
+  .string()
+  .regex(/^\d+$/, 'Version must be a positive integer')
+  .transform((val) => parseInt(val, 10))
+  .refine((val) => val > 0, 'Version must be a positive integer');
+
+export const setCurrentVersionSchema = z.object({
+  version: z.number().int().positive(),
+});
+
+export const resumeExportQuerySchema = z.object({
+  format: z.enum(['pdf', 'docx', 'json']).default('pdf'),
+  template: z.enum(['classic', 'modern', 'compact']).default('classic'),
+});
+
+export const resumeDiffQuerySchema = z.object({
+  from: versionNumberSchema.optional(),
+  to: versionNumberSchema.optional(),
+});
+
+// Largest resume upload accepted, in bytes
+export const MAX_UPLOAD_BYTES = Number(process.env.UPLOAD_MAX_BYTES) || 10 * 1024 * 1024;
+
 export const updateResumeSchema = z.object({
   fileUrl: urlSchema.optional(),
   analysis: resumeAnalysisSchema.optional(),
 });
 
+//
+// 🔷 Resume import validators
+//
+// https://jsonresume.org/schema — every field is optional there, so only the shapes are checked.
+// "company" and "website" are the names used by drafts before v1.0.0.
+const importText = z.string().trim().max(5000);
+
+export const jsonResumeSchema = z.object({
+  basics: z
+    .object({
+      name: importText,
+      label: importText,
+      email: importText,
+      phone: importText,
+      url: importText,
+      website: importText,
+      summary: importText,
+      location: z.object({ address: importText, city: importText, region: importText, countryCode: importText }).partial(),
+      profiles: z.array(z.object({ network: importText, username: importText, url: importText }).partial()).max(50),
+    })
+    .partial()
+    .optional(),
+  work: z
+    .array(
+      z
+        .object({
+          name: importText,
+          company: importText,
+          position: importText,
+          startDate: importText,
+          endDate: importText,
+          summary: importText,
+          highlights: z.array(importText).max(50),
+        })
+        .partial()
+    )
+    .max(100)
+    .optional(),
+  education: z
+    .array(
+      z
+        .object({
+          institution: importText,
+          area: importText,
+          studyType: importText,
+          startDate: importText,
+          endDate: importText,
+          score: importText,
+        })
+        .partial()
+    )
+    .max(50)
+    .optional(),
+  skills: z
+    .array(z.object({ name: importText, keywords: z.array(importText).max(100) }).partial())
+    .max(200)
+    .optional(),
+  projects: z.array(z.object({ name: importText, description: importText }).partial()).max(100).optional(),
+  certificates: z.array(z.object({ name: importText, issuer: importText }).partial()).max(100).optional(),
+});
+
 //
 // 🔷 Job validators
 //
@@ -143,11 +312,25 @@ export const fileUploadSchema = z.object({
       (type) => [
         'application/pdf',
         'application/msword',
-        'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
-      ].includes(type),
-      'File must be PDF, DOC, or DOCX'
+        'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+        'application/vnd.oasis.opendocument.text',
+        'application/rtf',
+        'text/rtf',
+        'text/plain',
+        'text/markdown',
+        'text/x-markdown',
+        'image/png',
+        'image/jpeg',
+        // Sent by clients that cannot tell; the content decides
+        '',
+        'application/octet-stream',
+      ].includes(type.split(';')[0].trim().toLowerCase()),
+      'File must be PDF, DOC, DOCX, ODT, RTF, TXT, Markdown, PNG or JPEG'
     ),
-    size: z.number().max(10 * 1024 * 1024, 'File size must be less than 10MB'),
+    size: z
+      .number()
+      .min(1, 'File is empty')
+      .max(MAX_UPLOAD_BYTES, `File size must be at most ${Math.floor(MAX_UPLOAD_BYTES / (1024 * 1024))}MB`),
   }),
 });
 
@@ -159,6 +342,16 @@ export const dateRangeSchema = z.object({
   endDate: z.string().datetime().optional(),
 });
 
+//
+// 🔷 Audit log query validator
+//
+export const auditQuerySchema = z.object({
+  ...paginationSchema.shape,
+  userId: uuidSchema.optional(),
+  action: z.string().max(64).optional(),
+  ...dateRangeSchema.shape,
+});
+
 //
 // 🔷 Type inference helpers
 //
@@ -166,12 +359,26 @@ export type RegisterInput = z.infer<typeof registerSchema>;
 export type LoginInput = z.infer<typeof loginSchema>;
 export type UpdatePasswordInput = z.infer<typeof updatePasswordSchema>;
 export type GoogleAuthInput = z.infer<typeof googleAuthSchema>; // ✅ NEW
+export type RefreshTokenInput = z.infer<typeof refreshTokenSchema>;
+export type OAuthCallbackInput = z.infer<typeof oauthCallbackSchema>;
+export type TwoFactorCodeInput = z.infer<typeof twoFactorCodeSchema>;
+export type TwoFactorVerifyInput = z.infer<typeof twoFactorVerifySchema>;
+export type DisableTwoFactorInput = z.infer<typeof disableTwoFactorSchema>;
+export type UpdateProfileInput = z.infer<typeof updateProfileSchema>;
+export type DeleteAccountInput = z.infer<typeof deleteAccountSchema>;
+export type CreateApiKeyInput = z.infer<typeof createApiKeySchema>;
+export type UpdateRoleInput = z.infer<typeof updateRoleSchema>;
+export type ForgotPasswordInput = z.infer<typeof forgotPasswordSchema>;
+export type ResetPasswordInput = z.infer<typeof resetPasswordSchema>;
+export type VerifyEmailInput = z.infer<typeof verifyEmailSchema>;
 export type CreateJobInput = z.infer<typeof createJobSchema>;
 export type UpdateJobInput = z.infer<typeof updateJobSchema>;
 export type CreateMatchInput = z.infer<typeof createMatchSchema>;
 export type PaginationInput = z.infer<typeof paginationSchema>;
 export type SearchInput = z.infer<typeof searchSchema>;
 export type ResumeAnalysisInput = z.infer<typeof resumeAnalysisSchema>;
+export type JsonResumeInput = z.infer<typeof jsonResumeSchema>;
 export type ResumeSearchInput = z.infer<typeof resumeSearchSchema>;
 export type JobSearchInput = z.infer<typeof jobSearchSchema>;
-export type MatchSearchInput = z.infer<typeof matchSearchSchema>;
\ No newline at end of file
+export type MatchSearchInput = z.infer<typeof matchSearchSchema>;
+export type AuditQueryInput = z.infer<typeof auditQuerySchema>;
\ No newline at end of file
@@ -0,0 +1,18 @@
+import { QueueWorker } from './modules/queue/queue.worker.js';
+import { ANALYZE_RESUME_JOB } from './modules/resumes/resume.service.js';
+import { analyzeResumeHandler } from './modules/resumes/resume.processor.js';
+
+// Registers every queue handler; shared by the API process and `npm run worker`
+export function startWorker(): QueueWorker {
+  const worker = new QueueWorker({
+    concurrency: Number(process.env.QUEUE_CONCURRENCY) || 2,
+    pollIntervalMs: Number(process.env.QUEUE_POLL_INTERVAL_MS) || 2_000,
+    lockTimeoutMs: Number(process.env.QUEUE_LOCK_TIMEOUT_MS) || 10 * 60 * 1000,
+  });
+
+  worker.register(ANALYZE_RESUME_JOB, analyzeResumeHandler);
+  worker.start();
+
+  console.log(`Queue worker ${worker.id} started`);
+  return worker;
+}
@@ -0,0 +1,32 @@
+import { PgDialect } from 'drizzle-orm/pg-core';
+import { describe, expect, it } from 'vitest';
+import { auditFilter } from '../../src/modules/audit/audit.service.js';
+
+const USER_ID = '8c1f6a52-64a4-4a8e-9d1b-3f0f1d2c6b7e';
+const render = (filters: Parameters<typeof auditFilter>[0]) => {
+  const filter = auditFilter(filters);
+  return filter ? new PgDialect().sqlToQuery(filter) : undefined;
+};
+
+describe('auditFilter', () => {
+  it('matches events by or about the user', () => {
+    const query = render({ page: 1, limit: 20, userId: USER_ID });
+
+    expect(query?.sql).toBe(
+      '("audit_events"."actor_user_id" = $1 or ("audit_events"."target_type" = $2 and "audit_events"."target_id" = $3))'
+    );
+    expect(query?.params).toEqual([USER_ID, 'user', USER_ID]);
+  });
+
+  it('keeps the user clause grouped when combined with other filters', () => {
+    const query = render({ page: 1, limit: 20, userId: USER_ID, action: 'auth.login' });
+
+    expect(query?.sql).toBe(
+      '(("audit_events"."actor_user_id" = $1 or ("audit_events"."target_type" = $2 and "audit_events"."target_id" = $3)) and "audit_events"."action" = $4)'
+    );
+  });
+
+  it('has no condition without filters', () => {
+    expect(render({ page: 1, limit: 20 })).toBeUndefined();
+  });
+});
@@ -0,0 +1,72 @@
+import crypto from 'node:crypto';
+import { describe, expect, it } from 'vitest';
+import { GoogleIdTokenVerifier, StaticKeySource } from '../../src/modules/auth/google-token.verifier.js';
+
+const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const other = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+const NOW = 1_700_000_000;
+const CLIENT_ID = 'client.apps.googleusercontent.com';
+
+const segment = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+function sign(payload: Record<string, unknown>, options: { kid?: string; alg?: string; key?: crypto.KeyObject } = {}) {
+  const head = `${segment({ alg: options.alg ?? 'RS256', kid: options.kid ?? 'key-1' })}.${segment(payload)}`;
+  const signature = crypto.sign('RSA-SHA256', Buffer.from(head), options.key ?? privateKey);
+  return `${head}.${signature.toString('base64url')}`;
+}
+
+const claims = (overrides: Record<string, unknown> = {}) => ({
+  iss: 'https://accounts.google.com',
+  aud: CLIENT_ID,
+  sub: '1234567890',
+  email: 'jane@example.com',
+  email_verified: true,
+  iat: NOW - 10,
+  exp: NOW + 3600,
+  ...overrides,
+});
+
+const verifier = new GoogleIdTokenVerifier({
+  clientIds: [CLIENT_ID],
+  keySource: new StaticKeySource({ 'key-1': publicKey }),
+  now: () => NOW * 1000,
+});
+
+describe('GoogleIdTokenVerifier', () => {
+  it('accepts a token signed by a known key', async () => {
+    await expect(verifier.verify(sign(claims()))).resolves.toMatchObject({ sub: '1234567890', email_verified: true });
+  });
+
+  it('accepts the legacy string form of email_verified', async () => {
+    await expect(verifier.verify(sign(claims({ email_verified: 'true' })))).resolves.toMatchObject({
+      email_verified: true,
+    });
+  });
+
+  it('rejects tokens not signed by the key they name', async () => {
+    await expect(verifier.verify(sign(claims(), { key: other.privateKey }))).rejects.toThrow('bad signature');
+    await expect(verifier.verify(sign(claims(), { kid: 'unknown' }))).rejects.toThrow('unknown signing key');
+    await expect(verifier.verify(sign(claims(), { alg: 'HS256' }))).rejects.toThrow('unsupported algorithm');
+    await expect(verifier.verify('not.a-token')).rejects.toThrow('malformed token');
+  });
+
+  it('rejects a tampered payload', async () => {
+    const [head, , signature] = sign(claims()).split('.');
+    const forged = `${head}.${segment(claims({ email: 'admin@example.com' }))}.${signature}`;
+
+    await expect(verifier.verify(forged)).rejects.toThrow('bad signature');
+  });
+
+  it('checks issuer, audience, lifetime and email verification', async () => {
+    await expect(verifier.verify(sign(claims({ iss: 'https://evil.example' })))).rejects.toThrow('issuer');
+    await expect(verifier.verify(sign(claims({ aud: 'someone-else' })))).rejects.toThrow('audience');
+    await expect(verifier.verify(sign(claims({ exp: NOW - 120 })))).rejects.toThrow('expired');
+    await expect(verifier.verify(sign(claims({ iat: NOW + 120 })))).rejects.toThrow('issued in the future');
+    await expect(verifier.verify(sign(claims({ email_verified: false })))).rejects.toThrow('email not verified');
+  });
+
+  it('tolerates clock skew within the allowance', async () => {
+    await expect(verifier.verify(sign(claims({ exp: NOW - 30, iat: NOW + 30 })))).resolves.toBeDefined();
+  });
+});
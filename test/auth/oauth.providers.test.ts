@@ -0,0 +1,47 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { oauthProviders } from '../../src/modules/auth/oauth.providers.js';
+
+function stubResponses(bodies: Record<string, unknown>): void {
+  vi.stubGlobal(
+    'fetch',
+    vi.fn(async (url: string) => new Response(JSON.stringify(bodies[url]), { status: 200 }))
+  );
+}
+
+describe('OAuth provider profiles', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('uses the verified GitHub email over the public one', async () => {
+    stubResponses({
+      'https://api.github.com/user': { id: 42, login: 'octo', name: null, email: 'public@example.com' },
+      'https://api.github.com/user/emails': [
+        { email: 'old@example.com', primary: false, verified: false },
+        { email: 'octo@example.com', primary: true, verified: true },
+      ],
+    });
+
+    await expect(oauthProviders.github.fetchProfile('token')).resolves.toEqual({
+      subject: '42',
+      email: 'octo@example.com',
+      emailVerified: true,
+      name: 'octo',
+    });
+  });
+
+  it('treats a LinkedIn email as verified only when the flag is true', async () => {
+    stubResponses({
+      'https://api.linkedin.com/v2/userinfo': { sub: 'abc', name: 'Ada', email: 'ada@example.com', email_verified: 'true' },
+    });
+
+    await expect(oauthProviders.linkedin.fetchProfile('token')).resolves.toMatchObject({
+      subject: 'abc',
+      emailVerified: false,
+    });
+  });
+
+  it('rejects a profile without the expected fields', async () => {
+    stubResponses({ 'https://api.linkedin.com/v2/userinfo': { name: 'No subject' } });
+
+    await expect(oauthProviders.linkedin.fetchProfile('token')).rejects.toThrow('OAuth profile response was malformed');
+  });
+});
@@ -0,0 +1,86 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+
+const returning = vi.fn();
+
+// handleCallback only consumes the stored state before the checks under test
+vi.mock('../../src/db/db.js', () => {
+  const chain = { where: () => chain, returning };
+  return { db: { delete: () => chain } };
+});
+
+vi.mock('../../src/modules/auth/identity.service.js', () => ({
+  IdentityService: { link: vi.fn() },
+}));
+
+vi.mock('../../src/modules/audit/audit.service.js', () => ({
+  AuditService: { record: vi.fn() },
+}));
+
+const fetch = vi.fn();
+vi.stubGlobal('fetch', fetch);
+vi.stubEnv('GITHUB_CLIENT_ID', 'client-id');
+vi.stubEnv('GITHUB_CLIENT_SECRET', 'client-secret');
+
+const { OAuthService } = await import('../../src/modules/auth/oauth.service.js');
+const { IdentityService } = await import('../../src/modules/auth/identity.service.js');
+
+const pendingState = (linkUserId: string | null) => ({
+  state: 'state',
+  provider: 'github',
+  codeVerifier: 'verifier',
+  linkUserId,
+  expiresAt: new Date(Date.now() + 60_000),
+});
+
+describe('OAuthService.handleCallback', () => {
+  beforeAll(() => {
+    fetch.mockResolvedValue(new Response(JSON.stringify({}), { status: 400 }));
+  });
+
+  afterEach(() => {
+    returning.mockReset();
+    vi.mocked(IdentityService.link).mockClear();
+  });
+
+  afterAll(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it('refuses to finish a link flow for anyone but the user who started it', async () => {
+    returning.mockResolvedValue([pendingState('attacker')]);
+
+    await expect(OAuthService.handleCallback('github', 'code', 'state', {}, 'victim')).rejects.toThrow(
+      'OAuth link was started by another user'
+    );
+    expect(fetch).not.toHaveBeenCalled();
+    expect(IdentityService.link).not.toHaveBeenCalled();
+  });
+
+  it('refuses a link flow on the public callback', async () => {
+    returning.mockResolvedValue([pendingState('attacker')]);
+
+    await expect(OAuthService.handleCallback('github', 'code', 'state', {})).rejects.toThrow(
+      'OAuth link was started by another user'
+    );
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('refuses a sign-in state on the link callback', async () => {
+    returning.mockResolvedValue([pendingState(null)]);
+
+    await expect(OAuthService.handleCallback('github', 'code', 'state', {}, 'victim')).rejects.toThrow(
+      'Invalid or expired OAuth state'
+    );
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('goes on to the code exchange when the starter finishes the link', async () => {
+    returning.mockResolvedValue([pendingState('victim')]);
+
+    await expect(OAuthService.handleCallback('github', 'code', 'state', {}, 'victim')).rejects.toThrow(
+      'OAuth code exchange failed'
+    );
+    expect(fetch).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { MockInstance } from 'vitest';
+import type { Session } from '../../src/db/schema.js';
+
+const findFirst = vi.fn();
+const returning = vi.fn();
+
+// Only the calls rotate() makes; each test decides what the queries return
+vi.mock('../../src/db/db.js', () => {
+  const chain = { set: () => chain, where: () => chain, returning };
+  return { db: { query: { sessions: { findFirst } }, update: () => chain } };
+});
+
+vi.mock('../../src/modules/audit/audit.service.js', () => ({
+  AuditService: { record: vi.fn() },
+}));
+
+const { SessionService } = await import('../../src/modules/auth/session.service.js');
+const { AuditService } = await import('../../src/modules/audit/audit.service.js');
+
+const SESSION_ID = '0b6d2d3e-8f5a-4c1e-9a57-2f4c6a1b9d10';
+const SECRET = 'refresh-secret';
+
+function storedSession(overrides: Partial<Session> = {}): Session {
+  return {
+    id: SESSION_ID,
+    userId: 'user-1',
+    familyId: 'family-1',
+    refreshTokenHash: SessionService.hashSecret(SECRET),
+    replacedBy: null,
+    revokedAt: null,
+    expiresAt: new Date(Date.now() + 60_000),
+    ...overrides,
+  } as Session;
+}
+
+describe('SessionService.rotate', () => {
+  let revokeFamily: MockInstance<typeof SessionService.revokeFamily>;
+  const next = { session: { id: 'next-session' } as Session, refreshToken: 'next-session.secret' };
+
+  beforeEach(() => {
+    revokeFamily = vi.spyOn(SessionService, 'revokeFamily').mockResolvedValue();
+    vi.spyOn(SessionService, 'createSession').mockResolvedValue(next);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    findFirst.mockReset();
+    returning.mockReset();
+  });
+
+  it('issues a new token in the same family', async () => {
+    findFirst.mockResolvedValue(storedSession());
+    returning.mockResolvedValue([{ id: SESSION_ID }]);
+
+    await expect(SessionService.rotate(`${SESSION_ID}.${SECRET}`)).resolves.toBe(next);
+    expect(SessionService.createSession).toHaveBeenCalledWith('user-1', {}, 'family-1');
+    expect(revokeFamily).not.toHaveBeenCalled();
+  });
+
+  it('revokes the whole family when a rotated token is presented again', async () => {
+    findFirst.mockResolvedValue(storedSession({ replacedBy: 'next-session', revokedAt: new Date() }));
+
+    await expect(SessionService.rotate(`${SESSION_ID}.${SECRET}`)).rejects.toThrow('Refresh token reuse detected');
+    expect(revokeFamily).toHaveBeenCalledWith('family-1');
+    expect(AuditService.record).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'auth.token.reuse_detected', targetId: 'family-1' })
+    );
+    expect(SessionService.createSession).not.toHaveBeenCalled();
+  });
+
+  it('treats losing a concurrent rotation as reuse', async () => {
+    findFirst.mockResolvedValue(storedSession());
+    returning.mockResolvedValue([]);
+
+    await expect(SessionService.rotate(`${SESSION_ID}.${SECRET}`)).rejects.toThrow('Refresh token reuse detected');
+    expect(revokeFamily).toHaveBeenCalledWith('family-1');
+  });
+
+  it('rejects a wrong secret without touching the family', async () => {
+    findFirst.mockResolvedValue(storedSession({ replacedBy: 'next-session' }));
+
+    await expect(SessionService.rotate(`${SESSION_ID}.guessed`)).rejects.toThrow('Invalid refresh token');
+    await expect(SessionService.rotate('not-a-token')).rejects.toThrow('Invalid refresh token');
+    expect(revokeFamily).not.toHaveBeenCalled();
+  });
+
+  it('rejects revoked and expired sessions', async () => {
+    findFirst.mockResolvedValueOnce(storedSession({ revokedAt: new Date() }));
+    findFirst.mockResolvedValueOnce(storedSession({ expiresAt: new Date(Date.now() - 1) }));
+
+    await expect(SessionService.rotate(`${SESSION_ID}.${SECRET}`)).rejects.toThrow('Invalid refresh token');
+    await expect(SessionService.rotate(`${SESSION_ID}.${SECRET}`)).rejects.toThrow('Invalid refresh token');
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { base32Decode, base32Encode, generateCode, verifyCode } from '../../src/modules/auth/totp.js';
+
+// RFC 6238 appendix B uses the ASCII secret "12345678901234567890" with SHA-1
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+const at = (seconds: number) => seconds * 1000;
+
+describe('totp', () => {
+  it('round-trips base32', () => {
+    expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    expect(base32Decode(RFC_SECRET).toString()).toBe('12345678901234567890');
+  });
+
+  it('matches the RFC 6238 test vectors', () => {
+    expect(generateCode(RFC_SECRET, Math.floor(59 / 30))).toBe('287082');
+    expect(generateCode(RFC_SECRET, Math.floor(1111111109 / 30))).toBe('081804');
+    expect(generateCode(RFC_SECRET, Math.floor(1234567890 / 30))).toBe('005924');
+  });
+
+  it('accepts codes one step either side and returns the matching step', () => {
+    const now = at(1234567890);
+    const step = Math.floor(1234567890 / 30);
+
+    expect(verifyCode(RFC_SECRET, generateCode(RFC_SECRET, step), 1, now)).toBe(step);
+    expect(verifyCode(RFC_SECRET, generateCode(RFC_SECRET, step - 1), 1, now)).toBe(step - 1);
+    expect(verifyCode(RFC_SECRET, generateCode(RFC_SECRET, step + 1), 1, now)).toBe(step + 1);
+    expect(verifyCode(RFC_SECRET, generateCode(RFC_SECRET, step - 2), 1, now)).toBeNull();
+  });
+
+  it('ignores spaces and rejects malformed codes', () => {
+    expect(verifyCode(RFC_SECRET, '005 924', 0, at(1234567890))).not.toBeNull();
+    expect(verifyCode(RFC_SECRET, '00592', 0, at(1234567890))).toBeNull();
+    expect(verifyCode(RFC_SECRET, 'abcdef', 0, at(1234567890))).toBeNull();
+  });
+});
@@ -0,0 +1,30 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getMailer, setMailer } from '../../src/modules/mail/mailer.js';
+import { ConsoleMailer } from '../../src/modules/mail/file.mailer.js';
+
+describe('getMailer', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    setMailer(null);
+  });
+
+  it('logs mail to the console in development', () => {
+    vi.stubEnv('NODE_ENV', 'development');
+    vi.stubEnv('MAIL_TRANSPORT', '');
+
+    expect(getMailer()).toBeInstanceOf(ConsoleMailer);
+  });
+
+  it('requires a transport in production', () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    vi.stubEnv('MAIL_TRANSPORT', '');
+
+    expect(() => getMailer()).toThrow('MAIL_TRANSPORT must be set in production');
+  });
+
+  it('rejects an unknown transport', () => {
+    vi.stubEnv('MAIL_TRANSPORT', 'smpt');
+
+    expect(() => getMailer()).toThrow('Unknown MAIL_TRANSPORT "smpt"');
+  });
+});
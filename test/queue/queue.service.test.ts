@@ -0,0 +1,40 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { QueueJob } from '../../src/db/schema.js';
+
+const set = vi.fn();
+
+vi.mock('../../src/db/db.js', () => {
+  const chain = {
+    set: (values: unknown) => {
+      set(values);
+      return chain;
+    },
+    where: () => Promise.resolve(),
+  };
+  return { db: { update: () => chain } };
+});
+
+const { QueueService } = await import('../../src/modules/queue/queue.service.js');
+
+function job(attempts: number, maxAttempts = 3): QueueJob {
+  return { id: 'job-1', attempts, maxAttempts, runAt: new Date(0) } as QueueJob;
+}
+
+describe('QueueService.fail', () => {
+  beforeEach(() => set.mockReset());
+
+  it('reschedules while attempts remain', async () => {
+    await expect(QueueService.fail(job(1), new Error('timeout'))).resolves.toBe('retry');
+    expect(set).toHaveBeenCalledWith(expect.objectContaining({ status: 'pending', lastError: 'timeout' }));
+  });
+
+  it('dead-letters once attempts run out', async () => {
+    await expect(QueueService.fail(job(3), new Error('timeout'))).resolves.toBe('dead');
+    expect(set).toHaveBeenCalledWith(expect.objectContaining({ status: 'dead' }));
+  });
+
+  it('dead-letters a permanent error on the first attempt', async () => {
+    await expect(QueueService.fail(job(1), new Error('damaged file'), true)).resolves.toBe('dead');
+    expect(set).toHaveBeenCalledWith(expect.objectContaining({ status: 'dead', lastError: 'damaged file' }));
+  });
+});
@@ -0,0 +1,90 @@
+import { Hono } from 'hono';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { rateLimit } from '../../src/modules/ratelimit/ratelimit.middleware.js';
+import { MemoryStore } from '../../src/modules/ratelimit/ratelimit.store.js';
+import { forwardedClientIp } from '../../src/utils/request.js';
+
+describe('forwardedClientIp', () => {
+  it('takes the entry appended by the outermost trusted proxy', () => {
+    expect(forwardedClientIp('203.0.113.7', 1)).toBe('203.0.113.7');
+    expect(forwardedClientIp('1.2.3.4, 203.0.113.7', 1)).toBe('203.0.113.7');
+    expect(forwardedClientIp('1.2.3.4, 203.0.113.7, 10.0.0.2', 2)).toBe('203.0.113.7');
+  });
+
+  it('ignores the header without trusted proxies or with too few hops', () => {
+    expect(forwardedClientIp('203.0.113.7', 0)).toBeUndefined();
+    expect(forwardedClientIp('203.0.113.7', 2)).toBeUndefined();
+    expect(forwardedClientIp(undefined, 1)).toBeUndefined();
+  });
+});
+
+describe('rateLimit', () => {
+  let store: MemoryStore;
+
+  const app = (keyBy?: 'ip' | 'user') => {
+    const router = new Hono<{ Variables: { userId: string } }>();
+    // Stands in for authenticateToken
+    router.use('*', async (c, next) => {
+      const userId = c.req.header('X-Test-User');
+      if (userId) c.set('userId', userId);
+      await next();
+    });
+    router.get('/', rateLimit({ name: 'test', windowMs: 60_000, limit: 2, keyBy, store }), (c) => c.text('ok'));
+    return router;
+  };
+
+  const hit = (router: ReturnType<typeof app>, headers: Record<string, string>) => router.request('/', { headers });
+
+  beforeEach(() => {
+    store = new MemoryStore();
+    vi.stubEnv('TRUSTED_PROXY_HOPS', '1');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('counts by client address and answers 429 past the limit', async () => {
+    const router = app();
+    const client = { 'X-Forwarded-For': '203.0.113.7' };
+
+    expect((await hit(router, client)).headers.get('RateLimit-Remaining')).toBe('1');
+    expect((await hit(router, client)).status).toBe(200);
+    const limited = await hit(router, client);
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('Retry-After')).not.toBeNull();
+
+    expect((await hit(router, { 'X-Forwarded-For': '198.51.100.1' })).status).toBe(200);
+  });
+
+  it('cannot be dodged by prepending addresses to X-Forwarded-For', async () => {
+    const router = app();
+
+    for (const spoofed of ['1.1.1.1', '2.2.2.2', '3.3.3.3']) {
+      await hit(router, { 'X-Forwarded-For': `${spoofed}, 203.0.113.7` });
+    }
+
+    expect((await hit(router, { 'X-Forwarded-For': '4.4.4.4, 203.0.113.7' })).status).toBe(429);
+  });
+
+  it('ignores X-Real-IP unless the proxy is trusted to set it', async () => {
+    vi.stubEnv('TRUSTED_PROXY_HOPS', '0');
+    const router = app();
+
+    for (const ip of ['1.1.1.1', '2.2.2.2']) {
+      await hit(router, { 'X-Real-IP': ip });
+    }
+
+    expect((await hit(router, { 'X-Real-IP': '3.3.3.3' })).status).toBe(429);
+  });
+
+  it('counts per user when keyed by user, whatever the address', async () => {
+    const router = app('user');
+
+    await hit(router, { 'X-Test-User': 'alice', 'X-Forwarded-For': '203.0.113.7' });
+    await hit(router, { 'X-Test-User': 'alice', 'X-Forwarded-For': '198.51.100.1' });
+
+    expect((await hit(router, { 'X-Test-User': 'alice', 'X-Forwarded-For': '192.0.2.9' })).status).toBe(429);
+    expect((await hit(router, { 'X-Test-User': 'bob', 'X-Forwarded-For': '203.0.113.7' })).status).toBe(200);
+  });
+});
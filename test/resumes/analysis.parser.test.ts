@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { coerceNumber, extractJson, parseAnalysis } from '../../src/modules/resumes/analysis.parser.js';
+
+describe('extractJson', () => {
+  it('reads a bare object', () => {
+    expect(extractJson('{"skills": ["Go"]}')).toEqual({ skills: ['Go'] });
+  });
+
+  it('skips reasoning blocks, fences and surrounding prose', () => {
+    const reply = '<think>{"draft": true}</think>Here you go:\n```json\n{"skills": ["Go"]}\n```\nHope this helps!';
+    expect(extractJson(reply)).toEqual({ skills: ['Go'] });
+  });
+
+  it('finds the first balanced object, ignoring braces inside strings', () => {
+    expect(extractJson('Result: {"summary": "uses {braces}", "n": {"x": 1}} trailing }')).toEqual({
+      summary: 'uses {braces}',
+      n: { x: 1 },
+    });
+  });
+
+  it('throws when there is no object', () => {
+    expect(() => extractJson('I cannot help with that.')).toThrow('No JSON object found');
+  });
+});
+
+describe('coerceNumber', () => {
+  it('pulls a number out of loose text', () => {
+    expect(coerceNumber('5+ years')).toBe(5);
+    expect(coerceNumber('2.5 yrs')).toBe(2.5);
+    expect(coerceNumber('1,200')).toBe(1200);
+    expect(coerceNumber(Number.NaN)).toBeUndefined();
+    expect(coerceNumber('several')).toBeUndefined();
+  });
+});
+
+describe('parseAnalysis', () => {
+  it('is ok for a valid analysis', () => {
+    const result = parseAnalysis('{"skills": ["Go"], "experience": 3}');
+
+    expect(result).toEqual({ analysis: { skills: ['Go'], experience: 3 }, status: 'ok', errors: [] });
+  });
+
+  it('repairs the shapes models commonly get wrong', () => {
+    const result = parseAnalysis(
+      JSON.stringify({
+        skills: 'Go, SQL; Docker',
+        experience: '4 years',
+        aiScore: '82/100',
+        education: [{ degree: 'BSc', institution: null, year: '2015 - 2019' }],
+        summary: null,
+      })
+    );
+
+    expect(result.status).toBe('ok');
+    expect(result.analysis).toEqual({
+      skills: ['Go', 'SQL', 'Docker'],
+      experience: 4,
+      aiScore: 82,
+      education: [{ degree: 'BSc', institution: '', year: 2019 }],
+    });
+  });
+
+  it('salvages the valid fields and defaults the required ones as partial', () => {
+    const result = parseAnalysis(
+      JSON.stringify({
+        experience: -2,
+        aiScore: 250,
+        strengths: ['Clear writing'],
+        education: [{ degree: 'BSc', institution: 'MIT' }, { degree: 42 }],
+      })
+    );
+
+    expect(result.status).toBe('partial');
+    expect(result.analysis).toEqual({
+      skills: [],
+      experience: 0,
+      strengths: ['Clear writing'],
+      education: [{ degree: 'BSc', institution: 'MIT' }],
+    });
+    expect(result.errors.some((error) => error.startsWith('aiScore'))).toBe(true);
+  });
+
+  it('fails when nothing usable is left', () => {
+    expect(parseAnalysis('not json').status).toBe('failed');
+    expect(parseAnalysis('[1, 2]')).toMatchObject({ analysis: null, status: 'failed', errors: ['Expected a JSON object'] });
+    expect(parseAnalysis('{"experience": "unknown", "aiScore": 500}').status).toBe('failed');
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { ATS_SCORE_VERSION, scoreAts } from '../../src/modules/resumes/ats.score.js';
+import type { AtsInput } from '../../src/modules/resumes/ats.score.js';
+
+const bullets = Array.from({ length: 6 }, (_, i) => `• Delivered project ${i} that cut costs by ${10 + i}% for 3 teams`);
+
+function resume({ dates = ['Jan 2021 - Present', 'Mar 2018 - Dec 2020'], roleLines = bullets } = {}) {
+  return [
+    'Jane Doe',
+    'jane@example.com | +44 20 7946 0958 | github.com/jane',
+    'Summary',
+    'Experienced backend engineer building reliable payment systems and APIs. '.repeat(30),
+    'Experience',
+    `Senior Engineer, Acme, ${dates[0]}`,
+    ...roleLines,
+    `Engineer, Globex, ${dates[1]}`,
+    ...roleLines,
+    'Education',
+    'BSc Computer Science, University of Leeds, 2017',
+    'Skills',
+    'Go, Python, SQL',
+  ].join('\n');
+}
+
+const score = (text: string, input: Partial<AtsInput> = {}) =>
+  scoreAts({ text, extractionMethod: 'text', extractionConfidence: null, ...input });
+const check = (result: ReturnType<typeof scoreAts>, id: string) => result.breakdown.checks.find((c) => c.id === id)!;
+
+describe('scoreAts', () => {
+  it('gives a well-formed resume full marks, with the breakdown adding up', () => {
+    const result = score(resume());
+
+    expect(result.score).toBe(100);
+    expect(result.breakdown.version).toBe(ATS_SCORE_VERSION);
+    expect(result.breakdown.checks.reduce((total, c) => total + c.maxPoints, 0)).toBe(100);
+  });
+
+  it('is deterministic', () => {
+    expect(score(resume())).toEqual(score(resume()));
+  });
+
+  it('marks down OCR-only text by its confidence', () => {
+    const result = score(resume(), { extractionMethod: 'ocr', extractionConfidence: 0.5 });
+
+    expect(check(result, 'parseable_text').points).toBe(3);
+  });
+
+  it('marks down garbled glyphs', () => {
+    const garbled = resume() + '\n' + '(cid:12)'.repeat(400);
+
+    expect(check(score(garbled), 'parseable_text').points).toBeLessThan(20);
+  });
+
+  it('flags mixed and year-only date formats', () => {
+    expect(check(score(resume({ dates: ['Jan 2021 - Present', '03/2018 - 12/2020'] })), 'date_formats')).toMatchObject({
+      points: 5,
+      detail: expect.stringContaining('mix formats'),
+    });
+    expect(check(score(resume({ dates: ['2021 - Present', '2018 - 2020'] })), 'date_formats').points).toBe(6);
+  });
+
+  it('scores bullets and numbers in achievements', () => {
+    const prose = ['Delivered projects across the platform', 'Worked closely with product'];
+    const result = score(resume({ roleLines: prose }));
+
+    expect(check(result, 'bullet_density').points).toBe(0);
+    expect(check(result, 'quantified_achievements').points).toBe(0);
+  });
+
+  it('flags table-like layouts and missing sections', () => {
+    const table = ['Skill     Level     Years', 'Go     Expert     5', 'SQL     Good     4'].join('\n');
+    const result = score(`${table}\n${'word '.repeat(300)}`);
+
+    expect(check(result, 'layout').points).toBeLessThan(10);
+    expect(check(result, 'section_headings')).toMatchObject({ points: 0, detail: expect.stringContaining('experience') });
+    expect(check(result, 'contact_info').detail).toContain('email');
+  });
+
+  it('scores an empty extraction zero', () => {
+    expect(score('').score).toBe(0);
+  });
+});
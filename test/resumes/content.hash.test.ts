@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeForHash, textHash } from '../../src/modules/resumes/content.hash.js';
+
+describe('normalizeForHash', () => {
+  it('folds case and collapses whitespace', () => {
+    expect(normalizeForHash('  Jane   DOE\r\n\tEngineer \n')).toBe('jane doe engineer');
+  });
+
+  it('drops invisible characters and soft hyphens', () => {
+    expect(normalizeForHash('\uFEFFJane\u200B Doe, soft\u00ADware')).toBe('jane doe, software');
+  });
+
+  it('applies compatibility normalisation to ligatures and full-width forms', () => {
+    expect(normalizeForHash('\uFB01nance \uFF21\uFF22\uFF23')).toBe('finance abc');
+  });
+});
+
+describe('textHash', () => {
+  it('is the same for re-exports of the same text and differs for different text', () => {
+    expect(textHash('Jane Doe\nEngineer')).toBe(textHash('jane doe  engineer\u200B'));
+    expect(textHash('Jane Doe\nEngineer')).not.toBe(textHash('Jane Doe\nManager'));
+  });
+});
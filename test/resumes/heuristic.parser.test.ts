@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { crossCheckAnalysis, parseResumeText } from '../../src/modules/resumes/heuristic.parser.js';
+
+const NOW = new Date(2024, 5, 15);
+
+const RESUME = [
+  'Jane Doe',
+  'jane.doe@example.com | +44 20 7946 0958 | linkedin.com/in/janedoe | github.com/janedoe',
+  '',
+  'Summary',
+  'Backend engineer focused on payments.',
+  '',
+  'Work Experience',
+  'Senior Engineer, Acme Jan 2021 - Present',
+  '• Cut settlement time by 40%',
+  'Engineer at Globex',
+  '03/2018 - 12/2021',
+  '',
+  'Education',
+  'BSc Computer Science, University of Leeds, 2017',
+  '',
+  'Technical Skills:',
+  'Languages: Go, Python; SQL',
+  '',
+  'Certifications',
+  '- AWS Solutions Architect',
+].join('\r\n');
+
+describe('parseResumeText', () => {
+  const parsed = parseResumeText(RESUME, NOW);
+
+  it('splits the text under the recognised headings', () => {
+    expect(Object.keys(parsed.sections)).toEqual(['summary', 'experience', 'education', 'skills', 'certifications']);
+    expect(parsed.sections.summary).toBe('Backend engineer focused on payments.');
+  });
+
+  it('reads contact details from the header', () => {
+    expect(parsed.contactInfo).toEqual({
+      name: 'Jane Doe',
+      email: 'jane.doe@example.com',
+      phone: '+44 20 7946 0958',
+      linkedin: 'linkedin.com/in/janedoe',
+      github: 'github.com/janedoe',
+    });
+  });
+
+  it('reads roles from date ranges and counts overlapping months once', () => {
+    expect(parsed.employment).toEqual([
+      { title: 'Senior Engineer, Acme', start: '2021-01', end: null, months: 42 },
+      { title: 'Engineer at Globex', start: '2018-03', end: '2021-12', months: 46 },
+    ]);
+    // March 2018 to June 2024
+    expect(parsed.experienceYears).toBe(6.3);
+  });
+
+  it('reads education, skills and certifications', () => {
+    expect(parsed.education).toEqual([{ degree: 'BSc Computer Science', institution: 'University of Leeds', year: 2017 }]);
+    // Listed skills first, then known skills mentioned elsewhere (AWS, in the certification)
+    expect(parsed.skills).toEqual(['Go', 'Python', 'SQL', 'AWS']);
+    expect(parsed.certifications).toEqual(['AWS Solutions Architect']);
+  });
+
+  it('finds date ranges without an experience heading', () => {
+    const loose = parseResumeText('John Smith\nDeveloper, Initech 2015 - 2016', NOW);
+
+    expect(loose.employment).toEqual([{ title: 'Developer, Initech', start: '2015-01', end: '2016-12', months: 24 }]);
+    expect(loose.experienceYears).toBe(2);
+  });
+});
+
+describe('crossCheckAnalysis', () => {
+  it('adds missed skills and prefers dated experience when the model is far off', () => {
+    const { analysis, warnings } = crossCheckAnalysis({ skills: ['go'], experience: 15 }, parseResumeText(RESUME, NOW));
+
+    expect(analysis.skills).toEqual(['go', 'Python', 'SQL', 'AWS']);
+    expect(analysis.experience).toBe(6.3);
+    expect(analysis.contactInfo?.email).toBe('jane.doe@example.com');
+    expect(warnings).toHaveLength(2);
+  });
+});
@@ -0,0 +1,49 @@
+import { createCanvas } from '@napi-rs/canvas';
+import { describe, expect, it } from 'vitest';
+import { InvalidFileError } from '../../src/modules/resumes/formats/format.types.js';
+import { imageDimensions, jpegFormat, pngFormat } from '../../src/modules/resumes/formats/image.format.js';
+
+function png(width: number, height: number): Buffer {
+  return createCanvas(width, height).toBuffer('image/png');
+}
+
+function jpeg(width: number, height: number): Buffer {
+  return createCanvas(width, height).toBuffer('image/jpeg');
+}
+
+// Same PNG with the IHDR size rewritten; the pixel data is never decoded
+function withDeclaredSize(image: Buffer, width: number, height: number): Buffer {
+  const copy = Buffer.from(image);
+  copy.writeUInt32BE(width, 16);
+  copy.writeUInt32BE(height, 20);
+  return copy;
+}
+
+describe('imageDimensions', () => {
+  it('reads PNG dimensions', () => {
+    expect(imageDimensions(png(40, 30))).toEqual({ width: 40, height: 30 });
+  });
+
+  it('reads JPEG dimensions', () => {
+    expect(imageDimensions(jpeg(64, 48))).toEqual({ width: 64, height: 48 });
+  });
+
+  it('returns null for truncated or unknown files', () => {
+    expect(imageDimensions(png(40, 30).subarray(0, 12))).toBeNull();
+    expect(imageDimensions(jpeg(64, 48).subarray(0, 20))).toBeNull();
+    expect(imageDimensions(Buffer.from('not an image'))).toBeNull();
+  });
+});
+
+describe('image OCR limits', () => {
+  it('rejects images over the pixel limit before OCR', async () => {
+    const huge = withDeclaredSize(png(40, 30), 100_000, 100_000);
+    await expect(pngFormat.extract(huge)).rejects.toBeInstanceOf(InvalidFileError);
+    await expect(pngFormat.extract(huge)).rejects.toThrow('100000x100000 pixels');
+  });
+
+  it('rejects images whose header cannot be read', async () => {
+    await expect(jpegFormat.extract(jpeg(64, 48).subarray(0, 20))).rejects.toThrow('The image is damaged or malformed');
+    await expect(pngFormat.extract(withDeclaredSize(png(40, 30), 0, 30))).rejects.toBeInstanceOf(InvalidFileError);
+  });
+});
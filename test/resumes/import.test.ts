@@ -0,0 +1,103 @@
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { InvalidFileError } from '../../src/modules/resumes/formats/format.types.js';
+import { parseCsv } from '../../src/modules/resumes/import/csv.js';
+import { toYearMonth } from '../../src/modules/resumes/import/import.data.js';
+import { fromJsonResume } from '../../src/modules/resumes/import/json-resume.import.js';
+import { fromLinkedInExport } from '../../src/modules/resumes/import/linkedin.import.js';
+
+async function linkedInExport(files: Record<string, string>): Promise<JSZip> {
+  const zip = new JSZip();
+  for (const [name, content] of Object.entries(files)) zip.file(name, content);
+  return JSZip.loadAsync(await zip.generateAsync({ type: 'nodebuffer' }));
+}
+
+describe('parseCsv', () => {
+  it('reads quoted fields with commas, quotes and line breaks', () => {
+    const csv = '\uFEFFName,Description\r\n"Acme, Inc.","Built the ""core""\nplatform"\r\n\r\nGlobex,Ops\r\n';
+
+    expect(parseCsv(csv)).toEqual([
+      { Name: 'Acme, Inc.', Description: 'Built the "core"\nplatform' },
+      { Name: 'Globex', Description: 'Ops' },
+    ]);
+  });
+
+  it('fills missing trailing cells and handles a header-only file', () => {
+    expect(parseCsv('a,b,c\n1,2')).toEqual([{ a: '1', b: '2', c: '' }]);
+    expect(parseCsv('a,b\n')).toEqual([]);
+    expect(parseCsv('')).toEqual([]);
+  });
+});
+
+describe('toYearMonth', () => {
+  it('normalises the date styles exports use', () => {
+    expect(toYearMonth('2021-03-15')).toBe('2021-03');
+    expect(toYearMonth('Mar 2021')).toBe('2021-03');
+    expect(toYearMonth('September 2019')).toBe('2019-09');
+    expect(toYearMonth('03/2021')).toBe('2021-03');
+    expect(toYearMonth('2020')).toBe('2020-01');
+  });
+
+  it('returns null without a year', () => {
+    expect(toYearMonth('Present')).toBeNull();
+    expect(toYearMonth('')).toBeNull();
+    expect(toYearMonth(null)).toBeNull();
+  });
+});
+
+describe('fromJsonResume', () => {
+  it('maps basics, work, education and skill keywords', () => {
+    const imported = fromJsonResume({
+      basics: {
+        name: 'Jane Doe',
+        label: 'Engineer',
+        email: 'jane@example.com',
+        location: { city: 'Berlin', countryCode: 'DE' },
+        profiles: [{ network: 'GitHub', username: 'jane' }],
+      },
+      work: [
+        { name: 'Acme', position: 'Developer', startDate: '2019-04-01', highlights: ['Shipped v2', ''] },
+        { name: 'No title', startDate: '2018-01-01' },
+      ],
+      education: [{ institution: 'TU Berlin', studyType: 'Bachelor', area: 'Computer Science', endDate: '2018', score: '3.7' }],
+      skills: [{ name: 'Web', keywords: ['TypeScript', 'typescript', 'Go'] }, { name: 'SQL' }],
+    });
+
+    expect(imported).toMatchObject({
+      source: 'json_resume',
+      name: 'Jane Doe',
+      headline: 'Engineer',
+      contact: { email: 'jane@example.com', location: 'Berlin, DE', github: 'github.com/jane' },
+      skills: ['TypeScript', 'Go', 'SQL'],
+      work: [{ position: 'Developer', company: 'Acme', start: '2019-04', end: null, highlights: ['Shipped v2'] }],
+      education: [{ degree: 'Bachelor in Computer Science', institution: 'TU Berlin', year: 2018, gpa: 3.7 }],
+    });
+  });
+});
+
+describe('fromLinkedInExport', () => {
+  it('reads the CSVs, nested one folder down or not', async () => {
+    const zip = await linkedInExport({
+      'export/Profile.csv': 'First Name,Last Name,Headline,Websites\nJane,Doe,Engineer,"[PORTFOLIO:https://jane.dev,OTHER:github.com/jane]"\n',
+      'export/Positions.csv':
+        'Company Name,Title,Description,Location,Started On,Finished On\nAcme,Developer,Built things,,Apr 2019,\nGlobex,,,,Jan 2017,Mar 2019\n',
+      'export/Email Addresses.csv': 'Email Address,Confirmed,Primary\nold@example.com,Yes,No\njane@example.com,Yes,Yes\n',
+      'export/Skills.csv': 'Name\nGo\ngo\nSQL\n',
+    });
+
+    expect(await fromLinkedInExport(zip)).toMatchObject({
+      source: 'linkedin',
+      name: 'Jane Doe',
+      headline: 'Engineer',
+      contact: { email: 'jane@example.com', website: 'https://jane.dev', github: 'github.com/jane' },
+      skills: ['Go', 'SQL'],
+      work: [{ position: 'Developer', company: 'Acme', start: '2019-04', end: null, description: 'Built things' }],
+    });
+  });
+
+  it('rejects archives that are not LinkedIn exports', async () => {
+    const zip = await linkedInExport({ 'notes.txt': 'hello' });
+
+    await expect(fromLinkedInExport(zip)).rejects.toBeInstanceOf(InvalidFileError);
+  });
+});
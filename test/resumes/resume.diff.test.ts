@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import type { Resume } from '../../src/types.js';
+import { diffLines, diffResumes } from '../../src/modules/resumes/resume.diff.js';
+
+function version(number: number, overrides: Partial<Resume>): Resume {
+  return {
+    id: `resume-${number}`,
+    userId: 'user-1',
+    documentId: 'document-1',
+    version: number,
+    fileUrl: '',
+    storageKey: null,
+    analysis: null,
+    analysisStatus: null,
+    processingStatus: 'ready',
+    processingError: null,
+    mimeType: 'application/pdf',
+    originalFileName: null,
+    fileSize: null,
+    fileHash: null,
+    textHash: null,
+    resumeText: null,
+    extractionMethod: null,
+    extractionConfidence: null,
+    createdAt: null,
+    ...overrides,
+  };
+}
+
+describe('diffLines', () => {
+  it('keeps only added and removed lines, in order', () => {
+    expect(diffLines('a\nb\nc\nd', 'a\nc\nx\nd\ne')).toEqual([
+      { type: 'removed', line: 'b' },
+      { type: 'added', line: 'x' },
+      { type: 'added', line: 'e' },
+    ]);
+  });
+
+  it('ignores whitespace differences and blank lines', () => {
+    expect(diffLines('Built  the API\r\n\r\nLed a team', '  Built the API\nLed a team  ')).toEqual([]);
+  });
+
+  it('handles an empty side', () => {
+    expect(diffLines('', 'a\nb')).toEqual([
+      { type: 'added', line: 'a' },
+      { type: 'added', line: 'b' },
+    ]);
+    expect(diffLines('a', '')).toEqual([{ type: 'removed', line: 'a' }]);
+  });
+});
+
+describe('diffResumes', () => {
+  it('compares analyses and the sections of the text', () => {
+    const from = version(1, {
+      analysis: {
+        skills: ['Go', 'SQL'],
+        experience: 3,
+        aiScore: 61,
+        education: [{ degree: 'BSc', institution: 'Leeds' }],
+      },
+      resumeText: 'Jane Doe\nExperience\nEngineer, Acme 2020 - Present\nSkills\nGo, SQL',
+    });
+    const to = version(2, {
+      analysis: {
+        skills: ['go', 'Kubernetes'],
+        experience: 4.5,
+        aiScore: 74,
+        education: [{ degree: 'bsc', institution: 'LEEDS' }],
+      },
+      resumeText: 'Jane Doe\nExperience\nSenior Engineer, Acme 2020 - Present\nSkills\nGo, Kubernetes\nProjects\nPayments CLI',
+    });
+
+    const diff = diffResumes(from, to);
+
+    expect(diff.from).toEqual({ resumeId: 'resume-1', version: 1, createdAt: null });
+    expect(diff.skills).toEqual({ added: ['Kubernetes'], removed: ['SQL'] });
+    expect(diff.education).toEqual({ added: [], removed: [] });
+    expect(diff.experience).toEqual({ from: 3, to: 4.5, change: 1.5 });
+    expect(diff.score).toEqual({ from: 61, to: 74, change: 13 });
+    expect(diff.sections).toEqual([
+      {
+        section: 'experience',
+        status: 'changed',
+        changes: [
+          { type: 'removed', line: 'Engineer, Acme 2020 - Present' },
+          { type: 'added', line: 'Senior Engineer, Acme 2020 - Present' },
+        ],
+      },
+      {
+        section: 'skills',
+        status: 'changed',
+        changes: [
+          { type: 'removed', line: 'Go, SQL' },
+          { type: 'added', line: 'Go, Kubernetes' },
+        ],
+      },
+      { section: 'projects', status: 'added', changes: [{ type: 'added', line: 'Payments CLI' }] },
+    ]);
+  });
+
+  it('reports unknown figures while a version is still processing', () => {
+    const diff = diffResumes(version(1, { analysis: { skills: ['Go'], experience: 2 } }), version(2, { processingStatus: 'pending' }));
+
+    expect(diff.experience).toEqual({ from: 2, to: null, change: null });
+    expect(diff.skills).toEqual({ added: [], removed: ['Go'] });
+    expect(diff.sections).toEqual([]);
+  });
+});
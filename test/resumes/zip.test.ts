@@ -0,0 +1,64 @@
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { InvalidFileError } from '../../src/modules/resumes/formats/format.types.js';
+import { assertZipWithinLimits, readZip, readZipText, validateZip, ZipTooLargeError } from '../../src/modules/resumes/formats/zip.js';
+
+const KB = 1024;
+
+async function archive(files: Record<string, string | Buffer>): Promise<Buffer> {
+  const zip = new JSZip();
+  for (const [name, content] of Object.entries(files)) zip.file(name, content);
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
+
+async function load(files: Record<string, string | Buffer>): Promise<JSZip> {
+  const zip = await readZip(await archive(files));
+  if (!zip) throw new Error('Test archive did not load');
+  return zip;
+}
+
+// Rewrite the uncompressed size in every header so the archive understates what it expands to
+function forgeSizes(buffer: Buffer, size: number): Buffer {
+  const forged = Buffer.from(buffer);
+  for (let offset = 0; offset < forged.length - 4; offset++) {
+    const signature = forged.readUInt32LE(offset);
+    if (signature === 0x04034b50) forged.writeUInt32LE(size, offset + 22);
+    if (signature === 0x02014b50) forged.writeUInt32LE(size, offset + 24);
+  }
+  return forged;
+}
+
+describe('zip limits', () => {
+  it('reads an entry within the limit', async () => {
+    const zip = await load({ 'content.xml': '<p>Hello</p>' });
+
+    await expect(readZipText(zip.file('content.xml')!, KB)).resolves.toBe('<p>Hello</p>');
+  });
+
+  it('rejects an entry that expands past the per-entry limit', async () => {
+    const zip = await load({ 'word/document.xml': Buffer.alloc(200 * KB) });
+
+    await expect(readZipText(zip.file('word/document.xml')!, 100 * KB)).rejects.toBeInstanceOf(ZipTooLargeError);
+    await expect(assertZipWithinLimits(zip, { entryBytes: 100 * KB })).rejects.toThrow('more than 100KB');
+  });
+
+  it('rejects entries that are each small but together pass the total limit', async () => {
+    const zip = await load({ a: Buffer.alloc(60 * KB), b: Buffer.alloc(60 * KB) });
+
+    await expect(assertZipWithinLimits(zip, { entryBytes: 100 * KB, totalBytes: 100 * KB })).rejects.toThrow(
+      'more than 100KB'
+    );
+    await expect(assertZipWithinLimits(zip, { entryBytes: 100 * KB, totalBytes: 200 * KB })).resolves.toBeUndefined();
+  });
+
+  it('stops inflating when the declared size is forged', async () => {
+    const zip = await readZip(forgeSizes(await archive({ bomb: Buffer.alloc(2048 * KB) }), 10));
+
+    await expect(readZipText(zip!.file('bomb')!, 100 * KB)).rejects.toBeInstanceOf(ZipTooLargeError);
+  });
+
+  it('reports limit breaches as invalid files', async () => {
+    await expect(validateZip(Buffer.from('not a zip'))).rejects.toBeInstanceOf(InvalidFileError);
+    expect(new ZipTooLargeError(KB)).toBeInstanceOf(InvalidFileError);
+  });
+});